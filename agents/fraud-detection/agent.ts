@@ -0,0 +1,205 @@
+import { Signer, keccak256 } from "ethers";
+import { AgentType, HashRouteError, ShipmentClient, Status, TxResult, VerificationRequestedEvent } from "../../sdk";
+import { OracleRegistry__factory } from "../../typechain-types";
+import { AgentCheckpoint, CheckpointStore, DeferredRequest } from "./checkpoint";
+import { SecretKeystore } from "./keystore";
+
+export type Verdict =
+    | { action: "confirm" }
+    | { action: "flag"; reason: string }
+    | { action: "defer"; reason: string; alert?: boolean }
+    | { action: "ignore"; reason: string };
+
+export interface FraudDetectionAgentOptions {
+    signer: Signer;
+    oracleRegistry: string;
+    collections: string[];
+    keystore: SecretKeystore;
+    checkpoints: CheckpointStore;
+    /** First block to scan when no checkpoint exists yet. */
+    startBlock?: number;
+    /** Attempts per transaction before giving up on a transient failure. */
+    maxAttempts?: number;
+    retryDelayMs?: number;
+    log?: (message: string) => void;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * @title FraudDetectionAgent
+ * @notice Reference off-chain FRAUD_DETECTION agent. It watches `VerificationRequested`
+ * events, checks the custodian's proof against the current leg's secret held in the keystore
+ * and its on-chain commitment, then calls `confirmVerification` or `flagShipment`.
+ * @dev Every decision is taken against the live on-chain state, so replaying events after
+ * a restart (or racing another agent) never produces a second transaction for a request.
+ */
+export class FraudDetectionAgent {
+    private readonly collections: Map<string, ShipmentClient>;
+    private readonly maxAttempts: number;
+    private readonly retryDelayMs: number;
+    private readonly log: (message: string) => void;
+
+    constructor(private readonly options: FraudDetectionAgentOptions) {
+        this.collections = new Map(
+            options.collections.map((address) => [address.toLowerCase(), new ShipmentClient(address, options.signer)])
+        );
+        this.maxAttempts = options.maxAttempts ?? 3;
+        this.retryDelayMs = options.retryDelayMs ?? 1_000;
+        this.log = options.log ?? ((message) => console.log(`[fraud-agent] ${message}`));
+    }
+
+    /**
+     * @notice Fails fast if the signer is not a trusted (registered and sufficiently bonded) FRAUD_DETECTION agent.
+     */
+    async assertRegistered(): Promise<void> {
+        const registry = OracleRegistry__factory.connect(this.options.oracleRegistry, this.options.signer);
+        const address = await this.options.signer.getAddress();
+        if (!(await registry.isTrustedAgent(AgentType.FRAUD_DETECTION, address))) {
+            throw new Error(`${address} is not a registered FRAUD_DETECTION agent, or is under-bonded`);
+        }
+    }
+
+    /**
+     * @notice Processes deferred requests, then every new block up to the chain head.
+     * @return The number of verification requests confirmed or flagged.
+     */
+    async pollOnce(): Promise<number> {
+        const provider = this.options.signer.provider!;
+        const checkpoint: AgentCheckpoint = (await this.options.checkpoints.load()) ?? {
+            lastBlock: (this.options.startBlock ?? 0) - 1,
+            deferred: [],
+        };
+        const head = await provider.getBlockNumber();
+
+        let handled = 0;
+        const stillDeferred: DeferredRequest[] = [];
+        const requests = [...checkpoint.deferred];
+
+        if (head > checkpoint.lastBlock) {
+            for (const [address, client] of this.collections) {
+                const events = await client.queryEvents(undefined, checkpoint.lastBlock + 1, head);
+                for (const event of events) {
+                    if (event.name !== "VerificationRequested") continue;
+                    requests.push(toRequest(address, event));
+                }
+            }
+        }
+
+        for (const request of requests) {
+            const outcome = await this.handle(request);
+            if (outcome === "defer") stillDeferred.push(request);
+            if (outcome === "acted") handled++;
+        }
+
+        await this.options.checkpoints.save({ lastBlock: Math.max(head, checkpoint.lastBlock), deferred: stillDeferred });
+        return handled;
+    }
+
+    /**
+     * @notice Polls forever (or until `signal` aborts), sleeping `intervalMs` between rounds.
+     */
+    async run(intervalMs: number, signal?: AbortSignal): Promise<void> {
+        await this.assertRegistered();
+        while (!signal?.aborted) {
+            try {
+                const handled = await this.pollOnce();
+                if (handled > 0) this.log(`handled ${handled} verification request(s)`);
+            } catch (error) {
+                this.log(`poll failed, will retry: ${(error as Error).message}`);
+            }
+            await sleep(intervalMs);
+        }
+    }
+
+    /**
+     * @notice Decides what to do with a request, based on current on-chain state and the keystore.
+     */
+    async evaluate(request: DeferredRequest): Promise<Verdict> {
+        const client = this.collections.get(request.collection.toLowerCase())!;
+        const tokenId = BigInt(request.tokenId);
+        const details = await client.getDetails(tokenId);
+
+        if (details.status !== Status.AwaitingVerification || details.pendingCustodian !== request.custodian) {
+            return { action: "ignore", reason: "request is no longer pending" };
+        }
+
+        const leg = details.currentRouteIndex;
+        const commitment = await client.currentLegKeyHash(tokenId);
+        const secret = await this.options.keystore.getSecret(request.collection, tokenId, leg);
+        if (secret === undefined) {
+            return { action: "defer", reason: `no secret in keystore for leg ${leg}` };
+        }
+        // A bad keystore entry says nothing about the shipment, so an operator has to fix it first
+        if (keccak256(secret) !== commitment) {
+            return { action: "defer", reason: `keystore secret for leg ${leg} does not match the on-chain commitment`, alert: true };
+        }
+        if (request.custodianProofHash !== commitment) {
+            return { action: "flag", reason: "Proof hash mismatch" };
+        }
+        return { action: "confirm" };
+    }
+
+    private async handle(request: DeferredRequest): Promise<"acted" | "defer" | "ignored"> {
+        const label = `${request.collection}#${request.tokenId}`;
+        const client = this.collections.get(request.collection.toLowerCase())!;
+        const tokenId = BigInt(request.tokenId);
+
+        for (let attempt = 1; ; attempt++) {
+            const verdict = await this.evaluate(request);
+            try {
+                switch (verdict.action) {
+                    case "ignore":
+                        return "ignored";
+                    case "defer":
+                        this.log(`${label}: ${verdict.alert ? "ALERT: " : ""}deferred (${verdict.reason})`);
+                        return "defer";
+                    case "confirm": {
+                        const data = client.contract.interface.encodeFunctionData("confirmVerification", [tokenId, request.custodian]);
+                        if (await this.alreadyApproved(client, tokenId, data)) return "ignored";
+                        const result = await client.confirmVerification(tokenId, request.custodian);
+                        this.log(`${label}: ${awaitingQuorum(result) ? "approved confirmation" : "confirmed custody"} for ${request.custodian}`);
+                        return "acted";
+                    }
+                    case "flag": {
+                        const data = client.contract.interface.encodeFunctionData("flagShipment", [tokenId, verdict.reason]);
+                        if (await this.alreadyApproved(client, tokenId, data)) return "ignored";
+                        const result = await client.flagShipment(tokenId, verdict.reason);
+                        this.log(`${label}: ${awaitingQuorum(result) ? "approved flag" : "flagged"} (${verdict.reason})`);
+                        return "acted";
+                    }
+                }
+            } catch (error) {
+                if (attempt >= this.maxAttempts) {
+                    this.log(`${label}: giving up after ${attempt} attempts, deferring: ${(error as Error).message}`);
+                    return "defer";
+                }
+                if (error instanceof HashRouteError) {
+                    // A revert means the state moved under us; the next evaluation will see it.
+                    this.log(`${label}: ${verdict.action} reverted (${error.reason}), re-evaluating`);
+                } else {
+                    this.log(`${label}: attempt ${attempt} failed, retrying: ${(error as Error).message}`);
+                    await sleep(this.retryDelayMs * attempt);
+                }
+            }
+        }
+    }
+
+    // With a quorum above one, our earlier approval may still be waiting for the other agents.
+    private async alreadyApproved(client: ShipmentClient, tokenId: bigint, data: string): Promise<boolean> {
+        return client.hasApproved(tokenId, data, await this.options.signer.getAddress());
+    }
+}
+
+function awaitingQuorum(result: TxResult): boolean {
+    return result.events.some((e) => e.name === "AgentApprovalRecorded");
+}
+
+function toRequest(collection: string, event: VerificationRequestedEvent): DeferredRequest {
+    return {
+        collection,
+        tokenId: event.args.tokenId.toString(),
+        custodian: event.args.custodian,
+        custodianProofHash: event.args.custodianProofHash,
+    };
+}
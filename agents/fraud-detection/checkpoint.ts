@@ -0,0 +1,50 @@
+import { readJson, writeJsonAtomic } from "../../lib/fs";
+
+/**
+ * @notice A verification request the agent could not decide yet (e.g. the secret
+ * has not reached the keystore) and will re-evaluate on every poll.
+ */
+export interface DeferredRequest {
+    collection: string;
+    tokenId: string;
+    custodian: string;
+    custodianProofHash: string;
+}
+
+/**
+ * @notice Progress the agent persists so that a restart resumes where it left off.
+ * @dev `lastBlock` is the last block whose events were fully handled.
+ */
+export interface AgentCheckpoint {
+    lastBlock: number;
+    deferred: DeferredRequest[];
+}
+
+export interface CheckpointStore {
+    load(): Promise<AgentCheckpoint | undefined>;
+    save(checkpoint: AgentCheckpoint): Promise<void>;
+}
+
+export class InMemoryCheckpointStore implements CheckpointStore {
+    private checkpoint?: AgentCheckpoint;
+
+    async load(): Promise<AgentCheckpoint | undefined> {
+        return this.checkpoint && { ...this.checkpoint, deferred: [...this.checkpoint.deferred] };
+    }
+
+    async save(checkpoint: AgentCheckpoint): Promise<void> {
+        this.checkpoint = { ...checkpoint, deferred: [...checkpoint.deferred] };
+    }
+}
+
+export class FileCheckpointStore implements CheckpointStore {
+    constructor(private readonly path: string) {}
+
+    async load(): Promise<AgentCheckpoint | undefined> {
+        return readJson<AgentCheckpoint | undefined>(this.path, undefined);
+    }
+
+    async save(checkpoint: AgentCheckpoint): Promise<void> {
+        await writeJsonAtomic(this.path, checkpoint);
+    }
+}
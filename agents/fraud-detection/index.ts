@@ -0,0 +1,3 @@
+export * from "./agent";
+export * from "./checkpoint";
+export * from "./keystore";
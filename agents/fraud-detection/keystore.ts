@@ -0,0 +1,62 @@
+import { hexlify, BytesLike } from "ethers";
+import { readJson, writeJsonAtomic } from "../../lib/fs";
+import { LegSecret } from "../../sdk";
+
+/**
+ * @notice Storage for the plaintext per-leg handover secrets, keyed by collection, token ID and leg.
+ * @dev Implementations must be safe to call repeatedly; the agent never deletes secrets.
+ */
+export interface SecretKeystore {
+    getSecret(collection: string, tokenId: bigint, leg: bigint): Promise<string | undefined>;
+    putSecret(collection: string, tokenId: bigint, leg: bigint, secret: BytesLike): Promise<void>;
+}
+
+export function keystoreKey(collection: string, tokenId: bigint, leg: bigint): string {
+    return `${collection.toLowerCase()}:${tokenId.toString()}:${leg.toString()}`;
+}
+
+/**
+ * @notice Keeps secrets in process memory. Intended for tests and local development.
+ */
+export class InMemoryKeystore implements SecretKeystore {
+    private readonly secrets = new Map<string, string>();
+
+    async getSecret(collection: string, tokenId: bigint, leg: bigint): Promise<string | undefined> {
+        return this.secrets.get(keystoreKey(collection, tokenId, leg));
+    }
+
+    async putSecret(collection: string, tokenId: bigint, leg: bigint, secret: BytesLike): Promise<void> {
+        this.secrets.set(keystoreKey(collection, tokenId, leg), hexlify(secret));
+    }
+}
+
+/**
+ * @notice Persists secrets as a JSON object on disk, rewritten atomically on every update.
+ */
+export class FileKeystore implements SecretKeystore {
+    constructor(private readonly path: string) {}
+
+    async getSecret(collection: string, tokenId: bigint, leg: bigint): Promise<string | undefined> {
+        const secrets = await this.read();
+        return secrets[keystoreKey(collection, tokenId, leg)];
+    }
+
+    async putSecret(collection: string, tokenId: bigint, leg: bigint, secret: BytesLike): Promise<void> {
+        const secrets = await this.read();
+        secrets[keystoreKey(collection, tokenId, leg)] = hexlify(secret);
+        await writeJsonAtomic(this.path, secrets);
+    }
+
+    private async read(): Promise<Record<string, string>> {
+        return readJson(this.path, {});
+    }
+}
+
+/**
+ * @notice Loads every leg secret the shipper generated for a token into a keystore.
+ */
+export async function storeLegSecrets(keystore: SecretKeystore, collection: string, tokenId: bigint, secrets: readonly LegSecret[]): Promise<void> {
+    for (const { leg, secret } of secrets) {
+        await keystore.putSecret(collection, tokenId, BigInt(leg), secret);
+    }
+}
@@ -0,0 +1,52 @@
+import "dotenv/config";
+import { JsonRpcProvider, Wallet } from "ethers";
+import { loadManifest, manifestCollections } from "../../sdk";
+import { FraudDetectionAgent } from "./agent";
+import { FileCheckpointStore } from "./checkpoint";
+import { FileKeystore } from "./keystore";
+
+// --- Configuration (from the environment / .env file) ---
+// AGENT_RPC_URL        JSON-RPC endpoint, defaults to a local `npx hardhat node`
+// FRAUD_AGENT_KEY      Private key of the registry-registered FRAUD_DETECTION agent
+// HASHROUTE_MANIFEST   Deployment manifest (deployments/<network>.json) supplying the addresses below when unset
+// ORACLE_REGISTRY      OracleRegistry address
+// COLLECTIONS          Comma-separated Shipment collection addresses to watch
+// KEYSTORE_FILE        JSON file holding the plaintext secrets (shared with the shipper backend)
+// CHECKPOINT_FILE      JSON file the agent uses to resume after a restart
+// START_BLOCK          First block to scan on a fresh checkpoint
+// POLL_INTERVAL_MS     Delay between polls
+
+// Falls back to the value from the deployment manifest, if one is configured
+function requireEnv(name: string, fallback?: string): string {
+    const value = process.env[name] || fallback;
+    if (!value) throw new Error(`Missing environment variable: ${name}`);
+    return value;
+}
+
+async function main() {
+    const manifest = process.env.HASHROUTE_MANIFEST ? await loadManifest(process.env.HASHROUTE_MANIFEST) : undefined;
+    const provider = new JsonRpcProvider(process.env.AGENT_RPC_URL ?? "http://127.0.0.1:8545");
+    const signer = new Wallet(requireEnv("FRAUD_AGENT_KEY"), provider);
+    const collections = requireEnv("COLLECTIONS", manifest && manifestCollections(manifest).join(",")).split(",").map((address) => address.trim());
+
+    const agent = new FraudDetectionAgent({
+        signer,
+        oracleRegistry: requireEnv("ORACLE_REGISTRY", manifest?.contracts.OracleRegistry.address),
+        collections,
+        keystore: new FileKeystore(process.env.KEYSTORE_FILE ?? ".agent/keystore.json"),
+        checkpoints: new FileCheckpointStore(process.env.CHECKPOINT_FILE ?? ".agent/fraud-checkpoint.json"),
+        startBlock: Number(process.env.START_BLOCK ?? manifest?.contracts.ShipmentFactory.blockNumber ?? 0),
+    });
+
+    const controller = new AbortController();
+    process.on("SIGINT", () => controller.abort());
+    process.on("SIGTERM", () => controller.abort());
+
+    console.log(`Fraud Detection Agent ${signer.address} watching ${collections.join(",")}`);
+    await agent.run(Number(process.env.POLL_INTERVAL_MS ?? 2_000), controller.signal);
+}
+
+main().catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+});
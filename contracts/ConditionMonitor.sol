@@ -0,0 +1,345 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
+import "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import "@openzeppelin/contracts/utils/cryptography/MerkleProof.sol";
+import "./Shipment.sol";
+import "./ShipmentFactory.sol";
+
+/**
+ * @title ConditionMonitor
+ * @notice Holds the condition thresholds (temperature, humidity, shock) shippers declare for their
+ * shipments, checks readings signed by each shipment's registered IoT devices against them, and
+ * puts a shipment into dispute as soon as a verified reading is out of range.
+ * @dev One monitor serves every collection of its factory, which is the only account collections
+ * accept a condition dispute from. Readings arrive either as a batch checked on submission, or as the
+ * Merkle root of a batch kept off-chain, from which any single out-of-range reading can later be proven.
+ */
+contract ConditionMonitor is EIP712 {
+    //==============================================================
+    // Types
+    //==============================================================
+
+    /// @notice The ranges readings must stay within. To leave one unchecked, use its widest bounds.
+    struct Thresholds {
+        // Hundredths of a degree Celsius
+        int32 minTemperature;
+        int32 maxTemperature;
+        // Hundredths of a percent of relative humidity, 0 to 10_000
+        uint32 minHumidity;
+        uint32 maxHumidity;
+        // Thousandths of a g
+        uint32 maxShock;
+    }
+
+    /// @notice One measurement, signed by a device with EIP-712 (see `READING_TYPEHASH`).
+    struct Reading {
+        uint64 timestamp;
+        int32 temperature;
+        uint32 humidity;
+        uint32 shock;
+        bytes signature;
+    }
+
+    /// @notice A verified out-of-range reading.
+    struct Breach {
+        address device;
+        uint64 timestamp;
+        int32 temperature;
+        uint32 humidity;
+        uint32 shock;
+        address submittedBy;
+        uint256 recordedAt;
+    }
+
+    /// @notice A committed batch of readings: the Merkle root of their leaves (see `readingLeaf`).
+    struct ReadingsBatch {
+        bytes32 root;
+        uint256 count;
+        address submittedBy;
+        uint256 submittedAt;
+    }
+
+    //==============================================================
+    // State Variables
+    //==============================================================
+
+    ShipmentFactory public immutable factory;
+
+    bytes32 private constant READING_TYPEHASH =
+        keccak256("Reading(address collection,uint256 tokenId,uint64 timestamp,int32 temperature,uint32 humidity,uint32 shock)");
+
+    uint32 private constant MAX_HUMIDITY = 10_000;
+
+    /// @notice Each monitored shipment's thresholds, keyed by collection and token ID.
+    mapping(address => mapping(uint256 => Thresholds)) public thresholds;
+
+    /// @notice When monitoring of a shipment began; 0 for shipments that are not monitored. Earlier readings are rejected.
+    mapping(address => mapping(uint256 => uint256)) public monitoredSince;
+
+    /// @notice Whether a device key may sign readings for a shipment.
+    mapping(address => mapping(uint256 => mapping(address => bool))) public isDevice;
+
+    mapping(address => mapping(uint256 => ReadingsBatch[])) private _batches;
+
+    mapping(address => mapping(uint256 => Breach[])) private _breaches;
+
+    /// @notice Whether a signed reading (by its EIP-712 digest) has already been recorded as a breach.
+    mapping(bytes32 => bool) public isBreachRecorded;
+
+    //==============================================================
+    // Events
+    //==============================================================
+
+    event MonitoringConfigured(address indexed collection, uint256 indexed tokenId, Thresholds thresholds, address[] devices);
+    event ReadingsSubmitted(address indexed collection, uint256 indexed tokenId, address indexed submittedBy, uint256 count, uint256 breaches);
+    event ReadingsRootSubmitted(address indexed collection, uint256 indexed tokenId, uint256 indexed batchIndex, bytes32 root, uint256 count, string uri);
+    event ConditionBreached(
+        address indexed collection,
+        uint256 indexed tokenId,
+        address indexed device,
+        uint64 timestamp,
+        int32 temperature,
+        uint32 humidity,
+        uint32 shock
+    );
+
+    /**
+     * @param _factory The factory whose collections this monitor serves; it must point back at this monitor.
+     */
+    constructor(ShipmentFactory _factory) EIP712("HashRoute ConditionMonitor", "1") {
+        require(address(_factory) != address(0), "Monitor: Factory cannot be zero");
+        factory = _factory;
+    }
+
+    //==============================================================
+    // Configuration
+    //==============================================================
+
+    /**
+     * @notice Declares a shipment's condition thresholds and the device keys that sign its readings.
+     * @dev Only the shipper can call this, once, before the shipment leaves them. To declare them in
+     * the same transaction that creates the shipment, use `ShipmentFactory.createMonitoredShipment`.
+     * @param collection The Shipment collection the shipment belongs to.
+     * @param tokenId The ID of the shipment.
+     * @param _thresholds The ranges readings must stay within.
+     * @param devices The addresses of the device keys.
+     */
+    function configure(Shipment collection, uint256 tokenId, Thresholds calldata _thresholds, address[] calldata devices) external {
+        _configure(collection, tokenId, msg.sender, _thresholds, devices);
+    }
+
+    /**
+     * @notice Runs `configure` for the shipper of a shipment the factory is creating.
+     * @dev Only callable by the factory, from `createMonitoredShipment`.
+     * @param collection The Shipment collection the shipment belongs to.
+     * @param tokenId The ID of the shipment.
+     * @param shipper The shipper who created the shipment.
+     * @param _thresholds The ranges readings must stay within.
+     * @param devices The addresses of the device keys.
+     */
+    function configureFor(Shipment collection, uint256 tokenId, address shipper, Thresholds calldata _thresholds, address[] calldata devices)
+        external
+    {
+        require(msg.sender == address(factory), "Monitor: Caller is not the factory");
+        _configure(collection, tokenId, shipper, _thresholds, devices);
+    }
+
+    //==============================================================
+    // Readings
+    //==============================================================
+
+    /**
+     * @notice Submits a batch of device-signed readings, recording every out-of-range one as a breach.
+     * @dev The first breach moves the shipment to Disputed. Open to the current custodian, the pending
+     * custodian and trusted Fraud Detection Agents. Reverts if any reading is not validly signed.
+     * @param collection The Shipment collection the shipment belongs to.
+     * @param tokenId The ID of the shipment.
+     * @param readings The signed readings.
+     * @return breaches How many of the readings were newly recorded breaches.
+     */
+    function submitReadings(Shipment collection, uint256 tokenId, Reading[] calldata readings) external returns (uint256 breaches) {
+        _requireSubmitter(collection, tokenId);
+        Thresholds memory limits = thresholds[address(collection)][tokenId];
+        for (uint256 i = 0; i < readings.length; i++) {
+            string memory breached = _breachedThreshold(limits, readings[i]);
+            if (bytes(breached).length == 0) {
+                _verify(collection, tokenId, readings[i]);
+            } else if (_recordBreach(collection, tokenId, readings[i], breached)) {
+                breaches++;
+            }
+        }
+        emit ReadingsSubmitted(address(collection), tokenId, msg.sender, readings.length, breaches);
+    }
+
+    /**
+     * @notice Commits a batch of readings kept off-chain by its Merkle root.
+     * @dev Open to the same submitters as `submitReadings`. Nothing is checked until a reading is
+     * proven with `proveBreach`.
+     * @param collection The Shipment collection the shipment belongs to.
+     * @param tokenId The ID of the shipment.
+     * @param root The Merkle root of the batch's `readingLeaf`s, with sorted-pair hashing.
+     * @param count The number of readings in the batch.
+     * @param uri Where the batch can be retrieved off-chain.
+     * @return batchIndex The index of the batch, for `proveBreach`.
+     */
+    function submitReadingsRoot(Shipment collection, uint256 tokenId, bytes32 root, uint256 count, string calldata uri)
+        external
+        returns (uint256 batchIndex)
+    {
+        _requireSubmitter(collection, tokenId);
+        require(root != bytes32(0) && count > 0, "Monitor: Empty readings batch");
+        batchIndex = _batches[address(collection)][tokenId].length;
+        _batches[address(collection)][tokenId].push(ReadingsBatch(root, count, msg.sender, block.timestamp));
+        emit ReadingsRootSubmitted(address(collection), tokenId, batchIndex, root, count, uri);
+    }
+
+    /**
+     * @notice Proves that a committed batch holds an out-of-range reading, recording the breach.
+     * @dev Callable by anyone: the batch came from an authorized submitter and the device signature
+     * is checked here. Moves the shipment to Disputed unless it already is.
+     * @param collection The Shipment collection the shipment belongs to.
+     * @param tokenId The ID of the shipment.
+     * @param batchIndex The batch the reading belongs to.
+     * @param reading The out-of-range reading.
+     * @param proof The Merkle proof of the reading's leaf in the batch.
+     */
+    function proveBreach(Shipment collection, uint256 tokenId, uint256 batchIndex, Reading calldata reading, bytes32[] calldata proof) external {
+        _requireOpen(collection, tokenId);
+        ReadingsBatch[] storage batches = _batches[address(collection)][tokenId];
+        require(batchIndex < batches.length, "Monitor: Unknown readings batch");
+        require(MerkleProof.verifyCalldata(proof, batches[batchIndex].root, readingLeaf(reading)), "Monitor: Reading not in batch");
+        string memory breached = _breachedThreshold(thresholds[address(collection)][tokenId], reading);
+        require(bytes(breached).length > 0, "Monitor: Reading within thresholds");
+        require(_recordBreach(collection, tokenId, reading, breached), "Monitor: Breach already recorded");
+    }
+
+    //==============================================================
+    // View Functions
+    //==============================================================
+
+    /**
+     * @notice The leaf a reading contributes to a batch's Merkle tree.
+     * @dev Double-hashed like OpenZeppelin's StandardMerkleTree. The signature is left out: it is
+     * checked when the reading is proven.
+     */
+    function readingLeaf(Reading calldata reading) public pure returns (bytes32) {
+        return keccak256(bytes.concat(keccak256(abi.encode(reading.timestamp, reading.temperature, reading.humidity, reading.shock))));
+    }
+
+    /**
+     * @notice The EIP-712 digest a device signs for a reading.
+     */
+    function readingDigest(Shipment collection, uint256 tokenId, Reading calldata reading) public view returns (bytes32) {
+        return _hashTypedDataV4(
+            keccak256(abi.encode(READING_TYPEHASH, collection, tokenId, reading.timestamp, reading.temperature, reading.humidity, reading.shock))
+        );
+    }
+
+    /**
+     * @notice Returns every breach recorded for a shipment, oldest first.
+     */
+    function getBreaches(Shipment collection, uint256 tokenId) external view returns (Breach[] memory) {
+        return _breaches[address(collection)][tokenId];
+    }
+
+    /**
+     * @notice Returns every readings batch committed for a shipment, oldest first.
+     */
+    function getReadingsBatches(Shipment collection, uint256 tokenId) external view returns (ReadingsBatch[] memory) {
+        return _batches[address(collection)][tokenId];
+    }
+
+    //==============================================================
+    // Internal Functions
+    //==============================================================
+
+    function _configure(Shipment collection, uint256 tokenId, address caller, Thresholds calldata _thresholds, address[] calldata devices) internal {
+        require(factory.isShipmentContractRegistered(address(collection)), "Monitor: Collection not registered");
+        (address shipper, , Shipment.Status status, , , , uint256 routeIndex, , , ) = collection.shipmentDetails(tokenId);
+        require(caller == shipper, "Monitor: Only the shipper can configure monitoring");
+        require(monitoredSince[address(collection)][tokenId] == 0, "Monitor: Monitoring already configured");
+        require(status == Shipment.Status.Created && routeIndex == 0, "Monitor: Shipment already left the shipper");
+        require(
+            _thresholds.minTemperature <= _thresholds.maxTemperature &&
+                _thresholds.minHumidity <= _thresholds.maxHumidity &&
+                _thresholds.maxHumidity <= MAX_HUMIDITY,
+            "Monitor: Invalid thresholds"
+        );
+        require(devices.length > 0, "Monitor: At least one device required");
+
+        thresholds[address(collection)][tokenId] = _thresholds;
+        monitoredSince[address(collection)][tokenId] = block.timestamp;
+        for (uint256 i = 0; i < devices.length; i++) {
+            require(devices[i] != address(0), "Monitor: Device cannot be zero");
+            isDevice[address(collection)][tokenId][devices[i]] = true;
+        }
+        emit MonitoringConfigured(address(collection), tokenId, _thresholds, devices);
+    }
+
+    function _requireSubmitter(Shipment collection, uint256 tokenId) internal view {
+        _requireOpen(collection, tokenId);
+        (, , , , , , , address pendingCustodian, , ) = collection.shipmentDetails(tokenId);
+        require(
+            msg.sender == collection.ownerOf(tokenId) ||
+                msg.sender == pendingCustodian ||
+                collection.oracleRegistry().isTrustedAgent(OracleRegistry.AgentType.FRAUD_DETECTION, msg.sender),
+            "Monitor: Caller cannot submit readings"
+        );
+    }
+
+    // Readings are only taken for monitored shipments that are still under way
+    function _requireOpen(Shipment collection, uint256 tokenId) internal view {
+        require(monitoredSince[address(collection)][tokenId] != 0, "Monitor: Shipment not monitored");
+        (, , Shipment.Status status, , , , , , , ) = collection.shipmentDetails(tokenId);
+        require(status != Shipment.Status.Completed && status != Shipment.Status.Cancelled, "Monitor: Shipment is closed");
+    }
+
+    /**
+     * @dev Checks the reading's signature and records it as a breach, disputing the shipment with
+     * `reason` unless it is already disputed. Returns false if this signed reading was recorded before.
+     */
+    function _recordBreach(Shipment collection, uint256 tokenId, Reading calldata reading, string memory reason) internal returns (bool) {
+        (address device, bytes32 digest) = _verify(collection, tokenId, reading);
+        if (isBreachRecorded[digest]) {
+            return false;
+        }
+        isBreachRecorded[digest] = true;
+        _breaches[address(collection)][tokenId].push(
+            Breach(device, reading.timestamp, reading.temperature, reading.humidity, reading.shock, msg.sender, block.timestamp)
+        );
+        emit ConditionBreached(address(collection), tokenId, device, reading.timestamp, reading.temperature, reading.humidity, reading.shock);
+
+        (, , Shipment.Status status, , , , , , , ) = collection.shipmentDetails(tokenId);
+        if (status != Shipment.Status.Disputed) {
+            factory.disputeForCondition(address(collection), tokenId, reason);
+        }
+        return true;
+    }
+
+    function _verify(Shipment collection, uint256 tokenId, Reading calldata reading) internal view returns (address device, bytes32 digest) {
+        digest = readingDigest(collection, tokenId, reading);
+        ECDSA.RecoverError error;
+        (device, error, ) = ECDSA.tryRecover(digest, reading.signature);
+        require(error == ECDSA.RecoverError.NoError && isDevice[address(collection)][tokenId][device], "Monitor: Reading not signed by a device");
+        require(
+            reading.timestamp >= monitoredSince[address(collection)][tokenId] && reading.timestamp <= block.timestamp,
+            "Monitor: Reading outside the monitoring period"
+        );
+    }
+
+    // The dispute reason for the first threshold the reading breaks, or "" if it breaks none
+    function _breachedThreshold(Thresholds memory limits, Reading calldata reading) internal pure returns (string memory) {
+        if (reading.temperature < limits.minTemperature || reading.temperature > limits.maxTemperature) {
+            return "Temperature out of range";
+        }
+        if (reading.humidity < limits.minHumidity || reading.humidity > limits.maxHumidity) {
+            return "Humidity out of range";
+        }
+        if (reading.shock > limits.maxShock) {
+            return "Shock limit exceeded";
+        }
+        return "";
+    }
+}
@@ -4,14 +4,45 @@ pragma solidity ^0.8.20;
 import "@openzeppelin/contracts/access/Ownable.sol";
 
 contract OracleRegistry is Ownable {
-    
+
     // Different types of trusted agents in our system
     enum AgentType { ROUTING, ARBITRATION, FRAUD_DETECTION }
 
+    /// @notice A registered agent as returned by `getAgents`.
+    struct AgentInfo {
+        address agent;
+        string metadata;
+        uint256 bond;
+        // Registered and bonded at or above the type's minimum
+        bool trusted;
+    }
+
     mapping(AgentType => mapping(address => bool)) public isAgent;
 
+    /// @notice Free-form description of each agent (operator, endpoint, docs URI...).
+    mapping(AgentType => mapping(address => string)) public agentMetadata;
+
+    /// @notice HBAR each agent has bonded for a type; the owner can slash it for misbehaviour.
+    mapping(AgentType => mapping(address => uint256)) public bondOf;
+
+    /// @notice Bond an agent needs to be trusted for a type (0 = bonding is optional).
+    mapping(AgentType => uint256) public minimumBond;
+
+    // Number of distinct agents that must approve an action; 0 is treated as 1
+    mapping(AgentType => uint256) private _thresholds;
+
+    // Registered agents per type, with 1-based positions for O(1) removal
+    mapping(AgentType => address[]) private _agents;
+    mapping(AgentType => mapping(address => uint256)) private _agentPositions;
+
     event AgentRegistered(address indexed agentAddress, AgentType indexed agentType);
     event AgentRevoked(address indexed agentAddress, AgentType indexed agentType);
+    event AgentMetadataUpdated(address indexed agentAddress, AgentType indexed agentType, string metadata);
+    event ThresholdUpdated(AgentType indexed agentType, uint256 threshold);
+    event MinimumBondUpdated(AgentType indexed agentType, uint256 minimumBond);
+    event BondDeposited(address indexed agentAddress, AgentType indexed agentType, uint256 amount);
+    event BondWithdrawn(address indexed agentAddress, AgentType indexed agentType, uint256 amount);
+    event BondSlashed(address indexed agentAddress, AgentType indexed agentType, uint256 amount, address beneficiary);
 
     constructor() Ownable(msg.sender) {}
 
@@ -21,12 +52,135 @@ contract OracleRegistry is Ownable {
     }
 
     function registerAgent(address _agentAddress, AgentType _agentType) public onlyOwner {
-        isAgent[_agentType][_agentAddress] = true;
+        if (!isAgent[_agentType][_agentAddress]) {
+            isAgent[_agentType][_agentAddress] = true;
+            _agents[_agentType].push(_agentAddress);
+            _agentPositions[_agentType][_agentAddress] = _agents[_agentType].length;
+        }
         emit AgentRegistered(_agentAddress, _agentType);
     }
 
     function revokeAgent(address _agentAddress, AgentType _agentType) public onlyOwner {
-        isAgent[_agentType][_agentAddress] = false;
+        if (isAgent[_agentType][_agentAddress]) {
+            isAgent[_agentType][_agentAddress] = false;
+
+            // Swap the last agent into the revoked one's slot
+            address[] storage agents = _agents[_agentType];
+            uint256 position = _agentPositions[_agentType][_agentAddress];
+            address last = agents[agents.length - 1];
+            agents[position - 1] = last;
+            _agentPositions[_agentType][last] = position;
+            agents.pop();
+            delete _agentPositions[_agentType][_agentAddress];
+        }
         emit AgentRevoked(_agentAddress, _agentType);
     }
+
+    /**
+     * @notice Describes a registered agent. Callable by the owner or by the agent itself.
+     */
+    function setAgentMetadata(address _agentAddress, AgentType _agentType, string calldata _metadata) external {
+        require(msg.sender == owner() || msg.sender == _agentAddress, "Caller cannot update this agent's metadata");
+        require(isAgent[_agentType][_agentAddress], "Agent not registered");
+        agentMetadata[_agentType][_agentAddress] = _metadata;
+        emit AgentMetadataUpdated(_agentAddress, _agentType, _metadata);
+    }
+
+    //==============================================================
+    // Quorum
+    //==============================================================
+
+    /**
+     * @notice Sets how many distinct agents of a type must approve an action before it takes effect.
+     */
+    function setThreshold(AgentType _agentType, uint256 _threshold) external onlyOwner {
+        require(_threshold > 0, "Threshold must be at least one");
+        _thresholds[_agentType] = _threshold;
+        emit ThresholdUpdated(_agentType, _threshold);
+    }
+
+    /**
+     * @notice Returns the number of distinct agents of a type that must approve an action.
+     */
+    function quorum(AgentType _agentType) external view returns (uint256) {
+        uint256 threshold = _thresholds[_agentType];
+        return threshold == 0 ? 1 : threshold;
+    }
+
+    //==============================================================
+    // Bonds
+    //==============================================================
+
+    /**
+     * @notice Sets the bond an agent needs to be trusted for a type. Agents below it stop being trusted immediately.
+     */
+    function setMinimumBond(AgentType _agentType, uint256 _minimumBond) external onlyOwner {
+        minimumBond[_agentType] = _minimumBond;
+        emit MinimumBondUpdated(_agentType, _minimumBond);
+    }
+
+    /**
+     * @notice Adds the sent HBAR to the caller's bond for a type. Can be done before registration.
+     */
+    function depositBond(AgentType _agentType) external payable {
+        require(msg.value > 0, "Bond must be greater than zero");
+        bondOf[_agentType][msg.sender] += msg.value;
+        emit BondDeposited(msg.sender, _agentType, msg.value);
+    }
+
+    /**
+     * @notice Returns bonded HBAR to the caller. Only possible while not registered, so a trusted agent cannot dodge a slash.
+     */
+    function withdrawBond(AgentType _agentType, uint256 _amount) external {
+        require(!isAgent[_agentType][msg.sender], "Revoke the agent before withdrawing its bond");
+        require(_amount > 0 && _amount <= bondOf[_agentType][msg.sender], "Insufficient bond");
+        bondOf[_agentType][msg.sender] -= _amount;
+
+        payable(msg.sender).transfer(_amount);
+        emit BondWithdrawn(msg.sender, _agentType, _amount);
+    }
+
+    /**
+     * @notice Called by the owner to confiscate part of an agent's bond, e.g. to compensate a wronged party.
+     */
+    function slashBond(address _agentAddress, AgentType _agentType, uint256 _amount, address _beneficiary) external onlyOwner {
+        require(_beneficiary != address(0), "Beneficiary cannot be zero");
+        require(_amount > 0 && _amount <= bondOf[_agentType][_agentAddress], "Insufficient bond");
+        bondOf[_agentType][_agentAddress] -= _amount;
+
+        payable(_beneficiary).transfer(_amount);
+        emit BondSlashed(_agentAddress, _agentType, _amount, _beneficiary);
+    }
+
+    //==============================================================
+    // Views
+    //==============================================================
+
+    /**
+     * @notice Returns true if the agent is registered for the type and meets its minimum bond.
+     */
+    function isTrustedAgent(AgentType _agentType, address _agentAddress) public view returns (bool) {
+        return isAgent[_agentType][_agentAddress] && bondOf[_agentType][_agentAddress] >= minimumBond[_agentType];
+    }
+
+    function agentCount(AgentType _agentType) external view returns (uint256) {
+        return _agents[_agentType].length;
+    }
+
+    /**
+     * @notice Lists every registered agent of a type with its metadata, bond and trust status.
+     */
+    function getAgents(AgentType _agentType) external view returns (AgentInfo[] memory agents) {
+        address[] storage registered = _agents[_agentType];
+        agents = new AgentInfo[](registered.length);
+        for (uint256 i = 0; i < registered.length; i++) {
+            address agent = registered[i];
+            agents[i] = AgentInfo({
+                agent: agent,
+                metadata: agentMetadata[_agentType][agent],
+                bond: bondOf[_agentType][agent],
+                trusted: isTrustedAgent(_agentType, agent)
+            });
+        }
+    }
 }
\ No newline at end of file
@@ -3,7 +3,13 @@ pragma solidity ^0.8.20;
 
 import "@openzeppelin/contracts/token/ERC721/ERC721.sol";
 import "@openzeppelin/contracts/access/Ownable.sol";
-import "./OracleRegistry.sol"; 
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "@openzeppelin/contracts/proxy/utils/Initializable.sol";
+import "./OracleRegistry.sol";
+import "./libraries/RouteLib.sol";
+import "./libraries/DisputeLib.sol";
+import "./libraries/QuorumLib.sol";
 /**
  * @title Shipment
  * @author Rafat Hussain
@@ -11,45 +17,149 @@ import "./OracleRegistry.sol";
  * This contract acts as the on-chain state machine for a shipment's journey,
  * managed by custodians and trusted autonomous agents.
  */
-contract Shipment is ERC721, Ownable {
+contract Shipment is ERC721, Ownable, Initializable {
+    using SafeERC20 for IERC20;
     
     //==============================================================
     // State Variables
     //==============================================================
 
     address public factoryAddress;
-    OracleRegistry public immutable oracleRegistry;
+    OracleRegistry public oracleRegistry;
 
-    enum Status { Created, InTransit, AwaitingVerification, Delivered, Completed, Disputed, ReroutingRequested }
+    // Kept here rather than in ERC721 so that each clone of the implementation has its own name and symbol.
+    string private _collectionName;
+    string private _collectionSymbol;
+
+    enum Status { Created, InTransit, AwaitingVerification, Delivered, Completed, Disputed, ReroutingRequested, Cancelled }
+
+    /// @notice What holders may do with a shipment NFT once the shipment is Completed.
+    enum CompletedTokenPolicy { Locked, Transferable, Burnable }
 
     struct Details {
         address shipper;
         address recipient;
         Status status;
         string cargoDetails;
+        // Asset the escrow is held in: address(0) for native HBAR, otherwise an ERC-20 (or HTS) token
+        address paymentToken;
+        // Escrow not yet released; per-leg fees are deducted from it as legs are verified
         uint256 paymentAmount;
         address[] plannedRoute;
         uint256 currentRouteIndex;
         address pendingCustodian;
-        bytes32 keyHash;
+        // keccak256 commitment of each leg's secret; leg i runs from plannedRoute[i] to plannedRoute[i + 1]
+        bytes32[] legKeyHashes;
+        // Fee for each leg, released to the receiving custodian on verification
+        uint256[] legFees;
+        // Timestamp by which each leg must be verified (0 = no deadline)
+        uint256[] legDeadlines;
+        // Timestamp by which the shipment must be delivered (0 = no deadline)
+        uint256 deliveryDeadline;
+        // Share of a leg's fee, in basis points, withheld for the shipper when the leg is verified late
+        uint256 latePenaltyBps;
+    }
+
+    /// @notice One entry of a token's status history.
+    struct StatusChange {
+        Status status;
+        uint256 changedAt;
     }
 
+    uint256 private constant BPS_DENOMINATOR = 10_000;
+
+    // Allowed status transitions: byte `from` of the mask has bit `to` set when `from -> to` is allowed.
+    //   Created              0xF2  -> InTransit, ReroutingRequested, Disputed, Completed (timeout refund), Cancelled
+    //   InTransit            0xF4  -> AwaitingVerification, ReroutingRequested, Disputed, Completed (timeout refund), Cancelled
+    //   AwaitingVerification 0xB9  -> Created (next leg), Delivered, Disputed, Completed (timeout refund), Cancelled
+    //   Delivered            0x30  -> Completed, Disputed
+    //   Completed            0x00  -> (final)
+    //   Disputed             0x10  -> Completed (settlement)
+    //   ReroutingRequested   0xB1  -> Created (new route or request withdrawn), Disputed, Completed (timeout refund), Cancelled
+    //   Cancelled            0x00  -> (final)
+    uint256 private constant ALLOWED_TRANSITIONS = 0x00_B1_10_00_30_B9_F4_F2;
+
     mapping(uint256 => Details) public shipmentDetails;
 
+    /// @dev Every status each token has been in, oldest first, starting with Created at mint.
+    mapping(uint256 => StatusChange[]) private _statusHistory;
+
+    /// @dev Every route each token has followed, oldest first, starting with the route it was created with.
+    mapping(uint256 => address[][]) private _routeHistory;
+
+    /// @dev The route proposal awaiting acceptance for each token, if any.
+    mapping(uint256 => RouteLib.Proposal) private _routeProposals;
+
+    /// @notice Time the shipper (and recipient) have to accept a route proposed by the Routing Agent.
+    uint256 public routeAcceptanceWindow;
+
+    /// @dev Every dispute raised for each token, oldest first; only the last one can be open.
+    mapping(uint256 => DisputeLib.DisputeRecord[]) private _disputes;
+
+    /// @notice Time an arbitrator has to rule on a dispute after it is raised.
+    uint256 public arbitrationPeriod;
+
+    /// @notice The split given to new disputes, applied when one is not ruled on within `arbitrationPeriod`.
+    DisputeLib.Split public defaultSplit;
+
+    /// @notice Bumped whenever a token's state moves on, retiring approvals cast for the previous state.
+    mapping(uint256 => uint256) public actionNonce;
+
+    /// @notice Whether an agent has approved a quorum action (see `quorumActionHash`).
+    mapping(bytes32 => mapping(address => bool)) public hasApproved;
+
+    /// @notice Number of distinct agents that have approved a quorum action and were still trusted when last counted.
+    mapping(bytes32 => uint256) public approvalCount;
+
+    // The agents that approved each quorum action, recounted against the registry when the quorum is reached
+    mapping(bytes32 => address[]) private _approvers;
+
+    /// @notice Leg fees released to each custodian and not yet withdrawn, per escrow asset.
+    mapping(address => mapping(address => uint256)) public claimableFees;
+
+    /// @notice ERC-20 tokens this collection accepts as escrow. Native HBAR is always accepted.
+    mapping(address => bool) public isPaymentTokenAllowed;
+
+    // The length of the token's status history when the recipient approved cancellation, so that any
+    // later status change withdraws the approval (see `cancellationApproved`)
+    mapping(uint256 => uint256) private _cancellationApprovedAt;
+
+    /// @notice Chosen by the collection owner; shipment NFTs can never move outside the workflow before completion.
+    CompletedTokenPolicy public completedTokenPolicy;
+
+    /// @notice Operators holders may approve (e.g. a marketplace or archive contract). Approving anyone else reverts.
+    mapping(address => bool) public isApprovedOperator;
+
     //==============================================================
     // Events
     //==============================================================
 
     event ShipmentInitialized(uint256 indexed tokenId, address indexed shipper, address indexed recipient);
+    event StatusChanged(uint256 indexed tokenId, Status from, Status to);
     event HandoverInitiated(uint256 indexed tokenId, address indexed from, address indexed to);
     event VerificationRequested(uint256 indexed tokenId, address indexed custodian, bytes data);
     event ShipmentVerifiedAndReceived(uint256 indexed tokenId, address indexed newCustodian);
     event RerouteRequested(uint256 indexed tokenId, address indexed requestor, string reason);
+    event RerouteWithdrawn(uint256 indexed tokenId, address indexed withdrawnBy);
+    event RouteProposed(uint256 indexed tokenId, address indexed finalDestination, uint256 expiresAt);
+    event RouteAccepted(uint256 indexed tokenId, address indexed party);
     event RouteUpdated(uint256 indexed tokenId);
     event ShipmentFlagged(uint256 indexed tokenId, string reason);
     event DisputeRaised(uint256 indexed tokenId, address indexed raisedBy, string reason);
-    event DisputeResolved(uint256 indexed tokenId, address indexed beneficiary, uint256 amount);
+    event EvidenceSubmitted(uint256 indexed tokenId, uint256 indexed disputeIndex, address indexed submittedBy, string uri, bytes32 contentHash);
+    event DisputeResolved(uint256 indexed tokenId, address indexed resolvedBy, uint256 shipperAmount, uint256 recipientAmount, uint256 custodianAmount);
+    event AgentApprovalRecorded(uint256 indexed tokenId, bytes32 indexed actionHash, address indexed agent, uint256 approvals, uint256 threshold);
+    event ArbitrationSettingsUpdated(uint256 arbitrationPeriod, uint256 shipperBps, uint256 recipientBps, uint256 custodianBps);
+    event RouteAcceptanceWindowUpdated(uint256 routeAcceptanceWindow);
     event PaymentReleased(uint256 indexed tokenId, address indexed shipper, uint256 amount);
+    event LegFeeReleased(uint256 indexed tokenId, uint256 indexed leg, address indexed custodian, uint256 amount);
+    event FeesClaimed(address indexed custodian, address indexed paymentToken, uint256 amount);
+    event TimeoutRefunded(uint256 indexed tokenId, address indexed shipper, uint256 amount);
+    event CancellationApproved(uint256 indexed tokenId, address indexed recipient);
+    event ShipmentCancelled(uint256 indexed tokenId, address indexed shipper, uint256 refund);
+    event PaymentTokenAllowed(address indexed paymentToken, bool allowed);
+    event CompletedTokenPolicyUpdated(CompletedTokenPolicy policy);
+    event ApprovedOperatorUpdated(address indexed operator, bool allowed);
 
 
     //==============================================================
@@ -61,9 +171,14 @@ contract Shipment is ERC721, Ownable {
         _;
     }
 
-    modifier onlyRegisteredAgent(OracleRegistry.AgentType _type) {
-        require(oracleRegistry.isAgent(_type, msg.sender), "Caller is not a registered agent of this type");
-        _;
+    /**
+     * @dev Records the caller's approval and only runs the function once the agent type's quorum is reached.
+     * Agents must submit identical calls (same arguments, including reason strings) to be counted together.
+     */
+    modifier onlyAgentQuorum(OracleRegistry.AgentType _type, uint256 tokenId) {
+        if (_recordApproval(_type, tokenId)) {
+            _;
+        }
     }
 
     modifier onlyOwnerOf(uint256 tokenId) {
@@ -76,13 +191,48 @@ contract Shipment is ERC721, Ownable {
     // Constructor
     //==============================================================
     
+    /**
+     * @dev A directly deployed contract is a collection of its own. Used as the implementation behind
+     * `ShipmentFactory.createCollection` clones, it counts as initialized and cannot be taken over.
+     */
     constructor(address _oracleRegistryAddress) 
-        ERC721("HBARgo Shipment", "HGO") 
+        ERC721("", "") 
         // The deployer is the initial owner, who can then set the factory
         Ownable(msg.sender) 
+        initializer
     {
+        _initializeCollection("HBARgo Shipment", "HGO", _oracleRegistryAddress);
+    }
+
+    /**
+     * @notice Sets up a clone of this contract as a new collection. Called once, by the factory deploying it.
+     * @param name_ The collection's ERC-721 name.
+     * @param symbol_ The collection's ERC-721 symbol.
+     * @param _oracleRegistryAddress The registry agents and quorum thresholds are read from.
+     * @param _owner The collection's owner.
+     * @param _factoryAddress The factory allowed to mint.
+     */
+    function initialize(
+        string calldata name_,
+        string calldata symbol_,
+        address _oracleRegistryAddress,
+        address _owner,
+        address _factoryAddress
+    ) external initializer {
+        _initializeCollection(name_, symbol_, _oracleRegistryAddress);
+        _transferOwnership(_owner);
+        factoryAddress = _factoryAddress;
+    }
+
+    function _initializeCollection(string memory name_, string memory symbol_, address _oracleRegistryAddress) internal {
         require(_oracleRegistryAddress != address(0), "Oracle Registry address cannot be zero");
+        _collectionName = name_;
+        _collectionSymbol = symbol_;
         oracleRegistry = OracleRegistry(_oracleRegistryAddress);
+        routeAcceptanceWindow = 3 days;
+        arbitrationPeriod = 7 days;
+        // Unless configured otherwise, an unresolved dispute refunds the shipper
+        defaultSplit = DisputeLib.Split(BPS_DENOMINATOR, 0, 0);
     }
 
 
@@ -92,12 +242,20 @@ contract Shipment is ERC721, Ownable {
 
     /**
      * @notice Mints and initializes a new shipment. Called only by the factory.
-     * @dev This function is payable to receive and hold the escrowed payment.
+     * @dev This function is payable to receive and hold a native escrow. For a token escrow the
+     * factory transfers `paymentAmount` of `paymentToken` to this contract before calling.
      * @param tokenId The new token ID to mint.
      * @param shipper The original shipper of the goods.
      * @param recipient The final destination address.
      * @param cargoDetails A description of the cargo.
      * @param plannedRoute The multi-node route for the shipment.
+     * @param paymentToken The escrow asset: address(0) for native HBAR, otherwise an allow-listed token.
+     * @param paymentAmount The amount held in escrow.
+     * @param legKeyHashes One secret commitment per route leg.
+     * @param legFees One carrier fee per route leg, paid out of the escrow.
+     * @param legDeadlines Timestamp by which each leg must be verified, or 0 for none.
+     * @param deliveryDeadline Timestamp by which the shipment must be delivered, or 0 for none.
+     * @param latePenaltyBps Share of a late leg's fee withheld for the shipper, in basis points.
      */
     function mintAndInitialize(
         uint256 tokenId,
@@ -105,21 +263,36 @@ contract Shipment is ERC721, Ownable {
         address recipient,
         string calldata cargoDetails,
         address[] calldata plannedRoute,
-        bytes32 keyHash
+        address paymentToken,
+        uint256 paymentAmount,
+        bytes32[] calldata legKeyHashes,
+        uint256[] calldata legFees,
+        uint256[] calldata legDeadlines,
+        uint256 deliveryDeadline,
+        uint256 latePenaltyBps
     ) external payable onlyFactory {
+        if (paymentToken == address(0)) {
+            require(msg.value == paymentAmount, "Native escrow does not match payment amount");
+        } else {
+            require(isPaymentTokenAllowed[paymentToken], "Payment token not allowed");
+            require(msg.value == 0, "Native value sent with a token escrow");
+        }
+
         _mint(shipper, tokenId);
 
-        shipmentDetails[tokenId] = Details({
-            shipper: shipper,
-            recipient: recipient,
-            status: Status.Created,
-            cargoDetails: cargoDetails,
-            paymentAmount: msg.value,
-            plannedRoute: plannedRoute,
-            currentRouteIndex: 0,
-            keyHash: keyHash,
-            pendingCustodian: address(0)
-        });
+        Details storage shipment = shipmentDetails[tokenId];
+        shipment.shipper = shipper;
+        shipment.recipient = recipient;
+        shipment.cargoDetails = cargoDetails;
+        shipment.paymentToken = paymentToken;
+        shipment.paymentAmount = paymentAmount;
+        shipment.deliveryDeadline = deliveryDeadline;
+        shipment.latePenaltyBps = latePenaltyBps;
+        RouteLib.setRoute(
+            shipment.plannedRoute, shipment.legKeyHashes, shipment.legFees, shipment.legDeadlines, _routeHistory[tokenId],
+            plannedRoute, legKeyHashes, legFees, legDeadlines
+        );
+        _statusHistory[tokenId].push(StatusChange({ status: Status.Created, changedAt: block.timestamp }));
 
         emit ShipmentInitialized(tokenId, shipper, recipient);
     }
@@ -130,12 +303,16 @@ contract Shipment is ERC721, Ownable {
      * @param tokenId The ID of the shipment to hand over.
      */
     function initiateHandover(uint256 tokenId) external onlyOwnerOf(tokenId) {
+        _initiateHandover(tokenId);
+    }
+
+    function _initiateHandover(uint256 tokenId) internal {
         Details storage shipment = shipmentDetails[tokenId];
         require(shipment.status == Status.Created, "Shipment not in a state for handover");
         require(shipment.currentRouteIndex < shipment.plannedRoute.length - 1, "End of route reached");
 
         shipment.pendingCustodian = shipment.plannedRoute[shipment.currentRouteIndex + 1];
-        shipment.status = Status.InTransit;
+        _setStatus(tokenId, Status.InTransit);
         emit HandoverInitiated(tokenId, ownerOf(tokenId), shipment.pendingCustodian);
     }
 
@@ -143,20 +320,29 @@ contract Shipment is ERC721, Ownable {
      * @notice The designated recipient requests verification from the Fraud Detection Agent.
      * @dev This signals the off-chain agent to begin its multi-factor checks.
      * @param tokenId The ID of the shipment being received.
-     * @param custodianProofHash The keccak256 hash of the plaintext secret from the physical scan.
+     * @param custodianProofHash The keccak256 hash of the current leg's plaintext secret from the physical scan.
      */
     function requestVerification(uint256 tokenId, bytes32 custodianProofHash) external {
-        Details storage shipment = shipmentDetails[tokenId];
-        require(msg.sender == shipment.pendingCustodian, "Not the designated recipient");
-        require(shipment.status == Status.InTransit, "Handover not initiated");
+        _requestVerification(tokenId, custodianProofHash, msg.sender);
+    }
 
-        shipment.status = Status.AwaitingVerification;
-        emit VerificationRequested(tokenId, msg.sender, abi.encode(custodianProofHash));
+    /**
+     * @notice Same as `requestVerification`, but reveals the leg secret itself so it is checked on-chain.
+     * @dev Reverts on a mismatch, so a wrong scan never reaches the Fraud Detection Agent. Revealing
+     * the secret is safe because each leg has its own commitment.
+     * @param tokenId The ID of the shipment being received.
+     * @param legSecret The plaintext secret of the current leg.
+     */
+    function requestVerificationWithSecret(uint256 tokenId, bytes32 legSecret) external {
+        bytes32 proofHash = keccak256(abi.encodePacked(legSecret));
+        _requestVerification(tokenId, proofHash, msg.sender);
+        require(proofHash == currentLegKeyHash(tokenId), "Leg secret does not match commitment");
     }
 
     /**
-     * @notice Finalizes a successful shipment and releases the escrowed payment to the shipper.
+     * @notice Finalizes a successful shipment and releases the remaining escrow to the shipper.
      * @dev Can only be called by the original shipper after the package has been delivered.
+     * Leg fees have already been released to the custodians by then.
      * @param tokenId The ID of the shipment to finalize.
      */
     function finalizeAndPay(uint256 tokenId) external {
@@ -166,34 +352,203 @@ contract Shipment is ERC721, Ownable {
 
         uint256 payment = shipment.paymentAmount;
         shipment.paymentAmount = 0; // Prevent re-entrancy
-        shipment.status = Status.Completed;
+        _setStatus(tokenId, Status.Completed);
 
-        payable(shipment.shipper).transfer(payment);
+        _payOut(shipment.paymentToken, shipment.shipper, payment);
         emit PaymentReleased(tokenId, shipment.shipper, payment);
     }
 
+    /**
+     * @notice Withdraws every leg fee released to the caller in one escrow asset.
+     * @param paymentToken The asset to withdraw: address(0) for native HBAR, otherwise the token address.
+     */
+    function claimFees(address paymentToken) external {
+        uint256 amount = claimableFees[msg.sender][paymentToken];
+        require(amount > 0, "No fees to claim");
+        claimableFees[msg.sender][paymentToken] = 0; // Prevent re-entrancy
+
+        _payOut(paymentToken, msg.sender, amount);
+        emit FeesClaimed(msg.sender, paymentToken, amount);
+    }
+
+
+    /**
+     * @notice Lets the shipper take back the remaining escrow once a deadline has been missed.
+     * @dev Ends the shipment as 'Completed'. Fees already released to custodians are not clawed back.
+     * @param tokenId The ID of the overdue shipment.
+     */
+    function claimTimeoutRefund(uint256 tokenId) external {
+        Details storage shipment = shipmentDetails[tokenId];
+        require(msg.sender == shipment.shipper, "Only the original shipper can claim a refund");
+        require(isOverdue(tokenId), "Shipment is not overdue");
+
+        uint256 refund = shipment.paymentAmount;
+        shipment.paymentAmount = 0; // Prevent re-entrancy
+        _setStatus(tokenId, Status.Completed);
+        shipment.pendingCustodian = address(0);
+
+        _payOut(shipment.paymentToken, shipment.shipper, refund);
+        emit TimeoutRefunded(tokenId, shipment.shipper, refund);
+    }
+
+    /**
+     * @notice Lets the recipient agree to the shipper cancelling a shipment that has already been picked up.
+     * @dev Only while the shipment is under way and can still be cancelled. The approval holds for the
+     * current status only: any status change withdraws it.
+     * @param tokenId The ID of the shipment.
+     */
+    function approveCancellation(uint256 tokenId) external {
+        Details storage shipment = shipmentDetails[tokenId];
+        require(msg.sender == shipment.recipient, "Only the recipient can approve cancellation");
+        require(
+            isAllowedTransition(shipment.status, Status.Cancelled) && (shipment.status != Status.Created || shipment.currentRouteIndex != 0),
+            "Shipment not in a state for cancellation approval"
+        );
+        _cancellationApprovedAt[tokenId] = _statusHistory[tokenId].length;
+        emit CancellationApproved(tokenId, msg.sender);
+    }
+
+    /**
+     * @notice Cancels a shipment, refunds the remaining escrow to the shipper and burns the shipment NFT.
+     * @dev Possible on the shipper's word alone until the first handover is initiated; after pickup the
+     * recipient must have called `approveCancellation`. Fees already released to custodians are not clawed back.
+     * The shipment record is kept, with status 'Cancelled'.
+     * @param tokenId The ID of the shipment to cancel.
+     */
+    function cancelShipment(uint256 tokenId) external {
+        Details storage shipment = shipmentDetails[tokenId];
+        require(msg.sender == shipment.shipper, "Only the original shipper can cancel");
+        require(
+            (shipment.status == Status.Created && shipment.currentRouteIndex == 0) || cancellationApproved(tokenId),
+            "Recipient has not approved cancellation"
+        );
+
+        uint256 refund = shipment.paymentAmount;
+        shipment.paymentAmount = 0; // Prevent re-entrancy
+        _setStatus(tokenId, Status.Cancelled);
+        shipment.pendingCustodian = address(0);
+        actionNonce[tokenId]++;
+        _burn(tokenId);
+
+        _payOut(shipment.paymentToken, shipment.shipper, refund);
+        emit ShipmentCancelled(tokenId, shipment.shipper, refund);
+    }
+
+    /**
+     * @notice Lets the shipper move an overdue shipment into 'Disputed' for arbitration instead of refunding.
+     * @param tokenId The ID of the overdue shipment.
+     */
+    function escalateTimeout(uint256 tokenId) external {
+        Details storage shipment = shipmentDetails[tokenId];
+        require(msg.sender == shipment.shipper, "Only the original shipper can escalate a timeout");
+        require(isOverdue(tokenId), "Shipment is not overdue");
+
+        _openDispute(tokenId, "Deadline missed", msg.sender);
+    }
+
+
+    /**
+     * @notice Lets the holder (or an approved operator) burn a completed shipment's NFT.
+     * @dev Only possible while `completedTokenPolicy` is Burnable. The shipment's record stays readable.
+     */
+    function burn(uint256 tokenId) external {
+        _update(address(0), tokenId, _msgSender());
+    }
+
+    function name() public view override returns (string memory) {
+        return _collectionName;
+    }
+
+    function symbol() public view override returns (string memory) {
+        return _collectionSymbol;
+    }
+
+    /**
+     * @dev Approvals are limited to operators configured by the collection owner. Clearing an approval is always allowed.
+     */
+    function approve(address to, uint256 tokenId) public override {
+        require(to == address(0) || isApprovedOperator[to], "Operator not approved by the collection");
+        super.approve(to, tokenId);
+    }
+
+    /**
+     * @dev See `approve`.
+     */
+    function setApprovalForAll(address operator, bool approved) public override {
+        require(!approved || isApprovedOperator[operator], "Operator not approved by the collection");
+        super.setApprovalForAll(operator, approved);
+    }
+
+    //==============================================================
+    // External Functions (Signed Requests)
+    //==============================================================
+
+    /**
+     * @notice `initiateHandover` on behalf of a custodian whose signed `InitiateHandover` request the factory has verified.
+     * @dev Lets a relayer pay the gas. The signer must own the shipment.
+     * @param tokenId The ID of the shipment to hand over.
+     * @param signer The custodian who signed the request.
+     */
+    function initiateHandoverFor(uint256 tokenId, address signer) external onlyFactory {
+        require(signer == ownerOf(tokenId), "Signer is not the owner of this shipment");
+        _initiateHandover(tokenId);
+    }
+
+    /**
+     * @notice `requestVerification` on behalf of the pending custodian, from a signed `RequestVerification` request.
+     * @param tokenId The ID of the shipment being received.
+     * @param custodianProofHash The keccak256 hash of the current leg's plaintext secret.
+     * @param signer The pending custodian who signed the request.
+     */
+    function requestVerificationFor(uint256 tokenId, bytes32 custodianProofHash, address signer) external onlyFactory {
+        _requestVerification(tokenId, custodianProofHash, signer);
+    }
+
+    /**
+     * @notice `requestReroute` on behalf of the shipment's owner, from a signed `RequestReroute` request.
+     * @param tokenId The ID of the shipment to reroute.
+     * @param reason The reason for the rerouting request.
+     * @param signer The custodian who signed the request.
+     */
+    function requestRerouteFor(uint256 tokenId, string calldata reason, address signer) external onlyFactory {
+        require(signer == ownerOf(tokenId), "Signer is not the owner of this shipment");
+        _requestReroute(tokenId, reason, signer);
+    }
+
 
     //==============================================================
     // External Functions (Agent Hooks & Dispute Management)
     //==============================================================
 
     /**
-     * @notice Called by a trusted Fraud Detection Agent to confirm successful verification.
-     * @dev Transfers NFT ownership to the new custodian and updates the shipment's state.
+     * @notice Called by trusted Fraud Detection Agents to confirm successful verification.
+     * @dev Takes effect once the FRAUD_DETECTION quorum has approved. Transfers NFT ownership to the new custodian, releases the leg's fee to them and updates the shipment's state.
      * @param tokenId The ID of the shipment being verified.
      * @param receivingCustodian The address of the custodian whose verification was successful.
      */
-    function confirmVerification(uint256 tokenId, address receivingCustodian) external onlyRegisteredAgent(OracleRegistry.AgentType.FRAUD_DETECTION) {
+    function confirmVerification(uint256 tokenId, address receivingCustodian) external onlyAgentQuorum(OracleRegistry.AgentType.FRAUD_DETECTION, tokenId) {
         Details storage shipment = shipmentDetails[tokenId];
         require(shipment.status == Status.AwaitingVerification, "Verification not requested");
         require(receivingCustodian == shipment.pendingCustodian, "Agent confirmed wrong custodian");
 
+        uint256 leg = shipment.currentRouteIndex;
+        uint256 fee = shipment.legFees[leg];
+        if (fee > 0 && _isLate(shipment)) {
+            // The withheld share stays in escrow and goes back to the shipper on completion.
+            fee -= (fee * shipment.latePenaltyBps) / BPS_DENOMINATOR;
+        }
+        if (fee > 0) {
+            shipment.paymentAmount -= fee;
+            claimableFees[receivingCustodian][shipment.paymentToken] += fee;
+            emit LegFeeReleased(tokenId, leg, receivingCustodian, fee);
+        }
+
         shipment.currentRouteIndex++;
         
         if (shipment.currentRouteIndex == shipment.plannedRoute.length - 1) {
-            shipment.status = Status.Delivered;
+            _setStatus(tokenId, Status.Delivered);
         } else {
-            shipment.status = Status.Created; // Reset for the next leg of the journey
+            _setStatus(tokenId, Status.Created); // Reset for the next leg of the journey
         }
         shipment.pendingCustodian = address(0);
 
@@ -202,40 +557,99 @@ contract Shipment is ERC721, Ownable {
     }
 
     /**
-     * @notice Called by a Fraud Detection Agent to flag a shipment due to failed verification.
-     * @dev Puts the shipment into a 'Disputed' state, freezing it.
+     * @notice Called by Fraud Detection Agents to flag a shipment due to failed verification.
+     * @dev Takes effect once the FRAUD_DETECTION quorum has approved. Puts the shipment into a 'Disputed' state, freezing it, and opens a dispute raised by the agent.
      * @param tokenId The ID of the shipment to flag.
      * @param reason A string explaining why the shipment was flagged.
      */
-    function flagShipment(uint256 tokenId, string calldata reason) external onlyRegisteredAgent(OracleRegistry.AgentType.FRAUD_DETECTION) {
-        shipmentDetails[tokenId].status = Status.Disputed;
+    function flagShipment(uint256 tokenId, string calldata reason) external onlyAgentQuorum(OracleRegistry.AgentType.FRAUD_DETECTION, tokenId) {
+        require(shipmentDetails[tokenId].status == Status.AwaitingVerification, "Verification not requested");
+        _openDispute(tokenId, reason, msg.sender);
         emit ShipmentFlagged(tokenId, reason);
     }
 
     /**
      * @notice The current owner of the shipment requests a reroute from the Routing Agent.
+     * @dev Allowed before a handover and while one is in transit; a handover in transit is called off,
+     * and the next one follows the accepted route.
      * @param tokenId The ID of the shipment to reroute.
      * @param reason The reason for the rerouting request (e.g., "Port closure").
      */
     function requestReroute(uint256 tokenId, string calldata reason) external onlyOwnerOf(tokenId) {
-        shipmentDetails[tokenId].status = Status.ReroutingRequested;
-        emit RerouteRequested(tokenId, msg.sender, reason);
+        _requestReroute(tokenId, reason, msg.sender);
     }
     
     /**
-     * @notice Called by a trusted Routing Agent to execute a new route for a shipment.
+     * @notice Withdraws a reroute request, as the custodian holding the shipment or as its shipper.
+     * @dev Returns the shipment to 'Created' on its current route and discards any pending proposal, so a
+     * shipment is not left waiting when no acceptable route is proposed.
+     * @param tokenId The ID of the shipment.
+     */
+    function withdrawRerouteRequest(uint256 tokenId) external {
+        Details storage shipment = shipmentDetails[tokenId];
+        require(shipment.status == Status.ReroutingRequested, "Reroute not requested");
+        require(msg.sender == ownerOf(tokenId) || msg.sender == shipment.shipper, "Only the custodian or shipper can withdraw");
+        _routeProposals[tokenId].expiresAt = 0;
+        // Retire approvals the routing agents cast towards a proposal for the withdrawn request
+        actionNonce[tokenId]++;
+        _setStatus(tokenId, Status.Created);
+        emit RerouteWithdrawn(tokenId, msg.sender);
+    }
+
+    /**
+     * @notice Called by trusted Routing Agents to propose a new route for a shipment.
+     * @dev Takes effect once the ROUTING quorum has approved. The shipper, and the recipient if the final
+     * destination changes, then have `routeAcceptanceWindow` to accept it with `acceptReroute`. A new
+     * proposal replaces any earlier one, together with its acceptances.
      * @param tokenId The ID of the shipment.
      * @param newRoute The new array of addresses for the updated route.
+     * @param newLegKeyHashes Secret commitments for the legs from the current custodian onwards.
+     * @param newLegFees Fees for the legs from the current custodian onwards; must fit in the remaining escrow.
+     * @param newLegDeadlines Deadlines for the legs from the current custodian onwards (0 = none).
      */
-    function executeReroute(uint256 tokenId, address[] calldata newRoute) external onlyRegisteredAgent(OracleRegistry.AgentType.ROUTING) {
+    function proposeReroute(
+        uint256 tokenId,
+        address[] calldata newRoute,
+        bytes32[] calldata newLegKeyHashes,
+        uint256[] calldata newLegFees,
+        uint256[] calldata newLegDeadlines
+    ) external onlyAgentQuorum(OracleRegistry.AgentType.ROUTING, tokenId) {
         Details storage shipment = shipmentDetails[tokenId];
         require(shipment.status == Status.ReroutingRequested, "Reroute not requested");
-        // Business logic: Ensure the new route is valid and starts from the current location.
-        require(newRoute.length > shipment.currentRouteIndex, "New route is shorter than current progress");
-        require(newRoute[shipment.currentRouteIndex] == ownerOf(tokenId), "New route must start from current custodian");
-        
-        shipment.plannedRoute = newRoute;
-        shipment.status = Status.Created;
+
+        // RouteLib checks that the new route starts from the current custodian and has legs left to travel
+        uint256 expiresAt = block.timestamp + routeAcceptanceWindow;
+        uint256 remainingFees = RouteLib.propose(
+            _routeProposals[tokenId], shipment.currentRouteIndex, ownerOf(tokenId), newRoute, newLegKeyHashes, newLegFees, newLegDeadlines,
+            shipment.recipient, expiresAt
+        );
+        require(remainingFees <= shipment.paymentAmount, "Leg fees exceed remaining escrow");
+        emit RouteProposed(tokenId, newRoute[newRoute.length - 1], expiresAt);
+    }
+
+    /**
+     * @notice Accepts the pending route proposal as the shipper, or as the recipient when it changes the final destination.
+     * @dev Once every required party has accepted, the new route replaces the remaining legs, is added to the
+     * route history and the shipment returns to 'Created'. The last stop of the new route becomes the recipient;
+     * the status change withdraws any cancellation approval the previous recipient gave.
+     * @param tokenId The ID of the shipment.
+     */
+    function acceptReroute(uint256 tokenId) external {
+        Details storage shipment = shipmentDetails[tokenId];
+        RouteLib.Proposal storage proposal = _routeProposals[tokenId];
+        require(shipment.status == Status.ReroutingRequested, "Reroute not requested");
+        bool adopted = RouteLib.accept(proposal, msg.sender, shipment.shipper, shipment.recipient);
+        emit RouteAccepted(tokenId, msg.sender);
+        if (!adopted) {
+            return;
+        }
+        shipment.recipient = proposal.route[proposal.route.length - 1];
+        // Keep the commitments, fees and deadlines of completed legs and replace the rest.
+        RouteLib.adopt(
+            proposal, shipment.plannedRoute, shipment.legKeyHashes, shipment.legFees, shipment.legDeadlines,
+            _routeHistory[tokenId], shipment.currentRouteIndex
+        );
+        _setStatus(tokenId, Status.Created);
         emit RouteUpdated(tokenId);
     }
 
@@ -247,30 +661,294 @@ contract Shipment is ERC721, Ownable {
     function disputeShipment(uint256 tokenId, string calldata reason) external {
         Details storage shipment = shipmentDetails[tokenId];
         require(msg.sender == shipment.shipper || msg.sender == shipment.recipient, "Only shipper or recipient can raise a dispute");
-        require(shipment.status != Status.Completed, "Cannot dispute a completed shipment");
 
-        shipment.status = Status.Disputed;
-        emit DisputeRaised(tokenId, msg.sender, reason);
+        _openDispute(tokenId, reason, msg.sender);
     }
 
     /**
-     * @notice Called by a trusted Arbitration Agent to resolve a dispute.
-     * @dev Releases the escrowed funds to either the shipper or recipient based on the verdict.
+     * @notice Opens a dispute for a condition breach the factory's ConditionMonitor has verified.
+     * @param tokenId The ID of the shipment whose conditions were breached.
+     * @param reason Which threshold the offending reading broke.
+     * @param raisedBy The ConditionMonitor, recorded as the dispute's raiser.
+     */
+    function disputeFor(uint256 tokenId, string calldata reason, address raisedBy) external onlyFactory {
+        _openDispute(tokenId, reason, raisedBy);
+    }
+
+    /**
+     * @notice Attaches evidence to the shipment's open dispute.
+     * @dev Open to the shipper, the recipient, the current holder and the pending custodian, until the arbitration deadline.
      * @param tokenId The ID of the disputed shipment.
-     * @param releaseToShipper A boolean indicating the winner. True for shipper, false for recipient.
+     * @param uri Where the evidence can be retrieved off-chain.
+     * @param contentHash Hash of the evidence content.
      */
-    function resolveDispute(uint256 tokenId, bool releaseToShipper) external onlyRegisteredAgent(OracleRegistry.AgentType.ARBITRATION) {
+    function submitEvidence(uint256 tokenId, string calldata uri, bytes32 contentHash) external {
         Details storage shipment = shipmentDetails[tokenId];
         require(shipment.status == Status.Disputed, "Shipment not in dispute");
+        require(
+            msg.sender == shipment.shipper ||
+                msg.sender == shipment.recipient ||
+                msg.sender == ownerOf(tokenId) ||
+                msg.sender == shipment.pendingCustodian,
+            "Only a party to the shipment can submit evidence"
+        );
+        uint256 disputeIndex = DisputeLib.addEvidence(_disputes[tokenId], msg.sender, uri, contentHash);
+        emit EvidenceSubmitted(tokenId, disputeIndex, msg.sender, uri, contentHash);
+    }
+
+    /**
+     * @notice Called by trusted Arbitration Agents to resolve a dispute before its arbitration deadline.
+     * @dev Takes effect once the ARBITRATION quorum has approved the same split. Splits the remaining escrow between the shipper, the recipient and the custodian holding
+     * the shipment when the dispute was raised.
+     * @param tokenId The ID of the disputed shipment.
+     * @param split The verdict, in basis points summing to 100%.
+     */
+    function resolveDispute(uint256 tokenId, DisputeLib.Split calldata split) external onlyAgentQuorum(OracleRegistry.AgentType.ARBITRATION, tokenId) {
+        require(shipmentDetails[tokenId].status == Status.Disputed, "Shipment not in dispute");
+        _settleDispute(tokenId, split, msg.sender);
+    }
+
+    /**
+     * @notice Applies the default split to a dispute the arbitrator did not rule on in time.
+     * @dev Callable by anyone once the arbitration deadline has passed. The split is the `defaultSplit`
+     * in effect when the dispute was raised, so later settings changes do not alter its outcome.
+     * @param tokenId The ID of the disputed shipment.
+     */
+    function settleExpiredDispute(uint256 tokenId) external {
+        require(shipmentDetails[tokenId].status == Status.Disputed, "Shipment not in dispute");
+        _settleDispute(tokenId, DisputeLib.Split(0, 0, 0), address(0)); // DisputeLib applies the stored split
+    }
+
+    //==============================================================
+    // View Functions
+    //==============================================================
+
+    /**
+     * @notice Returns the secret commitments for every leg of the shipment's route.
+     * @param tokenId The ID of the shipment.
+     */
+    function getLegKeyHashes(uint256 tokenId) external view returns (bytes32[] memory) {
+        return shipmentDetails[tokenId].legKeyHashes;
+    }
+
+    /**
+     * @notice Returns the fee schedule for every leg of the shipment's route.
+     * @param tokenId The ID of the shipment.
+     */
+    function getLegFees(uint256 tokenId) external view returns (uint256[] memory) {
+        return shipmentDetails[tokenId].legFees;
+    }
+
+    /**
+     * @notice Returns the verification deadline of every leg of the shipment's route (0 = none).
+     * @param tokenId The ID of the shipment.
+     */
+    function getLegDeadlines(uint256 tokenId) external view returns (uint256[] memory) {
+        return shipmentDetails[tokenId].legDeadlines;
+    }
+
+    /**
+     * @notice Returns true if the shipment is still underway and has missed its current leg's
+     * deadline or its delivery deadline.
+     * @param tokenId The ID of the shipment.
+     */
+    function isOverdue(uint256 tokenId) public view returns (bool) {
+        Details storage shipment = shipmentDetails[tokenId];
+        Status status = shipment.status;
+        if (status == Status.Delivered || status == Status.Completed || status == Status.Disputed || status == Status.Cancelled) {
+            return false;
+        }
+        return _isLate(shipment);
+    }
+
+    /**
+     * @notice Returns the sum of the fees for legs that have not been verified yet.
+     * @dev The remainder of `paymentAmount` above this goes to the shipper on completion.
+     * @param tokenId The ID of the shipment.
+     */
+    function unreleasedLegFees(uint256 tokenId) public view returns (uint256 total) {
+        Details storage shipment = shipmentDetails[tokenId];
+        // A dispute settlement or cancellation pays out the whole escrow, forfeiting the remaining legs' fees.
+        if (shipment.status == Status.Completed || shipment.status == Status.Cancelled) {
+            return 0;
+        }
+        for (uint256 i = shipment.currentRouteIndex; i < shipment.legFees.length; i++) {
+            total += shipment.legFees[i];
+        }
+    }
+
+    /**
+     * @notice Identifies a quorum action: the exact call, bound to this collection, the token and its current action nonce.
+     * @param tokenId The ID of the shipment the action applies to.
+     * @param data The ABI-encoded call, selector included.
+     */
+    function quorumActionHash(uint256 tokenId, bytes calldata data) public view returns (bytes32) {
+        return keccak256(abi.encode(address(this), tokenId, actionNonce[tokenId], data));
+    }
+
+    /**
+     * @notice Returns every route the shipment has followed, oldest first; the last entry is the current `plannedRoute`.
+     * @param tokenId The ID of the shipment.
+     */
+    function getRouteHistory(uint256 tokenId) external view returns (address[][] memory) {
+        return _routeHistory[tokenId];
+    }
 
+    /**
+     * @notice Returns the route proposal awaiting acceptance; `expiresAt` is 0 if there is none.
+     * @param tokenId The ID of the shipment.
+     */
+    function getRouteProposal(uint256 tokenId) external view returns (RouteLib.Proposal memory) {
+        return _routeProposals[tokenId];
+    }
+
+    /**
+     * @notice Returns the full record of every dispute raised for the shipment, oldest first.
+     * @param tokenId The ID of the shipment.
+     */
+    function getDisputes(uint256 tokenId) external view returns (DisputeLib.DisputeRecord[] memory) {
+        return _disputes[tokenId];
+    }
+
+    /**
+     * @notice Returns every status the shipment has been in and when it entered it, oldest first.
+     * @param tokenId The ID of the shipment.
+     */
+    function getStatusHistory(uint256 tokenId) external view returns (StatusChange[] memory) {
+        return _statusHistory[tokenId];
+    }
+
+    /**
+     * @notice Whether the recipient has agreed to cancel the shipment in its current status.
+     * @param tokenId The ID of the shipment.
+     */
+    function cancellationApproved(uint256 tokenId) public view returns (bool) {
+        return _cancellationApprovedAt[tokenId] == _statusHistory[tokenId].length;
+    }
+
+    /**
+     * @notice Returns true if the status machine allows moving a shipment from `from` to `to`.
+     * @dev Every status change goes through this table; see `ALLOWED_TRANSITIONS`.
+     */
+    function isAllowedTransition(Status from, Status to) public pure returns (bool) {
+        return (ALLOWED_TRANSITIONS >> (uint8(from) * 8 + uint8(to))) & 1 == 1;
+    }
+
+    /**
+     * @notice Returns the commitment that the next custodian's proof must match.
+     * @param tokenId The ID of the shipment.
+     */
+    function currentLegKeyHash(uint256 tokenId) public view returns (bytes32) {
+        Details storage shipment = shipmentDetails[tokenId];
+        require(shipment.currentRouteIndex < shipment.legKeyHashes.length, "End of route reached");
+        return shipment.legKeyHashes[shipment.currentRouteIndex];
+    }
+
+    //==============================================================
+    // Internal Functions
+    //==============================================================
+
+    function _isLate(Details storage shipment) internal view returns (bool) {
+        if (shipment.deliveryDeadline != 0 && block.timestamp > shipment.deliveryDeadline) {
+            return true;
+        }
+        uint256 leg = shipment.currentRouteIndex;
+        if (leg < shipment.legDeadlines.length) {
+            uint256 legDeadline = shipment.legDeadlines[leg];
+            return legDeadline != 0 && block.timestamp > legDeadline;
+        }
+        return false;
+    }
+
+    function _recordApproval(OracleRegistry.AgentType _type, uint256 tokenId) internal returns (bool) {
+        bytes32 actionHash = quorumActionHash(tokenId, msg.data);
+        if (!QuorumLib.record(hasApproved, _approvers, approvalCount, oracleRegistry, _type, tokenId, actionHash, msg.sender)) {
+            return false;
+        }
+        actionNonce[tokenId]++;
+        return true;
+    }
+
+    function _openDispute(uint256 tokenId, string memory reason, address raisedBy) internal {
+        Details storage shipment = shipmentDetails[tokenId];
+        require(shipment.status != Status.Completed, "Cannot dispute a completed shipment");
+        require(shipment.status != Status.Disputed, "Dispute already open");
+
+        _setStatus(tokenId, Status.Disputed);
+        actionNonce[tokenId]++;
+        DisputeLib.open(_disputes[tokenId], raisedBy, reason, ownerOf(tokenId), block.timestamp + arbitrationPeriod, defaultSplit);
+        emit DisputeRaised(tokenId, raisedBy, reason);
+    }
+
+    function _settleDispute(uint256 tokenId, DisputeLib.Split memory split, address resolvedBy) internal {
+        Details storage shipment = shipmentDetails[tokenId];
         uint256 payment = shipment.paymentAmount;
         shipment.paymentAmount = 0; // Prevent re-entrancy
-        shipment.status = Status.Completed;
+        (uint256 shipperAmount, uint256 recipientAmount, uint256 custodianAmount, address custodian) =
+            DisputeLib.settle(_disputes[tokenId], split, resolvedBy, payment);
+        _setStatus(tokenId, Status.Completed);
+        shipment.pendingCustodian = address(0);
 
-        address beneficiary = releaseToShipper ? shipment.shipper : shipment.recipient;
-        payable(beneficiary).transfer(payment);
+        if (shipperAmount > 0) _payOut(shipment.paymentToken, shipment.shipper, shipperAmount);
+        if (recipientAmount > 0) _payOut(shipment.paymentToken, shipment.recipient, recipientAmount);
+        if (custodianAmount > 0) _payOut(shipment.paymentToken, custodian, custodianAmount);
 
-        emit DisputeResolved(tokenId, beneficiary, payment);
+        emit DisputeResolved(tokenId, resolvedBy, shipperAmount, recipientAmount, custodianAmount);
+    }
+
+    /// @dev The only place a shipment's status is written after minting.
+    function _setStatus(uint256 tokenId, Status to) internal {
+        Details storage shipment = shipmentDetails[tokenId];
+        Status from = shipment.status;
+        require(isAllowedTransition(from, to), "Invalid status transition");
+
+        shipment.status = to;
+        _statusHistory[tokenId].push(StatusChange({ status: to, changedAt: block.timestamp }));
+        emit StatusChanged(tokenId, from, to);
+    }
+
+    /// @dev Sends escrow in the shipment's asset; native HBAR keeps the 2300-gas `transfer` stipend.
+    function _payOut(address paymentToken, address to, uint256 amount) internal {
+        if (paymentToken == address(0)) {
+            payable(to).transfer(amount);
+        } else {
+            IERC20(paymentToken).safeTransfer(to, amount);
+        }
+    }
+
+    function _requestVerification(uint256 tokenId, bytes32 custodianProofHash, address custodian) internal {
+        Details storage shipment = shipmentDetails[tokenId];
+        require(custodian == shipment.pendingCustodian, "Not the designated recipient");
+        require(shipment.status == Status.InTransit, "Handover not initiated");
+
+        _setStatus(tokenId, Status.AwaitingVerification);
+        actionNonce[tokenId]++;
+        emit VerificationRequested(tokenId, custodian, abi.encode(custodianProofHash));
+    }
+
+    function _requestReroute(uint256 tokenId, string calldata reason, address requestor) internal {
+        Details storage shipment = shipmentDetails[tokenId];
+        require(shipment.status == Status.Created || shipment.status == Status.InTransit, "Shipment not in a state for reroute");
+        shipment.pendingCustodian = address(0);
+        _setStatus(tokenId, Status.ReroutingRequested);
+        emit RerouteRequested(tokenId, requestor, reason);
+    }
+
+    /**
+     * @dev Every transfer and burn passes through here. Workflow moves (minting and the verified
+     * transfer in `confirmVerification`) carry no `auth`; anything initiated through the ERC-721
+     * interface does, and is only allowed once the shipment is Completed and the policy permits it.
+     */
+    function _update(address to, uint256 tokenId, address auth) internal override returns (address) {
+        if (auth != address(0) && _ownerOf(tokenId) != address(0)) {
+            require(shipmentDetails[tokenId].status == Status.Completed, "Custody can only change through verification");
+            if (to == address(0)) {
+                require(completedTokenPolicy == CompletedTokenPolicy.Burnable, "Completed shipments cannot be burned");
+            } else {
+                require(completedTokenPolicy == CompletedTokenPolicy.Transferable, "Completed shipments are not transferable");
+            }
+        }
+        return super._update(to, tokenId, auth);
     }
 
     //==============================================================
@@ -287,4 +965,63 @@ contract Shipment is ERC721, Ownable {
         require(_factoryAddress != address(0), "Factory address cannot be zero");
         factoryAddress = _factoryAddress;
     }
-}
\ No newline at end of file
+
+    /**
+     * @notice Called by the owner to configure how long arbitrators have to rule and what happens if they do not.
+     * @dev Applies to disputes raised after the call; open disputes keep the deadline and default split they were given.
+     * @param _arbitrationPeriod Seconds from a dispute being raised to its arbitration deadline.
+     * @param _defaultSplit The split applied by `settleExpiredDispute`.
+     */
+    function setArbitrationSettings(uint256 _arbitrationPeriod, DisputeLib.Split calldata _defaultSplit) external onlyOwner {
+        require(_arbitrationPeriod > 0, "Arbitration period cannot be zero");
+        require(DisputeLib.isValidSplit(_defaultSplit), "Split must total 100%");
+        arbitrationPeriod = _arbitrationPeriod;
+        defaultSplit = _defaultSplit;
+        emit ArbitrationSettingsUpdated(_arbitrationPeriod, _defaultSplit.shipperBps, _defaultSplit.recipientBps, _defaultSplit.custodianBps);
+    }
+
+    /**
+     * @notice Called by the owner to set how long route proposals stay open for acceptance.
+     * @dev Applies to proposals made after the call.
+     * @param _routeAcceptanceWindow Seconds from a proposal to its expiry.
+     */
+    function setRouteAcceptanceWindow(uint256 _routeAcceptanceWindow) external onlyOwner {
+        require(_routeAcceptanceWindow > 0, "Acceptance window cannot be zero");
+        routeAcceptanceWindow = _routeAcceptanceWindow;
+        emit RouteAcceptanceWindowUpdated(_routeAcceptanceWindow);
+    }
+
+    /**
+     * @notice Called by the owner to add or remove an ERC-20 token from the escrow allow-list.
+     * @dev Removing a token only blocks new shipments; existing escrows in it still settle normally.
+     * @param _paymentToken The token contract (or HTS token EVM address).
+     * @param _allowed Whether new shipments may be escrowed in this token.
+     */
+    function setPaymentTokenAllowed(address _paymentToken, bool _allowed) external onlyOwner {
+        require(_paymentToken != address(0), "Payment token address cannot be zero");
+        isPaymentTokenAllowed[_paymentToken] = _allowed;
+        emit PaymentTokenAllowed(_paymentToken, _allowed);
+    }
+
+    /**
+     * @notice Called by the owner to choose whether completed shipment NFTs stay locked, become freely transferable or can be burned.
+     * @dev Applies immediately to every completed shipment in the collection.
+     * @param _policy The new policy.
+     */
+    function setCompletedTokenPolicy(CompletedTokenPolicy _policy) external onlyOwner {
+        completedTokenPolicy = _policy;
+        emit CompletedTokenPolicyUpdated(_policy);
+    }
+
+    /**
+     * @notice Called by the owner to allow or disallow an operator that holders may approve.
+     * @dev Disallowing an operator blocks new approvals; existing ones remain until cleared by the holder.
+     * @param _operator The operator address.
+     * @param _allowed Whether holders may approve it.
+     */
+    function setApprovedOperator(address _operator, bool _allowed) external onlyOwner {
+        require(_operator != address(0), "Operator address cannot be zero");
+        isApprovedOperator[_operator] = _allowed;
+        emit ApprovedOperatorUpdated(_operator, _allowed);
+    }
+}
@@ -2,15 +2,25 @@
 pragma solidity ^0.8.20;
 
 import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "@openzeppelin/contracts/proxy/Clones.sol";
+import "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
+import "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import "@openzeppelin/contracts/utils/Nonces.sol";
 import "./Shipment.sol";
+import "./ConditionMonitor.sol";
 
 /**
  * @title ShipmentFactory (Universal Registry Model)
  * @author Rafat Hussain
  * @notice A single, universal factory to create Shipment NFTs across multiple, registered
  * Shipment collection contracts. This provides maximum flexibility and gas efficiency.
+ * New collections can be deployed as EIP-1167 clones of a shared Shipment implementation.
+ * The factory also verifies custodians' EIP-712 signed requests for every collection it mints in.
  */
-contract ShipmentFactory is Ownable {
+contract ShipmentFactory is Ownable, EIP712, Nonces {
+    using SafeERC20 for IERC20;
 
     //==============================================================
     // State Variables
@@ -22,6 +32,24 @@ contract ShipmentFactory is Ownable {
     /// @notice Mapping from a Shipment contract address to a counter for its specific token IDs.
     mapping(address => uint256) public shipmentNonce;
 
+    /// @notice The Shipment contract `createCollection` clones.
+    address public shipmentImplementation;
+
+    /// @notice The ConditionMonitor allowed to open disputes for condition breaches it has verified.
+    address public conditionMonitor;
+
+    /// @dev Every collection ever registered, in registration order; deregistered ones stay listed.
+    address[] private _collections;
+    mapping(address => bool) private _isListed;
+
+    // EIP-712 types for custodian actions submitted by a relayer
+    bytes32 private constant INITIATE_HANDOVER_TYPEHASH =
+        keccak256("InitiateHandover(address collection,uint256 tokenId,uint256 nonce,uint256 deadline)");
+    bytes32 private constant REQUEST_VERIFICATION_TYPEHASH =
+        keccak256("RequestVerification(address collection,uint256 tokenId,bytes32 custodianProofHash,uint256 nonce,uint256 deadline)");
+    bytes32 private constant REQUEST_REROUTE_TYPEHASH =
+        keccak256("RequestReroute(address collection,uint256 tokenId,string reason,uint256 nonce,uint256 deadline)");
+
     //==============================================================
     // Events
     //==============================================================
@@ -29,11 +57,14 @@ contract ShipmentFactory is Ownable {
     event ShipmentCollectionRegistered(address indexed collectionAddress);
     event ShipmentCollectionDeregistered(address indexed collectionAddress);
     event ShipmentCreated(address indexed collectionAddress, uint256 indexed tokenId, address indexed shipper);
+    event ShipmentImplementationUpdated(address indexed implementation);
+    event ShipmentCollectionCreated(address indexed collectionAddress, address indexed implementation, string name, string symbol);
+    event ConditionMonitorUpdated(address indexed monitor);
 
     /**
      * @notice Initializes the contract, setting the deployer as the initial owner.
      */
-    constructor() Ownable(msg.sender) { 
+    constructor() Ownable(msg.sender) EIP712("HashRoute Shipment", "1") { 
         // The deployer is the initial owner, who can then register Shipment contracts
         // No additional setup needed at deployment
     }
@@ -49,9 +80,7 @@ contract ShipmentFactory is Ownable {
      */
     function registerShipmentContract(address _collectionAddress) public onlyOwner {
         require(_collectionAddress != address(0), "Factory: Address cannot be zero");
-        require(!isShipmentContractRegistered[_collectionAddress], "Factory: Contract already registered");
-        isShipmentContractRegistered[_collectionAddress] = true;
-        emit ShipmentCollectionRegistered(_collectionAddress);
+        _register(_collectionAddress);
     }
 
     /**
@@ -65,6 +94,65 @@ contract ShipmentFactory is Ownable {
         emit ShipmentCollectionDeregistered(_collectionAddress);
     }
 
+    /**
+     * @notice Sets the Shipment contract that new collections are cloned from.
+     * @dev Collections cloned earlier keep running the implementation they were created with.
+     * @param _implementation A deployed Shipment contract.
+     */
+    function setShipmentImplementation(address _implementation) public onlyOwner {
+        require(_implementation.code.length > 0, "Factory: Implementation is not a contract");
+        shipmentImplementation = _implementation;
+        emit ShipmentImplementationUpdated(_implementation);
+    }
+
+    /**
+     * @notice Sets the ConditionMonitor whose verified condition breaches put shipments into dispute.
+     * @param _monitor A deployed ConditionMonitor bound to this factory.
+     */
+    function setConditionMonitor(address _monitor) public onlyOwner {
+        require(_monitor.code.length > 0, "Factory: Monitor is not a contract");
+        conditionMonitor = _monitor;
+        emit ConditionMonitorUpdated(_monitor);
+    }
+
+    /**
+     * @notice Deploys a new Shipment collection as a clone of `shipmentImplementation` and registers it.
+     * @dev The caller becomes the collection's owner, and this factory the only account allowed to mint in it.
+     * @param _name The collection's ERC-721 name.
+     * @param _symbol The collection's ERC-721 symbol.
+     * @param _oracleRegistry The OracleRegistry the collection reads its agents from.
+     * @return collection The address of the new collection.
+     */
+    function createCollection(string calldata _name, string calldata _symbol, address _oracleRegistry)
+        public
+        onlyOwner
+        returns (address collection)
+    {
+        require(shipmentImplementation != address(0), "Factory: Shipment implementation not set");
+        collection = Clones.clone(shipmentImplementation);
+        Shipment(collection).initialize(_name, _symbol, _oracleRegistry, msg.sender, address(this));
+        emit ShipmentCollectionCreated(collection, shipmentImplementation, _name, _symbol);
+        _register(collection);
+    }
+
+    /**
+     * @notice Every collection ever registered with this factory, including deregistered ones.
+     * @dev Use `isShipmentContractRegistered` to tell which still accept new shipments.
+     */
+    function listCollections() external view returns (address[] memory) {
+        return _collections;
+    }
+
+    function _register(address _collectionAddress) internal {
+        require(!isShipmentContractRegistered[_collectionAddress], "Factory: Contract already registered");
+        isShipmentContractRegistered[_collectionAddress] = true;
+        if (!_isListed[_collectionAddress]) {
+            _isListed[_collectionAddress] = true;
+            _collections.push(_collectionAddress);
+        }
+        emit ShipmentCollectionRegistered(_collectionAddress);
+    }
+
 
     //==============================================================
     // Core Functionality
@@ -76,39 +164,80 @@ contract ShipmentFactory is Ownable {
      * @param _recipient The final recipient's address.
      * @param _cargoDetails A description of the shipment's contents.
      * @param _plannedRoute The multi-node journey of the shipment.
-     * @param _paymentAmount The amount of HBAR to be held in escrow.
-     * @param _keyHash Optional secret hash for future verification (not used in this version). 
+     * @param _paymentToken The escrow asset: address(0) for native HBAR, otherwise a token the collection allows.
+     * The shipper must have approved this factory for `_paymentAmount` of the token.
+     * @param _paymentAmount The amount of HBAR or tokens to be held in escrow.
+     * @param _legKeyHashes keccak256 commitments of the per-leg secrets, one per route leg.
+     * @param _legFees Carrier fee for each route leg, paid from the escrow as legs are verified.
+     * @param _legDeadlines Timestamp by which each leg must be verified (0 = no deadline).
+     * @param _deliveryDeadline Timestamp by which the shipment must be delivered (0 = no deadline).
+     * @param _latePenaltyBps Share of a late leg's fee, in basis points, withheld for the shipper.
      * @return tokenId The ID of the newly created Shipment NFT within its collection.
      */
     function createShipment(
         address _collectionAddress, // <-- NEW PARAMETER
         address _recipient,
-        string calldata _cargoDetails,
+        string memory _cargoDetails, // memory rather than calldata keeps this function within the stack limit
         address[] calldata _plannedRoute,
+        address _paymentToken,
         uint256 _paymentAmount,
-        bytes32 _keyHash
+        bytes32[] calldata _legKeyHashes,
+        uint256[] calldata _legFees,
+        uint256[] calldata _legDeadlines,
+        uint256 _deliveryDeadline,
+        uint256 _latePenaltyBps
     ) public payable returns (uint256) {
         // --- Input Validations ---
         require(isShipmentContractRegistered[_collectionAddress], "Factory: Target contract is not registered");
         require(_paymentAmount > 0, "Factory: Payment amount must be greater than zero");
-        require(msg.value == _paymentAmount, "Factory: HBAR sent does not match payment amount for escrow");
+        if (_paymentToken == address(0)) {
+            require(msg.value == _paymentAmount, "Factory: HBAR sent does not match payment amount for escrow");
+        } else {
+            require(msg.value == 0, "Factory: HBAR sent with a token escrow");
+            require(Shipment(_collectionAddress).isPaymentTokenAllowed(_paymentToken), "Factory: Payment token not accepted by collection");
+        }
         require(_plannedRoute[0] == msg.sender, "Factory: Route must start with the shipper");
         require(_plannedRoute[_plannedRoute.length - 1] == _recipient, "Factory: Route must end with the recipient");
-        require(_keyHash != bytes32(0), "Factory: Secret hash cannot be empty");
+        require(_legKeyHashes.length == _plannedRoute.length - 1, "Factory: One key hash per route leg required");
+        require(_legFees.length == _legKeyHashes.length, "Factory: One fee per route leg required");
+        uint256 totalFees;
+        for (uint256 i = 0; i < _legKeyHashes.length; i++) {
+            require(_legKeyHashes[i] != bytes32(0), "Factory: Secret hash cannot be empty");
+            totalFees += _legFees[i];
+        }
+        require(totalFees <= _paymentAmount, "Factory: Leg fees exceed payment amount");
+        require(_legDeadlines.length == _legKeyHashes.length, "Factory: One deadline per route leg required");
+        require(_deliveryDeadline == 0 || _deliveryDeadline > block.timestamp, "Factory: Delivery deadline must be in the future");
+        require(_latePenaltyBps <= 10_000, "Factory: Late penalty cannot exceed 100%");
 
         // --- Interaction with Target Shipment Contract ---
         Shipment shipmentContract = Shipment(_collectionAddress);
 
         // Use a collection-specific nonce to generate unique token IDs for that collection
         uint256 newTokenId = shipmentNonce[_collectionAddress]++;
+
+        // Token escrows are pulled from the shipper straight into the collection
+        if (_paymentToken != address(0)) {
+            IERC20 token = IERC20(_paymentToken);
+            uint256 balanceBefore = token.balanceOf(_collectionAddress);
+            token.safeTransferFrom(msg.sender, _collectionAddress, _paymentAmount);
+            // Fee-on-transfer tokens would leave the escrow short of what the shipment records
+            require(token.balanceOf(_collectionAddress) - balanceBefore == _paymentAmount, "Factory: Token transfer amount mismatch");
+        }
         
-        shipmentContract.mintAndInitialize{value: _paymentAmount}(
+        shipmentContract.mintAndInitialize{value: msg.value}(
             newTokenId,
             msg.sender,
             _recipient,
             _cargoDetails,
             _plannedRoute,
-            _keyHash
+            _paymentToken,
+            _paymentAmount,
+            _legKeyHashes,
+            _legFees,
+            _legDeadlines,
+            _deliveryDeadline,
+            _latePenaltyBps
         );
 
         // --- Emit Event and Return ---
@@ -116,4 +245,132 @@ contract ShipmentFactory is Ownable {
         
         return newTokenId;
     }
-}
\ No newline at end of file
+
+    /**
+     * @notice Creates a shipment like `createShipment` and declares its condition thresholds and
+     * device keys with the ConditionMonitor in the same transaction.
+     * @dev Reverts as a whole if the monitor rejects the thresholds or devices, so a monitored
+     * shipment never exists unmonitored. Parameters not listed are those of `createShipment`.
+     * @param _thresholds The ranges the shipment's readings must stay within.
+     * @param _devices The addresses of the device keys that sign its readings.
+     * @return tokenId The ID of the newly created Shipment NFT within its collection.
+     */
+    function createMonitoredShipment(
+        address _collectionAddress,
+        address _recipient,
+        string memory _cargoDetails,
+        address[] calldata _plannedRoute,
+        address _paymentToken,
+        uint256 _paymentAmount,
+        bytes32[] calldata _legKeyHashes,
+        uint256[] calldata _legFees,
+        uint256[] calldata _legDeadlines,
+        uint256 _deliveryDeadline,
+        uint256 _latePenaltyBps,
+        ConditionMonitor.Thresholds calldata _thresholds,
+        address[] calldata _devices
+    ) external payable returns (uint256 tokenId) {
+        require(conditionMonitor != address(0), "Factory: Condition monitor not set");
+        tokenId = createShipment(
+            _collectionAddress,
+            _recipient,
+            _cargoDetails,
+            _plannedRoute,
+            _paymentToken,
+            _paymentAmount,
+            _legKeyHashes,
+            _legFees,
+            _legDeadlines,
+            _deliveryDeadline,
+            _latePenaltyBps
+        );
+        ConditionMonitor(conditionMonitor).configureFor(Shipment(_collectionAddress), tokenId, msg.sender, _thresholds, _devices);
+    }
+
+    //==============================================================
+    // Signed Requests
+    //==============================================================
+
+    /**
+     * @notice Runs `initiateHandover` for a custodian who signed an EIP-712 `InitiateHandover` request.
+     * @dev Lets a relayer pay the gas. The signer must own the shipment. Works for deregistered
+     * collections too, since their existing shipments keep moving.
+     * @param _collectionAddress The collection the shipment belongs to.
+     * @param tokenId The ID of the shipment to hand over.
+     * @param signer The custodian who signed the request.
+     * @param deadline Timestamp after which the signature is no longer accepted.
+     * @param signature The signer's EIP-712 signature over the request and their current nonce.
+     */
+    function initiateHandoverBySig(address _collectionAddress, uint256 tokenId, address signer, uint256 deadline, bytes calldata signature) external {
+        _checkSignature(signer, INITIATE_HANDOVER_TYPEHASH, abi.encode(_collectionAddress, tokenId), deadline, signature);
+        Shipment(_collectionAddress).initiateHandoverFor(tokenId, signer);
+    }
+
+    /**
+     * @notice Runs `requestVerification` for the pending custodian, from a signed `RequestVerification` request.
+     * @param _collectionAddress The collection the shipment belongs to.
+     * @param tokenId The ID of the shipment being received.
+     * @param custodianProofHash The keccak256 hash of the current leg's plaintext secret.
+     * @param signer The pending custodian who signed the request.
+     * @param deadline Timestamp after which the signature is no longer accepted.
+     * @param signature The signer's EIP-712 signature.
+     */
+    function requestVerificationBySig(
+        address _collectionAddress,
+        uint256 tokenId,
+        bytes32 custodianProofHash,
+        address signer,
+        uint256 deadline,
+        bytes calldata signature
+    ) external {
+        _checkSignature(signer, REQUEST_VERIFICATION_TYPEHASH, abi.encode(_collectionAddress, tokenId, custodianProofHash), deadline, signature);
+        Shipment(_collectionAddress).requestVerificationFor(tokenId, custodianProofHash, signer);
+    }
+
+    /**
+     * @notice Runs `requestReroute` for the shipment's owner, from a signed `RequestReroute` request.
+     * @param _collectionAddress The collection the shipment belongs to.
+     * @param tokenId The ID of the shipment to reroute.
+     * @param reason The reason for the rerouting request.
+     * @param signer The custodian who signed the request.
+     * @param deadline Timestamp after which the signature is no longer accepted.
+     * @param signature The signer's EIP-712 signature.
+     */
+    function requestRerouteBySig(
+        address _collectionAddress,
+        uint256 tokenId,
+        string calldata reason,
+        address signer,
+        uint256 deadline,
+        bytes calldata signature
+    ) external {
+        _checkSignature(signer, REQUEST_REROUTE_TYPEHASH, abi.encode(_collectionAddress, tokenId, keccak256(bytes(reason))), deadline, signature);
+        Shipment(_collectionAddress).requestRerouteFor(tokenId, reason, signer);
+    }
+
+    /**
+     * @dev Checks an EIP-712 signed request and consumes the signer's nonce. The signer, not the
+     * relayer sending the transaction, is the actor the collection's access checks apply to.
+     */
+    function _checkSignature(address signer, bytes32 typeHash, bytes memory payload, uint256 deadline, bytes calldata signature) internal {
+        require(block.timestamp <= deadline, "Signature expired");
+        bytes32 digest = _hashTypedDataV4(keccak256(abi.encodePacked(typeHash, payload, _useNonce(signer), deadline)));
+        (address recovered, ECDSA.RecoverError error, ) = ECDSA.tryRecover(digest, signature);
+        require(error == ECDSA.RecoverError.NoError && recovered == signer, "Invalid signature");
+    }
+
+    //==============================================================
+    // Condition Monitoring
+    //==============================================================
+
+    /**
+     * @notice Opens a dispute on behalf of the ConditionMonitor after it verified an out-of-range reading.
+     * @param _collectionAddress The Shipment collection the shipment belongs to.
+     * @param tokenId The ID of the shipment whose conditions were breached.
+     * @param reason Which threshold the offending reading broke.
+     */
+    function disputeForCondition(address _collectionAddress, uint256 tokenId, string calldata reason) external {
+        require(msg.sender == conditionMonitor, "Factory: Caller is not the condition monitor");
+        Shipment(_collectionAddress).disputeFor(tokenId, reason, msg.sender);
+    }
+}
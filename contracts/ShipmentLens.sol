@@ -0,0 +1,195 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "./Shipment.sol";
+import "./ShipmentFactory.sol";
+
+/**
+ * @title ShipmentLens
+ * @notice Read-only views over Shipment collections for dashboards: current routes, custodians,
+ * compact shipment summaries and the shipments an address ships, receives or holds.
+ * @dev Stateless; one lens serves every collection, which each function takes as a parameter. It only
+ * reads the collection's public getters, so `Shipment` pays no bytecode or storage for these views.
+ * Per-address lists are built by scanning token IDs a page at a time, which keeps every call's gas bounded.
+ */
+contract ShipmentLens {
+    //==============================================================
+    // Types
+    //==============================================================
+
+    /// @notice The relationships `shipmentsOf` lists shipments by. The custodian is the current NFT holder.
+    enum Party { Shipper, Recipient, Custodian }
+
+    /// @notice A compact view of one shipment, as returned by `getSummary`.
+    struct Summary {
+        Shipment.Status status;
+        address shipper;
+        address recipient;
+        // Holder of the shipment NFT; address(0) once it has been burned (e.g. on cancellation)
+        address custodian;
+        // See `getCustodians`
+        address nextCustodian;
+        uint256 currentRouteIndex;
+        uint256 routeLength;
+        address paymentToken;
+        uint256 paymentAmount;
+        uint256 deliveryDeadline;
+        bool overdue;
+    }
+
+    //==============================================================
+    // View Functions
+    //==============================================================
+
+    /**
+     * @notice Returns how many shipments have been created in `collection`, i.e. one past the highest token ID.
+     * @dev Token IDs are assigned sequentially by the collection's current factory.
+     * @param collection The Shipment collection to read.
+     */
+    function shipmentCount(Shipment collection) public view returns (uint256) {
+        address factory = collection.factoryAddress();
+        if (factory == address(0)) {
+            return 0;
+        }
+        return ShipmentFactory(factory).shipmentNonce(address(collection));
+    }
+
+    /**
+     * @notice Returns the route a shipment currently follows, from the shipper to the final destination.
+     * @dev The `shipmentDetails` getter leaves out `plannedRoute`; this is the latest entry of `getRouteHistory`.
+     * @param collection The Shipment collection to read.
+     * @param tokenId The ID of the shipment.
+     */
+    function getRoute(Shipment collection, uint256 tokenId) public view returns (address[] memory) {
+        address[][] memory history = collection.getRouteHistory(tokenId);
+        require(history.length > 0, "Lens: Shipment does not exist");
+        return history[history.length - 1];
+    }
+
+    /**
+     * @notice Returns who holds a shipment now and who is due to receive it next.
+     * @param collection The Shipment collection to read.
+     * @param tokenId The ID of the shipment.
+     * @return current The holder of the shipment NFT, or address(0) once it has been burned.
+     * @return next The pending custodian while a handover is under way, otherwise the next stop on the
+     * route; address(0) once the shipment is delivered, completed or cancelled.
+     */
+    function getCustodians(Shipment collection, uint256 tokenId) public view returns (address current, address next) {
+        Summary memory summary = getSummary(collection, tokenId);
+        return (summary.custodian, summary.nextCustodian);
+    }
+
+    /**
+     * @notice Returns a compact summary of one shipment.
+     * @param collection The Shipment collection to read.
+     * @param tokenId The ID of the shipment.
+     */
+    function getSummary(Shipment collection, uint256 tokenId) public view returns (Summary memory summary) {
+        address pendingCustodian;
+        (
+            summary.shipper,
+            summary.recipient,
+            summary.status,
+            ,
+            summary.paymentToken,
+            summary.paymentAmount,
+            summary.currentRouteIndex,
+            pendingCustodian,
+            summary.deliveryDeadline,
+
+        ) = collection.shipmentDetails(tokenId);
+
+        address[] memory route = getRoute(collection, tokenId);
+        summary.routeLength = route.length;
+        summary.custodian = _custodianOf(collection, tokenId);
+        summary.overdue = collection.isOverdue(tokenId);
+
+        if (
+            summary.status != Shipment.Status.Delivered &&
+            summary.status != Shipment.Status.Completed &&
+            summary.status != Shipment.Status.Cancelled
+        ) {
+            if (pendingCustodian != address(0)) {
+                summary.nextCustodian = pendingCustodian;
+            } else if (summary.currentRouteIndex + 1 < route.length) {
+                summary.nextCustodian = route[summary.currentRouteIndex + 1];
+            }
+        }
+    }
+
+    /**
+     * @notice Returns the summaries of several shipments in one call, e.g. a page from `shipmentsOf`.
+     * @param collection The Shipment collection to read.
+     * @param tokenIds The IDs of the shipments.
+     */
+    function getSummaries(Shipment collection, uint256[] calldata tokenIds) external view returns (Summary[] memory summaries) {
+        summaries = new Summary[](tokenIds.length);
+        for (uint256 i = 0; i < tokenIds.length; i++) {
+            summaries[i] = getSummary(collection, tokenIds[i]);
+        }
+    }
+
+    /**
+     * @notice Lists the shipments `account` ships, receives or currently holds, scanning up to `limit`
+     * token IDs starting at `cursor`.
+     * @dev Start with a cursor of 0 and pass each returned `nextCursor` back in; the scan is complete once
+     * `nextCursor` reaches `shipmentCount`. Pages are ranges of token IDs, not of matches: a page may hold
+     * fewer than `limit` matches, or none at all while `nextCursor` is still below `shipmentCount`. Pass
+     * `type(uint256).max` as `limit` to scan the rest of the collection in one call.
+     * @param collection The Shipment collection to read.
+     * @param party Which relationship to list by.
+     * @param account The shipper, recipient or custodian.
+     * @param cursor The first token ID to scan.
+     * @param limit The maximum number of token IDs to scan.
+     * @return tokenIds The matching token IDs in the scanned range, in ascending order.
+     * @return nextCursor The token ID to continue the scan from.
+     */
+    function shipmentsOf(
+        Shipment collection,
+        Party party,
+        address account,
+        uint256 cursor,
+        uint256 limit
+    ) external view returns (uint256[] memory tokenIds, uint256 nextCursor) {
+        uint256 count = shipmentCount(collection);
+        if (cursor > count) {
+            cursor = count;
+        }
+        // Written so that a `limit` of `type(uint256).max` cannot overflow
+        nextCursor = limit > count - cursor ? count : cursor + limit;
+
+        uint256[] memory matches = new uint256[](nextCursor - cursor);
+        uint256 found;
+        for (uint256 tokenId = cursor; tokenId < nextCursor; tokenId++) {
+            if (_partyOf(collection, party, tokenId) == account) {
+                matches[found++] = tokenId;
+            }
+        }
+
+        tokenIds = new uint256[](found);
+        for (uint256 i = 0; i < found; i++) {
+            tokenIds[i] = matches[i];
+        }
+    }
+
+    //==============================================================
+    // Internal Functions
+    //==============================================================
+
+    function _partyOf(Shipment collection, Party party, uint256 tokenId) internal view returns (address) {
+        if (party == Party.Custodian) {
+            return _custodianOf(collection, tokenId);
+        }
+        (address shipper, address recipient, , , , , , , , ) = collection.shipmentDetails(tokenId);
+        return party == Party.Shipper ? shipper : recipient;
+    }
+
+    /// @dev `ownerOf` reverts for burned tokens; report those as having no custodian.
+    function _custodianOf(Shipment collection, uint256 tokenId) internal view returns (address) {
+        try collection.ownerOf(tokenId) returns (address owner) {
+            return owner;
+        } catch {
+            return address(0);
+        }
+    }
+}
@@ -0,0 +1,131 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+/**
+ * @title DisputeLib
+ * @notice Dispute records, evidence and settlement arithmetic for `Shipment`.
+ * @dev Deployed once and linked into `Shipment`, like `RouteLib`. Status changes, payouts and events
+ * stay in the collection; this library only keeps the dispute records.
+ */
+library DisputeLib {
+    uint256 internal constant BPS_DENOMINATOR = 10_000;
+
+    /// @notice How a dispute settlement divides the remaining escrow, in basis points summing to 100%.
+    struct Split {
+        uint256 shipperBps;
+        uint256 recipientBps;
+        uint256 custodianBps;
+    }
+
+    struct Evidence {
+        address submittedBy;
+        uint256 submittedAt;
+        // Off-chain location of the evidence (e.g. an IPFS or HFS URI); may be empty if only the hash is published
+        string uri;
+        // Hash of the evidence content, so the off-chain copy can be checked against the record
+        bytes32 contentHash;
+    }
+
+    struct DisputeRecord {
+        address raisedBy;
+        uint256 raisedAt;
+        string reason;
+        // Holder of the shipment NFT when the dispute was raised; receives the custodian share
+        address custodian;
+        // After this timestamp the arbitrator can no longer rule and the default split applies
+        uint256 arbitrationDeadline;
+        // The split applied after the deadline, fixed when the dispute was raised
+        Split defaultSplit;
+        Evidence[] evidence;
+        bool resolved;
+        // The arbitrator who ruled, or address(0) if the default outcome was applied
+        address resolvedBy;
+        uint256 resolvedAt;
+        Split verdict;
+    }
+
+    /**
+     * @notice Appends a new open dispute to a token's records.
+     * @param disputes The token's dispute records.
+     * @param raisedBy The party or agent raising the dispute.
+     * @param reason Why the dispute was raised.
+     * @param custodian Holder of the shipment NFT, who receives the custodian share of the settlement.
+     * @param arbitrationDeadline Timestamp after which the default split applies.
+     * @param defaultSplit The split applied if the arbitrator does not rule by the deadline.
+     */
+    function open(
+        DisputeRecord[] storage disputes,
+        address raisedBy,
+        string memory reason,
+        address custodian,
+        uint256 arbitrationDeadline,
+        Split memory defaultSplit
+    ) external {
+        DisputeRecord storage dispute = disputes.push();
+        dispute.raisedBy = raisedBy;
+        dispute.raisedAt = block.timestamp;
+        dispute.reason = reason;
+        dispute.custodian = custodian;
+        dispute.arbitrationDeadline = arbitrationDeadline;
+        dispute.defaultSplit = defaultSplit;
+    }
+
+    /**
+     * @notice Attaches evidence to the open (last) dispute, until its arbitration deadline.
+     * @return disputeIndex The index of the dispute the evidence was attached to.
+     */
+    function addEvidence(
+        DisputeRecord[] storage disputes,
+        address submittedBy,
+        string calldata uri,
+        bytes32 contentHash
+    ) external returns (uint256 disputeIndex) {
+        require(bytes(uri).length > 0 || contentHash != bytes32(0), "Evidence cannot be empty");
+
+        disputeIndex = disputes.length - 1;
+        DisputeRecord storage dispute = disputes[disputeIndex];
+        require(block.timestamp <= dispute.arbitrationDeadline, "Arbitration period has ended");
+
+        dispute.evidence.push(Evidence({ submittedBy: submittedBy, submittedAt: block.timestamp, uri: uri, contentHash: contentHash }));
+    }
+
+    /**
+     * @notice Records the outcome of the open (last) dispute and divides `payment` according to `split`.
+     * @dev An arbitrator (`resolvedBy` set) can only rule before the arbitration deadline; the default
+     * outcome (`resolvedBy` zero) only applies after it, with the dispute's own `defaultSplit` in place
+     * of `split`. Rounding dust goes to the shipper.
+     * @return shipperAmount The shipper's share of `payment`.
+     * @return recipientAmount The recipient's share of `payment`.
+     * @return custodianAmount The custodian's share of `payment`.
+     * @return custodian The custodian recorded when the dispute was raised.
+     */
+    function settle(
+        DisputeRecord[] storage disputes,
+        Split memory split,
+        address resolvedBy,
+        uint256 payment
+    ) external returns (uint256 shipperAmount, uint256 recipientAmount, uint256 custodianAmount, address custodian) {
+        DisputeRecord storage dispute = disputes[disputes.length - 1];
+        if (resolvedBy != address(0)) {
+            require(block.timestamp <= dispute.arbitrationDeadline, "Arbitration period has ended");
+        } else {
+            require(block.timestamp > dispute.arbitrationDeadline, "Arbitration period still running");
+            split = dispute.defaultSplit;
+        }
+        require(isValidSplit(split), "Split must total 100%");
+
+        dispute.resolved = true;
+        dispute.resolvedBy = resolvedBy;
+        dispute.resolvedAt = block.timestamp;
+        dispute.verdict = split;
+
+        recipientAmount = (payment * split.recipientBps) / BPS_DENOMINATOR;
+        custodianAmount = (payment * split.custodianBps) / BPS_DENOMINATOR;
+        shipperAmount = payment - recipientAmount - custodianAmount;
+        custodian = dispute.custodian;
+    }
+
+    function isValidSplit(Split memory split) internal pure returns (bool) {
+        return split.shipperBps + split.recipientBps + split.custodianBps == BPS_DENOMINATOR;
+    }
+}
@@ -0,0 +1,61 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "../OracleRegistry.sol";
+
+/**
+ * @title QuorumLib
+ * @notice M-of-N agent approval bookkeeping for `Shipment`'s quorum actions.
+ * @dev Deployed once and linked into `Shipment`, like `RouteLib`. Every agent-gated function goes through
+ * `record`, so keeping it out of line saves a copy of it per function in the collection's bytecode.
+ */
+library QuorumLib {
+    /// @dev Same signature as `Shipment.AgentApprovalRecorded`; emitted from the collection's address.
+    event AgentApprovalRecorded(uint256 indexed tokenId, bytes32 indexed actionHash, address indexed agent, uint256 approvals, uint256 threshold);
+
+    /**
+     * @notice Records `agent`'s approval of an action and reports whether its agent type's quorum is now reached.
+     * @dev Once enough agents have approved, the approvers are recounted: an agent revoked or slashed
+     * below the minimum bond since approving no longer counts towards the quorum.
+     * @param hasApproved The collection's per-action approvals.
+     * @param approvers The collection's per-action approving agents, in approval order.
+     * @param approvalCount The collection's per-action approval counts.
+     * @param registry The registry the agents and quorum thresholds are read from.
+     * @param agentType The agent type the action requires.
+     * @param tokenId The ID of the shipment the action applies to.
+     * @param actionHash The action being approved (see `Shipment.quorumActionHash`).
+     * @param agent The approving agent.
+     * @return True once the quorum is reached and the action should run.
+     */
+    function record(
+        mapping(bytes32 => mapping(address => bool)) storage hasApproved,
+        mapping(bytes32 => address[]) storage approvers,
+        mapping(bytes32 => uint256) storage approvalCount,
+        OracleRegistry registry,
+        OracleRegistry.AgentType agentType,
+        uint256 tokenId,
+        bytes32 actionHash,
+        address agent
+    ) external returns (bool) {
+        require(registry.isTrustedAgent(agentType, agent), "Caller is not a registered agent of this type");
+        require(!hasApproved[actionHash][agent], "Agent already approved this action");
+        hasApproved[actionHash][agent] = true;
+        address[] storage approved = approvers[actionHash];
+        approved.push(agent);
+
+        uint256 approvals = approved.length;
+        uint256 threshold = registry.quorum(agentType);
+        if (approvals >= threshold) {
+            approvals = 0;
+            for (uint256 i = 0; i < approved.length; i++) {
+                if (registry.isTrustedAgent(agentType, approved[i])) approvals++;
+            }
+        }
+        approvalCount[actionHash] = approvals;
+        if (approvals < threshold) {
+            emit AgentApprovalRecorded(tokenId, actionHash, agent, approvals, threshold);
+            return false;
+        }
+        return true;
+    }
+}
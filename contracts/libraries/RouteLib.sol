@@ -0,0 +1,164 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+/**
+ * @title RouteLib
+ * @notice Route, per-leg schedule and route-proposal bookkeeping for `Shipment`.
+ * @dev Deployed once and linked into `Shipment`. Its functions run against the collection's storage,
+ * which keeps the large calldata-to-storage copies out of the collection's bytecode.
+ */
+library RouteLib {
+    /// @notice A route proposed by the Routing Agent, waiting for the shipper (and recipient) to accept it.
+    struct Proposal {
+        // The full new route, including the stops already passed
+        address[] route;
+        // Commitments, fees and deadlines (0 = none) for the legs from the current custodian onwards
+        bytes32[] legKeyHashes;
+        uint256[] legFees;
+        uint256[] legDeadlines;
+        // After this timestamp the proposal can no longer be accepted
+        uint256 expiresAt;
+        // Set when the proposal changes the final destination, which the recipient must then accept too
+        bool recipientMustAccept;
+        bool shipperAccepted;
+        bool recipientAccepted;
+    }
+
+    /**
+     * @notice Stores the route and leg schedule of a newly minted shipment as its first route version.
+     * @dev The factory has already checked that there is one commitment, fee and deadline per leg.
+     */
+    function setRoute(
+        address[] storage route,
+        bytes32[] storage legKeyHashes,
+        uint256[] storage legFees,
+        uint256[] storage legDeadlines,
+        address[][] storage history,
+        address[] calldata newRoute,
+        bytes32[] calldata newLegKeyHashes,
+        uint256[] calldata newLegFees,
+        uint256[] calldata newLegDeadlines
+    ) external {
+        for (uint256 i = 0; i < newLegKeyHashes.length; i++) {
+            legKeyHashes.push(newLegKeyHashes[i]);
+            legFees.push(newLegFees[i]);
+            legDeadlines.push(newLegDeadlines[i]);
+        }
+        for (uint256 i = 0; i < newRoute.length; i++) {
+            route.push(newRoute[i]);
+        }
+        history.push(newRoute);
+    }
+
+    /**
+     * @notice Replaces `proposal` with a new route for the legs from `fromLeg` onwards, clearing any acceptances.
+     * @dev Leg i runs from `newRoute[i]` to `newRoute[i + 1]`.
+     * @param proposal The token's proposal slot.
+     * @param fromLeg The first leg to replace (the current route index).
+     * @param custodian The shipment's current holder, where the remaining legs must start.
+     * @param newRoute The full new route, including the stops already passed.
+     * @param newLegKeyHashes Commitments for legs `fromLeg` onwards.
+     * @param newLegFees Fees for legs `fromLeg` onwards.
+     * @param newLegDeadlines Deadlines for legs `fromLeg` onwards (0 = none).
+     * @param recipient The shipment's current recipient; if the new route ends elsewhere, they must accept too.
+     * @param expiresAt Timestamp after which the proposal can no longer be accepted.
+     * @return remainingFees The total fee of the proposed legs, for checking against the escrow.
+     */
+    function propose(
+        Proposal storage proposal,
+        uint256 fromLeg,
+        address custodian,
+        address[] calldata newRoute,
+        bytes32[] calldata newLegKeyHashes,
+        uint256[] calldata newLegFees,
+        uint256[] calldata newLegDeadlines,
+        address recipient,
+        uint256 expiresAt
+    ) external returns (uint256 remainingFees) {
+        // At least one leg must remain, or the shipment would end up stuck at its last stop with the escrow
+        require(newRoute.length > fromLeg + 1, "New route has no legs left to travel");
+        require(newRoute[fromLeg] == custodian, "New route must start from current custodian");
+        require(newLegKeyHashes.length == newRoute.length - 1 - fromLeg, "One key hash per remaining leg required");
+        require(newLegFees.length == newLegKeyHashes.length, "One fee per remaining leg required");
+        require(newLegDeadlines.length == newLegKeyHashes.length, "One deadline per remaining leg required");
+
+        delete proposal.legKeyHashes;
+        delete proposal.legFees;
+        delete proposal.legDeadlines;
+        for (uint256 i = 0; i < newLegKeyHashes.length; i++) {
+            require(newLegKeyHashes[i] != bytes32(0), "Secret hash cannot be empty");
+            proposal.legKeyHashes.push(newLegKeyHashes[i]);
+            proposal.legFees.push(newLegFees[i]);
+            proposal.legDeadlines.push(newLegDeadlines[i]);
+            remainingFees += newLegFees[i];
+        }
+        proposal.route = newRoute;
+        proposal.expiresAt = expiresAt;
+        proposal.recipientMustAccept = newRoute[newRoute.length - 1] != recipient;
+        proposal.shipperAccepted = false;
+        proposal.recipientAccepted = false;
+    }
+
+    /**
+     * @notice Records `caller`'s acceptance of a live proposal.
+     * @dev The recipient's acceptance only counts (and is only allowed) when the proposal changes the final destination.
+     * @param proposal The token's proposal slot.
+     * @param caller The account accepting.
+     * @param shipper The shipment's shipper.
+     * @param recipient The shipment's current recipient.
+     * @return complete True once every required party has accepted, and the proposal can be adopted.
+     */
+    function accept(Proposal storage proposal, address caller, address shipper, address recipient) external returns (bool complete) {
+        require(block.timestamp <= proposal.expiresAt, "No route proposal to accept");
+
+        bool asShipper = caller == shipper;
+        bool asRecipient = caller == recipient && proposal.recipientMustAccept;
+        require(asShipper || asRecipient, "Only the shipper or recipient can accept a route");
+        if (asShipper) proposal.shipperAccepted = true;
+        if (asRecipient) proposal.recipientAccepted = true;
+
+        return proposal.shipperAccepted && (!proposal.recipientMustAccept || proposal.recipientAccepted);
+    }
+
+    /**
+     * @notice Adopts an accepted proposal: replaces the route and the schedule of every leg from
+     * `fromLeg` onwards, records the new route version and clears the proposal.
+     * @dev Legs before `fromLeg` are already verified and keep their commitments, fees and deadlines.
+     */
+    function adopt(
+        Proposal storage proposal,
+        address[] storage route,
+        bytes32[] storage legKeyHashes,
+        uint256[] storage legFees,
+        uint256[] storage legDeadlines,
+        address[][] storage history,
+        uint256 fromLeg
+    ) external {
+        while (legKeyHashes.length > fromLeg) {
+            legKeyHashes.pop();
+            legFees.pop();
+            legDeadlines.pop();
+        }
+        for (uint256 i = 0; i < proposal.legKeyHashes.length; i++) {
+            legKeyHashes.push(proposal.legKeyHashes[i]);
+            legFees.push(proposal.legFees[i]);
+            legDeadlines.push(proposal.legDeadlines[i]);
+        }
+        history.push(proposal.route);
+        // `route` is the token's `plannedRoute`; copy the proposal over it.
+        while (route.length > 0) {
+            route.pop();
+        }
+        for (uint256 i = 0; i < proposal.route.length; i++) {
+            route.push(proposal.route[i]);
+        }
+        delete proposal.route;
+        delete proposal.legKeyHashes;
+        delete proposal.legFees;
+        delete proposal.legDeadlines;
+        delete proposal.expiresAt;
+        delete proposal.recipientMustAccept;
+        delete proposal.shipperAccepted;
+        delete proposal.recipientAccepted;
+    }
+}
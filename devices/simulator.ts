@@ -0,0 +1,120 @@
+import { BaseWallet, SigningKey, TypedDataDomain, Wallet, keccak256, toUtf8Bytes } from "ethers";
+import { ConditionReading, SignedReading, signReading } from "../sdk";
+
+/**
+ * @notice The conditions a simulated device reports when nothing goes wrong: a centre value and the
+ * largest random drift either side of it, in the monitor's units (1/100 °C, 1/100 %RH, milli-g).
+ */
+export interface ConditionProfile {
+    temperature: number;
+    temperatureDrift: number;
+    humidity: number;
+    humidityDrift: number;
+    /** Shocks are drawn between zero and this. */
+    shock: number;
+}
+
+/**
+ * @notice Refrigerated cargo held at 5 °C ± 1 °C and 60 %RH ± 5 %RH, handled gently.
+ */
+export const COLD_CHAIN_PROFILE: Readonly<ConditionProfile> = {
+    temperature: 500,
+    temperatureDrift: 100,
+    humidity: 6000,
+    humidityDrift: 500,
+    shock: 500,
+};
+
+/**
+ * @notice Forces the reading at `index` to report the given values instead of the profile's.
+ */
+export interface Excursion extends Partial<Omit<ConditionReading, "timestamp">> {
+    index: number;
+}
+
+export interface GenerateOptions {
+    collection: string;
+    tokenId: bigint;
+    /** Unix timestamp of the first reading. */
+    start: number;
+    /** Seconds between readings. */
+    interval: number;
+    count: number;
+    excursions?: Excursion[];
+}
+
+export interface DeviceSimulatorOptions {
+    /** The device key; derived from `seed` when omitted. */
+    wallet?: BaseWallet;
+    profile?: ConditionProfile;
+    /** Makes the key (when derived) and every generated reading reproducible. */
+    seed?: number;
+}
+
+// mulberry32: small, fast and good enough for plausible sensor noise
+function prng(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+/**
+ * @title DeviceSimulator
+ * @notice Stands in for a sensor fitted to a shipment: generates plausible readings around a
+ * profile and signs them with the device key for `ConditionMonitor`.
+ * @dev Register `address` as a device when configuring monitoring. Readings are deterministic for a
+ * given seed, so tests can rely on which of them breach the thresholds.
+ */
+export class DeviceSimulator {
+    public readonly wallet: BaseWallet;
+    private readonly profile: ConditionProfile;
+    private readonly random: () => number;
+
+    constructor(
+        private readonly domain: TypedDataDomain,
+        options: DeviceSimulatorOptions = {}
+    ) {
+        const seed = options.seed ?? Math.floor(Math.random() * 2 ** 32);
+        this.wallet = options.wallet ?? new Wallet(new SigningKey(keccak256(toUtf8Bytes(`hashroute-device-${seed}`))));
+        this.profile = options.profile ?? COLD_CHAIN_PROFILE;
+        this.random = prng(seed);
+    }
+
+    get address(): string {
+        return this.wallet.address;
+    }
+
+    /**
+     * @notice Signs a reading for one shipment.
+     */
+    sign(collection: string, tokenId: bigint, reading: ConditionReading): Promise<SignedReading> {
+        return signReading(this.wallet, this.domain, collection, tokenId, reading);
+    }
+
+    /**
+     * @notice Generates and signs `count` readings, `interval` seconds apart, applying the excursions.
+     */
+    async generate(options: GenerateOptions): Promise<SignedReading[]> {
+        const readings: SignedReading[] = [];
+        for (let index = 0; index < options.count; index++) {
+            const excursion = options.excursions?.find((e) => e.index === index);
+            const reading: ConditionReading = {
+                timestamp: options.start + index * options.interval,
+                temperature: excursion?.temperature ?? this.drift(this.profile.temperature, this.profile.temperatureDrift),
+                humidity: excursion?.humidity ?? Math.max(0, this.drift(this.profile.humidity, this.profile.humidityDrift)),
+                shock: excursion?.shock ?? Math.floor(this.random() * (this.profile.shock + 1)),
+            };
+            readings.push(await this.sign(options.collection, options.tokenId, reading));
+        }
+        return readings;
+    }
+
+    private drift(centre: number, drift: number): number {
+        return centre + Math.round((this.random() * 2 - 1) * drift);
+    }
+}
@@ -1,5 +1,6 @@
 import { HardhatUserConfig } from "hardhat/config";
 import "@nomicfoundation/hardhat-toolbox";
+import "./tasks/hashroute";
 require("dotenv").config();
 
 if (!process.env.RPC_URL || !process.env.OPERATOR_KEY) {
@@ -9,6 +10,18 @@ if (!process.env.RPC_URL || !process.env.OPERATOR_KEY) {
 const config: HardhatUserConfig = {
   solidity: {
     version: "0.8.28",
+    settings: {
+      // The Shipment workflow functions take several calldata arrays, which overflow the
+      // legacy pipeline's stack; the IR pipeline needs the optimizer enabled.
+      viaIR: true,
+      // Hedera supports Cancun; PUSH0 and MCOPY noticeably shrink the Shipment bytecode.
+      evmVersion: "cancun",
+      // Shipment sits close to the 24 KB contract size limit: optimise for deployed size over per-call gas.
+      optimizer: {
+        enabled: true,
+        runs: 1,
+      },
+    },
   },
   networks: {
     hardhat: {
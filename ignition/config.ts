@@ -0,0 +1,74 @@
+import { readFile } from "fs/promises";
+import { isAddress } from "ethers";
+import { AgentType } from "../sdk";
+
+/**
+ * @notice A collection to deploy as a clone through `ShipmentFactory.createCollection`.
+ */
+export interface CollectionConfig {
+    /** Stable identifier, used for the collection's Ignition futures and its manifest entry. Letters, digits and `_`. */
+    id: string;
+    name: string;
+    symbol: string;
+    /** ERC-20 / HTS tokens the collection accepts as escrow besides native HBAR. */
+    paymentTokens?: string[];
+}
+
+/**
+ * @notice An agent to register with the OracleRegistry.
+ */
+export interface AgentConfig {
+    address: string;
+    type: keyof typeof AgentType;
+}
+
+/**
+ * @notice The contents of a deployment parameters file (`ignition/parameters/<network>.json`).
+ */
+export interface HashRouteDeploymentConfig {
+    collections: CollectionConfig[];
+    agents: AgentConfig[];
+}
+
+const ID_PATTERN = /^[A-Za-z][A-Za-z0-9_]*$/;
+
+/**
+ * @notice Checks a parameters file's shape, throwing on the first problem found.
+ */
+export function parseDeploymentConfig(value: unknown): HashRouteDeploymentConfig {
+    const config = value as Partial<HashRouteDeploymentConfig>;
+    if (!Array.isArray(config?.collections) || !Array.isArray(config?.agents)) {
+        throw new Error("Deployment parameters need `collections` and `agents` arrays");
+    }
+
+    const ids = new Set<string>();
+    for (const collection of config.collections) {
+        if (typeof collection.id !== "string" || !ID_PATTERN.test(collection.id)) {
+            throw new Error(`Invalid collection id: ${collection.id}`);
+        }
+        if (ids.has(collection.id)) {
+            throw new Error(`Duplicate collection id: ${collection.id}`);
+        }
+        ids.add(collection.id);
+        if (typeof collection.name !== "string" || typeof collection.symbol !== "string") {
+            throw new Error(`Collection ${collection.id} needs a name and a symbol`);
+        }
+        for (const token of collection.paymentTokens ?? []) {
+            if (!isAddress(token)) throw new Error(`Collection ${collection.id} has an invalid payment token: ${token}`);
+        }
+    }
+
+    for (const agent of config.agents) {
+        if (!isAddress(agent.address)) {
+            throw new Error(`Invalid agent address: ${agent.address}`);
+        }
+        if (typeof agent.type !== "string" || !(agent.type in AgentType) || !isNaN(Number(agent.type))) {
+            throw new Error(`Unknown agent type for ${agent.address}: ${agent.type}`);
+        }
+    }
+    return config as HashRouteDeploymentConfig;
+}
+
+export async function loadDeploymentConfig(path: string): Promise<HashRouteDeploymentConfig> {
+    return parseDeploymentConfig(JSON.parse(await readFile(path, "utf8")));
+}
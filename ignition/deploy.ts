@@ -0,0 +1,96 @@
+import path from "path";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { DeploymentResultType, deploy, listTransactions } from "@nomicfoundation/ignition-core";
+import { HardhatArtifactResolver, PrettyEventHandler, errorDeploymentResultToExceptionMessage } from "@nomicfoundation/hardhat-ignition/helpers";
+import { writeJsonAtomic } from "../lib/fs";
+import { DeployedContract, DeploymentManifest, abiHash } from "../sdk";
+import { ShipmentFactory__factory } from "../typechain-types";
+import { HashRouteDeploymentConfig } from "./config";
+import { buildHashRouteModule } from "./modules/HashRoute";
+
+export interface DeployHashRouteOptions {
+    /** Ignition's journal for the deployment. Defaults to `ignition/deployments/<deploymentId>`, so re-runs resume it. */
+    deploymentDir?: string;
+    /** Defaults to `chain-<chainId>`, like `npx hardhat ignition deploy`. */
+    deploymentId?: string;
+    /** Where to write the manifest. Defaults to `deployments/<network>.json`. */
+    manifestPath?: string;
+    /** Show Ignition's progress output. */
+    displayUi?: boolean;
+}
+
+/**
+ * @notice Deploys (or resumes deploying) HashRoute as described by `config`, then writes the network's manifest.
+ * @dev Ignition records every executed future in `deploymentDir`, so running the same config again sends
+ * no transactions and rewrites the same manifest, and extending the config only deploys what was added.
+ * @return The manifest that was written.
+ */
+export async function deployHashRoute(
+    hre: HardhatRuntimeEnvironment,
+    config: HashRouteDeploymentConfig,
+    options: DeployHashRouteOptions = {}
+): Promise<DeploymentManifest> {
+    const provider = hre.network.provider;
+    const chainId = Number(await provider.request({ method: "eth_chainId" }));
+    const deploymentId = options.deploymentId ?? `chain-${chainId}`;
+    const deploymentDir = options.deploymentDir ?? path.join(hre.config.paths.ignition, "deployments", deploymentId);
+    const artifactResolver = new HardhatArtifactResolver(hre);
+
+    const result = await deploy({
+        config: hre.config.ignition,
+        provider,
+        deploymentDir,
+        artifactResolver,
+        executionEventListener: options.displayUi ? new PrettyEventHandler() : undefined,
+        ignitionModule: buildHashRouteModule(config),
+        deploymentParameters: {},
+        accounts: (await provider.request({ method: "eth_accounts" })) as string[],
+    });
+    if (result.type !== DeploymentResultType.SUCCESSFUL_DEPLOYMENT) {
+        throw new Error(errorDeploymentResultToExceptionMessage(result));
+    }
+
+    // Block numbers come from the receipts of the deployment transactions in the journal
+    const deployedAt = new Map<string, number>();
+    for (const transaction of await listTransactions(deploymentDir, artifactResolver)) {
+        if (transaction.address === undefined) continue;
+        const receipt = await hre.ethers.provider.getTransactionReceipt(transaction.txHash);
+        deployedAt.set(transaction.address.toLowerCase(), receipt!.blockNumber);
+    }
+
+    const contracts: Record<string, DeployedContract> = {};
+    for (const [futureId, contract] of Object.entries(result.contracts)) {
+        const [moduleId, name] = futureId.split("#");
+        if (moduleId !== "HashRouteCore") continue;
+        contracts[name] = {
+            address: contract.address,
+            blockNumber: deployedAt.get(contract.address.toLowerCase())!,
+            abiHash: abiHash((await hre.artifacts.readArtifact(contract.contractName)).abi),
+        };
+    }
+
+    // Collections are created by a factory call rather than deployed, so their block is that of the creation event
+    const factory = ShipmentFactory__factory.connect(contracts.ShipmentFactory.address, hre.ethers.provider);
+    const manifest: DeploymentManifest = {
+        network: hre.network.name,
+        chainId,
+        deploymentId,
+        contracts,
+        collections: {},
+        agents: config.agents.map(({ address, type }) => ({ address, type })),
+    };
+    for (const collection of config.collections) {
+        const deployed = result.contracts[`HashRoute#${collection.id}Collection`];
+        const [created] = await factory.queryFilter(factory.filters.ShipmentCollectionCreated(deployed.address), contracts.ShipmentFactory.blockNumber);
+        manifest.collections[collection.id] = {
+            address: deployed.address,
+            blockNumber: created.blockNumber,
+            abiHash: abiHash((await hre.artifacts.readArtifact(deployed.contractName)).abi),
+            name: collection.name,
+            symbol: collection.symbol,
+        };
+    }
+
+    await writeJsonAtomic(options.manifestPath ?? path.join(hre.config.paths.root, "deployments", `${hre.network.name}.json`), manifest);
+    return manifest;
+}
@@ -0,0 +1,3 @@
+export * from "./config";
+export * from "./deploy";
+export { HashRouteCoreModule, buildHashRouteModule } from "./modules/HashRoute";
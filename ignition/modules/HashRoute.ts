@@ -0,0 +1,72 @@
+// HashRoute deployment, as Hardhat Ignition modules.
+// Learn more about Ignition at https://hardhat.org/ignition
+
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+import { NamedArtifactContractAtFuture } from "@nomicfoundation/ignition-core";
+import { AgentType } from "../../sdk";
+import { HashRouteDeploymentConfig } from "../config";
+
+/**
+ * The network-wide singletons: the OracleRegistry, the Shipment implementation collections are
+ * cloned from, the universal ShipmentFactory (pointed at that implementation), the ShipmentLens and
+ * the ConditionMonitor the factory accepts condition disputes from.
+ */
+export const HashRouteCoreModule = buildModule("HashRouteCore", (m) => {
+    const oracleRegistry = m.contract("OracleRegistry");
+
+    const libraries = {
+        RouteLib: m.library("RouteLib"),
+        DisputeLib: m.library("DisputeLib"),
+        QuorumLib: m.library("QuorumLib"),
+    };
+    const shipmentImplementation = m.contract("Shipment", [oracleRegistry], { id: "ShipmentImplementation", libraries });
+
+    const shipmentFactory = m.contract("ShipmentFactory");
+    m.call(shipmentFactory, "setShipmentImplementation", [shipmentImplementation]);
+
+    const shipmentLens = m.contract("ShipmentLens");
+
+    const conditionMonitor = m.contract("ConditionMonitor", [shipmentFactory]);
+    m.call(shipmentFactory, "setConditionMonitor", [conditionMonitor]);
+
+    return { oracleRegistry, shipmentImplementation, shipmentFactory, shipmentLens, conditionMonitor };
+});
+
+/**
+ * @notice Builds the full deployment for a parameters file: the core contracts, one cloned collection
+ * per configured collection (with its accepted payment tokens) and the agent registrations.
+ * @dev Every future's id is derived from the config, so re-running the same config is a no-op and
+ * adding a collection or agent only deploys what is new.
+ */
+export function buildHashRouteModule(config: HashRouteDeploymentConfig) {
+    return buildModule("HashRoute", (m) => {
+        const core = m.useModule(HashRouteCoreModule);
+        const { oracleRegistry, shipmentFactory } = core;
+
+        for (const agent of config.agents) {
+            m.call(oracleRegistry, "registerAgent", [agent.address, AgentType[agent.type]], {
+                id: `registerAgent_${agent.type}_${agent.address.toLowerCase()}`,
+            });
+        }
+
+        const collections: Record<string, NamedArtifactContractAtFuture<"Shipment">> = {};
+        for (const collection of config.collections) {
+            const creation = m.call(shipmentFactory, "createCollection", [collection.name, collection.symbol, oracleRegistry], {
+                id: `createCollection_${collection.id}`,
+            });
+            const address = m.readEventArgument(creation, "ShipmentCollectionCreated", "collectionAddress", {
+                id: `${collection.id}_address`,
+            });
+            const shipments = m.contractAt("Shipment", address, { id: `${collection.id}Collection` });
+
+            for (const token of collection.paymentTokens ?? []) {
+                m.call(shipments, "setPaymentTokenAllowed", [token, true], { id: `${collection.id}_allow_${token.toLowerCase()}` });
+            }
+            collections[`${collection.id}Collection`] = shipments;
+        }
+
+        return { ...core, ...collections };
+    });
+}
+
+export default HashRouteCoreModule;
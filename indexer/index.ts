@@ -0,0 +1,3 @@
+export * from "./indexer";
+export * from "./queries";
+export * from "./store";
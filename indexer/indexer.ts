@@ -0,0 +1,211 @@
+import { Log, Provider, Result } from "ethers";
+import { decodeShipmentEvent } from "../sdk";
+import { ShipmentFactory__factory, Shipment__factory } from "../typechain-types";
+import { IndexedShipment, OpenDispute, openDisputes, shipments, shipmentsHeldBy, timeline } from "./queries";
+import { IndexedCollection, IndexerState, IndexerStore, TimelineEntry, timelineKey } from "./store";
+
+export interface ShipmentIndexerOptions {
+    provider: Provider;
+    factory: string;
+    store: IndexerStore;
+    /** Blocks a block must be buried under before it is indexed. */
+    confirmations?: number;
+    /** First block to scan when the store is empty. */
+    startBlock?: number;
+    /** Collections registered before `startBlock`, which the indexer would otherwise never discover. */
+    collections?: string[];
+    /** Most blocks fetched per `getLogs` call. */
+    maxBlockRange?: number;
+    log?: (message: string) => void;
+}
+
+// Indexed heads kept for finding the common ancestor after a deep reorg
+const MAX_CHECKPOINTS = 32;
+
+const factoryInterface = ShipmentFactory__factory.createInterface();
+const shipmentInterface = Shipment__factory.createInterface();
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * @title ShipmentIndexer
+ * @notice Projects the events of `ShipmentFactory` and every collection it registers into per-token
+ * timelines in a local store, and answers queries over them.
+ * @dev New collections are picked up from `ShipmentCollectionRegistered`. Deregistered collections are
+ * still followed, since their existing shipments keep moving. Only blocks at least `confirmations` deep
+ * are indexed; if a reorg still replaces an indexed block, the index is rolled back to the last
+ * checkpoint that is still on the chain and re-indexed from there.
+ */
+export class ShipmentIndexer {
+    private readonly confirmations: number;
+    private readonly maxBlockRange: number;
+    private readonly log: (message: string) => void;
+
+    constructor(private readonly options: ShipmentIndexerOptions) {
+        this.confirmations = options.confirmations ?? 12;
+        this.maxBlockRange = options.maxBlockRange ?? 1_000;
+        this.log = options.log ?? ((message) => console.log(`[indexer] ${message}`));
+    }
+
+    /**
+     * @notice Indexes confirmed blocks up to the chain head, at most `maxBlockRange` of them.
+     * @return The number of timeline entries added.
+     */
+    async pollOnce(): Promise<number> {
+        const provider = this.options.provider;
+        const state = await this.loadState();
+        await this.rollBackReorgs(state);
+
+        const confirmed = (await provider.getBlockNumber()) - this.confirmations;
+        const fromBlock = state.lastBlock + 1;
+        const toBlock = Math.min(confirmed, state.lastBlock + this.maxBlockRange);
+        if (toBlock < fromBlock) {
+            return 0;
+        }
+
+        const entries: TimelineEntry[] = [];
+        const factoryLogs = await provider.getLogs({ address: this.options.factory, fromBlock, toBlock });
+        for (const log of factoryLogs) {
+            const parsed = factoryInterface.parseLog(log);
+            if (parsed?.name === "ShipmentCollectionRegistered") {
+                const address: string = parsed.args.collectionAddress;
+                if (!this.followed(state).some((c) => c.address.toLowerCase() === address.toLowerCase())) {
+                    state.collections.push({ address, registeredAt: log.blockNumber });
+                    this.log(`following collection ${address}`);
+                }
+            } else if (parsed?.name === "ShipmentCreated") {
+                entries.push(toEntry(log, parsed.args.collectionAddress, parsed.name, parsed.args));
+            }
+        }
+
+        for (const collection of this.followed(state)) {
+            const logs = await provider.getLogs({ address: collection.address, fromBlock: Math.max(fromBlock, collection.registeredAt), toBlock });
+            for (const log of logs) {
+                const entry = toCollectionEntry(collection.address, log);
+                if (entry) entries.push(entry);
+            }
+        }
+
+        entries.sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+        const timestamps = new Map<number, number>();
+        for (const entry of entries) {
+            if (!timestamps.has(entry.blockNumber)) {
+                timestamps.set(entry.blockNumber, (await provider.getBlock(entry.blockNumber))!.timestamp);
+            }
+            entry.timestamp = timestamps.get(entry.blockNumber)!;
+            (state.timelines[timelineKey(entry.collection, entry.tokenId)] ??= []).push(entry);
+        }
+
+        state.lastBlock = toBlock;
+        state.checkpoints.push({ blockNumber: toBlock, hash: (await provider.getBlock(toBlock))!.hash! });
+        state.checkpoints = state.checkpoints.slice(-MAX_CHECKPOINTS);
+        await this.options.store.save(state);
+        return entries.length;
+    }
+
+    /**
+     * @notice Polls forever (or until `signal` aborts), sleeping `intervalMs` between rounds.
+     */
+    async run(intervalMs: number, signal?: AbortSignal): Promise<void> {
+        while (!signal?.aborted) {
+            try {
+                const added = await this.pollOnce();
+                if (added > 0) this.log(`indexed ${added} event(s)`);
+            } catch (error) {
+                this.log(`poll failed, will retry: ${(error as Error).message}`);
+            }
+            await sleep(intervalMs);
+        }
+    }
+
+    async timeline(collection: string, tokenId: bigint | number | string): Promise<TimelineEntry[]> {
+        return timeline(await this.loadState(), collection, tokenId);
+    }
+
+    async shipments(): Promise<IndexedShipment[]> {
+        return shipments(await this.loadState());
+    }
+
+    async shipmentsHeldBy(holder: string): Promise<IndexedShipment[]> {
+        return shipmentsHeldBy(await this.loadState(), holder);
+    }
+
+    async openDisputes(): Promise<OpenDispute[]> {
+        return openDisputes(await this.loadState());
+    }
+
+    private async loadState(): Promise<IndexerState> {
+        return (
+            (await this.options.store.load()) ?? {
+                lastBlock: (this.options.startBlock ?? 0) - 1,
+                checkpoints: [],
+                collections: [],
+                timelines: {},
+            }
+        );
+    }
+
+    // The configured collections plus those discovered through the factory.
+    private followed(state: IndexerState): IndexedCollection[] {
+        const configured = (this.options.collections ?? []).map((address) => ({ address, registeredAt: 0 }));
+        return [...configured, ...state.collections];
+    }
+
+    // Drops everything above the newest checkpoint whose block is still on the chain.
+    private async rollBackReorgs(state: IndexerState): Promise<void> {
+        const latest = state.checkpoints[state.checkpoints.length - 1];
+        if (!latest || (await this.options.provider.getBlock(latest.blockNumber))?.hash === latest.hash) {
+            return;
+        }
+
+        while (state.checkpoints.length > 0) {
+            const checkpoint = state.checkpoints[state.checkpoints.length - 1];
+            if ((await this.options.provider.getBlock(checkpoint.blockNumber))?.hash === checkpoint.hash) break;
+            state.checkpoints.pop();
+        }
+        const lastBlock = state.checkpoints[state.checkpoints.length - 1]?.blockNumber ?? (this.options.startBlock ?? 0) - 1;
+        this.log(`reorg detected, rolling back from block ${state.lastBlock} to ${lastBlock}`);
+
+        state.lastBlock = lastBlock;
+        state.collections = state.collections.filter((c) => c.registeredAt <= lastBlock);
+        for (const [key, entries] of Object.entries(state.timelines)) {
+            const kept = entries.filter((entry) => entry.blockNumber <= lastBlock);
+            if (kept.length > 0) {
+                state.timelines[key] = kept;
+            } else {
+                delete state.timelines[key];
+            }
+        }
+    }
+}
+
+function toCollectionEntry(collection: string, log: Log): TimelineEntry | undefined {
+    const event = decodeShipmentEvent(log);
+    if (event) {
+        return "tokenId" in event.args ? toEntry(log, collection, event.name, event.args) : undefined;
+    }
+    const parsed = shipmentInterface.parseLog(log);
+    if (parsed?.name === "Transfer") {
+        return toEntry(log, collection, parsed.name, { from: parsed.args.from, to: parsed.args.to, tokenId: parsed.args.tokenId });
+    }
+    return undefined;
+}
+
+function toEntry(log: Log, collection: string, event: string, args: Result | Record<string, unknown>): TimelineEntry {
+    const jsonArgs: TimelineEntry["args"] = {};
+    const source = args instanceof Result ? args.toObject() : args;
+    for (const [name, value] of Object.entries(source)) {
+        if (name === "tokenId" || name === "collectionAddress") continue;
+        jsonArgs[name] = typeof value === "bigint" ? value.toString() : (value as string | number | boolean);
+    }
+    return {
+        collection,
+        tokenId: (source.tokenId as bigint).toString(),
+        event,
+        args: jsonArgs,
+        blockNumber: log.blockNumber,
+        timestamp: 0,
+        transactionHash: log.transactionHash,
+        logIndex: log.index,
+    };
+}
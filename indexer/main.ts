@@ -0,0 +1,51 @@
+import "dotenv/config";
+import { JsonRpcProvider } from "ethers";
+import { loadManifest } from "../sdk";
+import { ShipmentIndexer } from "./indexer";
+import { FileIndexerStore } from "./store";
+
+// --- Configuration (from the environment / .env file) ---
+// INDEXER_RPC_URL      JSON-RPC endpoint, defaults to a local `npx hardhat node`
+// HASHROUTE_MANIFEST   Deployment manifest (deployments/<network>.json) supplying SHIPMENT_FACTORY and START_BLOCK when unset
+// SHIPMENT_FACTORY     ShipmentFactory address; its registered collections are followed automatically
+// COLLECTIONS          Optional comma-separated collections registered before START_BLOCK
+// INDEXER_STORE_FILE   JSON file holding the index
+// START_BLOCK          First block to scan on a fresh store
+// CONFIRMATIONS        Blocks a block must be buried under before it is indexed
+// MAX_BLOCK_RANGE      Most blocks fetched per getLogs call
+// POLL_INTERVAL_MS     Delay between polls
+
+// Falls back to the value from the deployment manifest, if one is configured
+function requireEnv(name: string, fallback?: string): string {
+    const value = process.env[name] || fallback;
+    if (!value) throw new Error(`Missing environment variable: ${name}`);
+    return value;
+}
+
+async function main() {
+    const manifest = process.env.HASHROUTE_MANIFEST ? await loadManifest(process.env.HASHROUTE_MANIFEST) : undefined;
+    const factory = requireEnv("SHIPMENT_FACTORY", manifest?.contracts.ShipmentFactory.address);
+    const provider = new JsonRpcProvider(process.env.INDEXER_RPC_URL ?? "http://127.0.0.1:8545");
+
+    const indexer = new ShipmentIndexer({
+        provider,
+        factory,
+        store: new FileIndexerStore(process.env.INDEXER_STORE_FILE ?? ".agent/indexer.json"),
+        collections: (process.env.COLLECTIONS ?? "").split(",").map((address) => address.trim()).filter((address) => address.length > 0),
+        startBlock: Number(process.env.START_BLOCK ?? manifest?.contracts.ShipmentFactory.blockNumber ?? 0),
+        confirmations: Number(process.env.CONFIRMATIONS ?? 12),
+        maxBlockRange: Number(process.env.MAX_BLOCK_RANGE ?? 1_000),
+    });
+
+    const controller = new AbortController();
+    process.on("SIGINT", () => controller.abort());
+    process.on("SIGTERM", () => controller.abort());
+
+    console.log(`Indexing ShipmentFactory ${factory} and its collections`);
+    await indexer.run(Number(process.env.POLL_INTERVAL_MS ?? 2_000), controller.signal);
+}
+
+main().catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+});
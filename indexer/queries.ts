@@ -0,0 +1,103 @@
+import { ZeroAddress } from "ethers";
+import { Status } from "../sdk";
+import { IndexerState, TimelineEntry, timelineKey } from "./store";
+
+/**
+ * @notice A shipment's current state, folded from its timeline.
+ */
+export interface IndexedShipment {
+    collection: string;
+    tokenId: string;
+    shipper: string;
+    recipient: string;
+    /** Current holder of the shipment NFT, or `ZeroAddress` once it has been burned. */
+    holder: string;
+    status: Status;
+    /** Block of the shipment's latest event. */
+    updatedAt: number;
+}
+
+/**
+ * @notice A shipment in `Disputed`, with the dispute that put it there.
+ */
+export interface OpenDispute {
+    shipment: IndexedShipment;
+    raisedBy: string;
+    reason: string;
+    /** Unix timestamp at which the dispute was raised. */
+    raisedAt: number;
+}
+
+/**
+ * @notice Every indexed event of one shipment, oldest first.
+ */
+export function timeline(state: IndexerState, collection: string, tokenId: bigint | number | string): TimelineEntry[] {
+    return state.timelines[timelineKey(collection, tokenId)] ?? [];
+}
+
+/**
+ * @notice Folds a shipment's timeline into its current state.
+ */
+export function summarize(entries: readonly TimelineEntry[]): IndexedShipment {
+    const shipment: IndexedShipment = {
+        collection: entries[0].collection,
+        tokenId: entries[0].tokenId,
+        shipper: ZeroAddress,
+        recipient: ZeroAddress,
+        holder: ZeroAddress,
+        status: Status.Created,
+        updatedAt: entries[entries.length - 1].blockNumber,
+    };
+    // A reroute only names its destination when proposed; it becomes the recipient once adopted.
+    let proposedDestination: string | undefined;
+
+    for (const { event, args } of entries) {
+        switch (event) {
+            case "ShipmentInitialized":
+                shipment.shipper = args.shipper as string;
+                shipment.recipient = args.recipient as string;
+                break;
+            case "Transfer":
+                shipment.holder = args.to as string;
+                break;
+            case "StatusChanged":
+                shipment.status = args.to as Status;
+                break;
+            case "RouteProposed":
+                proposedDestination = args.finalDestination as string;
+                break;
+            case "RouteUpdated":
+                shipment.recipient = proposedDestination ?? shipment.recipient;
+                break;
+        }
+    }
+    return shipment;
+}
+
+/**
+ * @notice Every indexed shipment, in the order their collections and token IDs were first seen.
+ */
+export function shipments(state: IndexerState): IndexedShipment[] {
+    return Object.values(state.timelines)
+        .filter((entries) => entries.some((entry) => entry.event === "ShipmentInitialized"))
+        .map(summarize);
+}
+
+/**
+ * @notice The shipments whose NFT `holder` currently holds.
+ */
+export function shipmentsHeldBy(state: IndexerState, holder: string): IndexedShipment[] {
+    return shipments(state).filter((shipment) => shipment.holder.toLowerCase() === holder.toLowerCase());
+}
+
+/**
+ * @notice The shipments currently in `Disputed`, with the dispute that is open on each.
+ */
+export function openDisputes(state: IndexerState): OpenDispute[] {
+    return shipments(state)
+        .filter((shipment) => shipment.status === Status.Disputed)
+        .map((shipment) => {
+            const raised = timeline(state, shipment.collection, shipment.tokenId).filter((entry) => entry.event === "DisputeRaised").pop()!;
+            return { shipment, raisedBy: raised.args.raisedBy as string, reason: raised.args.reason as string, raisedAt: raised.timestamp };
+        });
+}
@@ -0,0 +1,85 @@
+import { readJson, writeJsonAtomic } from "../lib/fs";
+
+/**
+ * @notice One event in a shipment's timeline, in a JSON-safe form (integers are decimal strings).
+ */
+export interface TimelineEntry {
+    collection: string;
+    tokenId: string;
+    /** Event name, e.g. `HandoverInitiated`. ERC-721 `Transfer`s are included, since they track custody. */
+    event: string;
+    args: Record<string, string | number | boolean>;
+    blockNumber: number;
+    /** Unix timestamp of the block. */
+    timestamp: number;
+    transactionHash: string;
+    logIndex: number;
+}
+
+/**
+ * @notice A collection the indexer discovered through `ShipmentCollectionRegistered`, and the block it was registered in.
+ */
+export interface IndexedCollection {
+    address: string;
+    registeredAt: number;
+}
+
+/**
+ * @notice A block the indexer has indexed up to, with its hash at the time.
+ */
+export interface BlockCheckpoint {
+    blockNumber: number;
+    hash: string;
+}
+
+/**
+ * @notice Everything the indexer persists.
+ * @dev `lastBlock` is the last block whose events are in `timelines`. `checkpoints` keeps the most recent
+ * indexed heads so that a reorg deeper than the confirmation depth can be rolled back to a common block.
+ */
+export interface IndexerState {
+    lastBlock: number;
+    checkpoints: BlockCheckpoint[];
+    collections: IndexedCollection[];
+    /** Timeline entries per `timelineKey`, oldest first. */
+    timelines: Record<string, TimelineEntry[]>;
+}
+
+export function timelineKey(collection: string, tokenId: bigint | number | string): string {
+    return `${collection.toLowerCase()}:${tokenId.toString()}`;
+}
+
+export interface IndexerStore {
+    load(): Promise<IndexerState | undefined>;
+    save(state: IndexerState): Promise<void>;
+}
+
+/**
+ * @notice Keeps the index in process memory. Intended for tests and local development.
+ */
+export class InMemoryIndexerStore implements IndexerStore {
+    private state?: string;
+
+    async load(): Promise<IndexerState | undefined> {
+        return this.state === undefined ? undefined : JSON.parse(this.state);
+    }
+
+    async save(state: IndexerState): Promise<void> {
+        this.state = JSON.stringify(state);
+    }
+}
+
+/**
+ * @notice Persists the index as a JSON file on disk, rewritten atomically after every poll.
+ */
+export class FileIndexerStore implements IndexerStore {
+    constructor(private readonly path: string) {}
+
+    async load(): Promise<IndexerState | undefined> {
+        return readJson<IndexerState | undefined>(this.path, undefined);
+    }
+
+    async save(state: IndexerState): Promise<void> {
+        await writeJsonAtomic(this.path, state);
+    }
+}
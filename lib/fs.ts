@@ -0,0 +1,25 @@
+import { promises as fs } from "fs";
+import { dirname } from "path";
+
+/**
+ * @notice Reads and parses a JSON file, returning `fallback` when the file does not exist yet.
+ */
+export async function readJson<T>(path: string, fallback: T): Promise<T> {
+    try {
+        return JSON.parse(await fs.readFile(path, "utf8"));
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") return fallback;
+        throw error;
+    }
+}
+
+/**
+ * @notice Writes `value` as JSON through a temporary file and a rename, so readers never see a partial file.
+ * @dev Creates the parent directory when it is missing.
+ */
+export async function writeJsonAtomic(path: string, value: unknown): Promise<void> {
+    await fs.mkdir(dirname(path), { recursive: true });
+    const tmp = `${path}.tmp`;
+    await fs.writeFile(tmp, JSON.stringify(value, null, 2));
+    await fs.rename(tmp, path);
+}
@@ -0,0 +1,2 @@
+export * from "./relayer";
+export * from "./server";
@@ -0,0 +1,45 @@
+import "dotenv/config";
+import { JsonRpcProvider, Wallet } from "ethers";
+import { loadManifest, manifestCollections } from "../sdk";
+import { Relayer } from "./relayer";
+import { createRelayServer } from "./server";
+
+// --- Configuration (from the environment / .env file) ---
+// RELAYER_RPC_URL      JSON-RPC endpoint, defaults to a local `npx hardhat node`
+// RELAYER_KEY          Private key of the account paying for relayed transactions
+// HASHROUTE_MANIFEST   Deployment manifest (deployments/<network>.json) supplying COLLECTIONS when unset
+// COLLECTIONS          Comma-separated Shipment collection addresses to relay for
+// RELAYER_PORT         HTTP port to listen on
+// MIN_VALIDITY_SECONDS Reject requests expiring sooner than this
+
+// Falls back to the value from the deployment manifest, if one is configured
+function requireEnv(name: string, fallback?: string): string {
+    const value = process.env[name] || fallback;
+    if (!value) throw new Error(`Missing environment variable: ${name}`);
+    return value;
+}
+
+async function main() {
+    const manifest = process.env.HASHROUTE_MANIFEST ? await loadManifest(process.env.HASHROUTE_MANIFEST) : undefined;
+    const provider = new JsonRpcProvider(process.env.RELAYER_RPC_URL ?? "http://127.0.0.1:8545");
+    const signer = new Wallet(requireEnv("RELAYER_KEY"), provider);
+    const collections = requireEnv("COLLECTIONS", manifest && manifestCollections(manifest).join(",")).split(",").map((address) => address.trim());
+
+    const relayer = new Relayer({
+        signer,
+        collections,
+        minValiditySeconds: Number(process.env.MIN_VALIDITY_SECONDS ?? 30),
+    });
+
+    const port = Number(process.env.RELAYER_PORT ?? 8080);
+    const server = createRelayServer(relayer, signer.address);
+    process.on("SIGINT", () => server.close());
+    process.on("SIGTERM", () => server.close());
+
+    server.listen(port, () => console.log(`Relayer ${signer.address} listening on :${port} for ${collections.join(",")}`));
+}
+
+main().catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+});
@@ -0,0 +1,128 @@
+import { Signer, TypedDataDomain, getAddress, isAddress } from "ethers";
+import { HashRouteError, ShipmentClient, SignedRequest, Status, TxResult, recoverRequestSigner } from "../sdk";
+
+export type RejectionCode =
+    | "UNKNOWN_COLLECTION"
+    | "EXPIRED"
+    | "BAD_SIGNATURE"
+    | "STALE_NONCE"
+    | "NOT_AUTHORIZED"
+    | "WOULD_REVERT";
+
+/**
+ * @notice A signed request the relayer refuses to forward. Nothing was sent on-chain.
+ */
+export class RelayRejectedError extends Error {
+    constructor(
+        public readonly code: RejectionCode,
+        message: string
+    ) {
+        super(message);
+        this.name = new.target.name;
+    }
+}
+
+export interface RelayerOptions {
+    /** Pays the gas for every forwarded request. */
+    signer: Signer;
+    /** Shipment collections the relayer is willing to pay for. */
+    collections: string[];
+    /** Requests expiring sooner than this are rejected, so they cannot lapse while in the mempool. */
+    minValiditySeconds?: number;
+    log?: (message: string) => void;
+}
+
+/**
+ * @title Relayer
+ * @notice Forwards custodians' EIP-712 signed requests through `ShipmentFactory`, paying the gas for them.
+ * @dev Every request is checked off-chain first (signature, nonce, expiry, custody) and then
+ * dry-run, so the relayer never spends gas on a transaction that would revert.
+ */
+export class Relayer {
+    private readonly collections: Map<string, ShipmentClient>;
+    private readonly domains = new Map<string, TypedDataDomain>();
+    private readonly minValiditySeconds: number;
+    private readonly log: (message: string) => void;
+
+    constructor(private readonly options: RelayerOptions) {
+        this.collections = new Map(
+            options.collections.map((address) => [address.toLowerCase(), new ShipmentClient(address, options.signer)])
+        );
+        this.minValiditySeconds = options.minValiditySeconds ?? 30;
+        this.log = options.log ?? ((message) => console.log(`[relayer] ${message}`));
+    }
+
+    /**
+     * @notice Throws a `RelayRejectedError` unless the request would succeed if submitted now.
+     */
+    async validate(request: SignedRequest): Promise<void> {
+        const client = this.collections.get(request.collection.toLowerCase());
+        if (client === undefined) {
+            throw new RelayRejectedError("UNKNOWN_COLLECTION", `Collection ${request.collection} is not served by this relayer`);
+        }
+        if (!isAddress(request.signer)) {
+            throw new RelayRejectedError("BAD_SIGNATURE", `Signer ${request.signer} is not an address`);
+        }
+
+        const latest = await this.options.signer.provider!.getBlock("latest");
+        if (request.deadline < BigInt(latest!.timestamp + this.minValiditySeconds)) {
+            throw new RelayRejectedError("EXPIRED", "Request has expired or expires too soon to relay");
+        }
+
+        let recovered: string;
+        try {
+            recovered = recoverRequestSigner(await this.domainOf(client), request);
+        } catch {
+            throw new RelayRejectedError("BAD_SIGNATURE", "Signature is malformed");
+        }
+        if (recovered !== getAddress(request.signer)) {
+            throw new RelayRejectedError("BAD_SIGNATURE", `Request was not signed by ${request.signer}`);
+        }
+
+        const nonce = await client.nonces(request.signer);
+        if (request.nonce !== nonce) {
+            throw new RelayRejectedError("STALE_NONCE", `Expected nonce ${nonce}, got ${request.nonce}`);
+        }
+
+        await this.assertAuthorized(client, request);
+
+        try {
+            await client.simulateSigned(request);
+        } catch (error) {
+            if (!(error instanceof HashRouteError)) throw error;
+            throw new RelayRejectedError("WOULD_REVERT", error.reason);
+        }
+    }
+
+    /**
+     * @notice Validates and submits a request.
+     */
+    async relay(request: SignedRequest): Promise<TxResult> {
+        await this.validate(request);
+        const client = this.collections.get(request.collection.toLowerCase())!;
+        const result = await client.submitSigned(request);
+        this.log(`${request.collection}#${request.tokenId}: relayed ${request.action} for ${request.signer} in ${result.receipt.hash}`);
+        return result;
+    }
+
+    // Mirrors the contract's onlyOwnerOf and pending-custodian checks for a clearer rejection.
+    private async assertAuthorized(client: ShipmentClient, request: SignedRequest): Promise<void> {
+        const signer = getAddress(request.signer);
+        if (request.action === "requestVerification") {
+            const details = await client.getDetails(request.tokenId);
+            if (details.status !== Status.InTransit || details.pendingCustodian !== signer) {
+                throw new RelayRejectedError("NOT_AUTHORIZED", `${signer} is not the pending custodian of this shipment`);
+            }
+            return;
+        }
+        if ((await client.ownerOf(request.tokenId)) !== signer) {
+            throw new RelayRejectedError("NOT_AUTHORIZED", `${signer} does not hold this shipment`);
+        }
+    }
+
+    private async domainOf(client: ShipmentClient): Promise<TypedDataDomain> {
+        const key = (await client.contract.getAddress()).toLowerCase();
+        if (!this.domains.has(key)) this.domains.set(key, await client.domain());
+        return this.domains.get(key)!;
+    }
+}
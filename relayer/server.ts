@@ -0,0 +1,93 @@
+import { IncomingMessage, Server, ServerResponse, createServer } from "node:http";
+import { isAddress } from "ethers";
+import { HashRouteError, SignedRequest } from "../sdk";
+import { RelayRejectedError, Relayer } from "./relayer";
+
+const MAX_BODY_BYTES = 16 * 1024;
+
+/**
+ * @notice Parses the JSON body of `POST /relay`. Integers may be sent as decimal strings or numbers.
+ */
+export function parseSignedRequest(body: unknown): SignedRequest {
+    const input = body as Record<string, unknown>;
+    const text = (field: string): string => {
+        if (typeof input?.[field] !== "string") throw new Error(`Field "${field}" must be a string`);
+        return input[field] as string;
+    };
+    const address = (field: string): string => {
+        const value = text(field);
+        if (!isAddress(value)) throw new Error(`Field "${field}" must be an address`);
+        return value;
+    };
+    const integer = (field: string): bigint => {
+        const value = input?.[field];
+        if (typeof value !== "string" && typeof value !== "number") throw new Error(`Field "${field}" must be an integer`);
+        return BigInt(value);
+    };
+
+    const base = {
+        collection: address("collection"),
+        tokenId: integer("tokenId"),
+        signer: address("signer"),
+        nonce: integer("nonce"),
+        deadline: integer("deadline"),
+        signature: text("signature"),
+    };
+    switch (input?.action) {
+        case "initiateHandover":
+            return { action: "initiateHandover", ...base };
+        case "requestVerification":
+            return { action: "requestVerification", ...base, custodianProofHash: text("custodianProofHash") };
+        case "requestReroute":
+            return { action: "requestReroute", ...base, reason: text("reason") };
+        default:
+            throw new Error(`Unsupported action: ${String(input?.action)}`);
+    }
+}
+
+async function readJson(req: IncomingMessage): Promise<unknown> {
+    let body = "";
+    for await (const chunk of req) {
+        body += chunk;
+        if (body.length > MAX_BODY_BYTES) throw new Error("Request body too large");
+    }
+    return JSON.parse(body);
+}
+
+function reply(res: ServerResponse, status: number, payload: object): void {
+    res.writeHead(status, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(payload));
+}
+
+/**
+ * @notice HTTP front end for a `Relayer`.
+ * @dev `POST /relay` takes a signed request and answers 200 `{ txHash }`, or 400/422 `{ error, code }`
+ * when the request is malformed or rejected. `GET /health` reports the relayer's own address.
+ */
+export function createRelayServer(relayer: Relayer, relayerAddress: string): Server {
+    return createServer(async (req, res) => {
+        if (req.method === "GET" && req.url === "/health") {
+            return reply(res, 200, { ok: true, relayer: relayerAddress });
+        }
+        if (req.method !== "POST" || req.url !== "/relay") {
+            return reply(res, 404, { error: "Not found" });
+        }
+
+        let request: SignedRequest;
+        try {
+            request = parseSignedRequest(await readJson(req));
+        } catch (error) {
+            return reply(res, 400, { error: (error as Error).message, code: "MALFORMED_REQUEST" });
+        }
+
+        try {
+            const result = await relayer.relay(request);
+            reply(res, 200, { txHash: result.receipt.hash });
+        } catch (error) {
+            if (error instanceof RelayRejectedError || error instanceof HashRouteError) {
+                return reply(res, 422, { error: error.message, code: error.code });
+            }
+            reply(res, 500, { error: (error as Error).message, code: "INTERNAL" });
+        }
+    });
+}
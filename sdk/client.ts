@@ -0,0 +1,710 @@
+import { BytesLike, ContractRunner, ContractTransactionReceipt, ContractTransactionResponse, TypedDataDomain, ZeroAddress } from "ethers";
+import {
+    ConditionMonitor,
+    ConditionMonitor__factory,
+    IERC20__factory,
+    OracleRegistry,
+    OracleRegistry__factory,
+    Shipment,
+    ShipmentFactory,
+    ShipmentFactory__factory,
+    ShipmentLens,
+    ShipmentLens__factory,
+    Shipment__factory,
+} from "../typechain-types";
+import {
+    decodeBreach,
+    decodeDetails,
+    decodeDispute,
+    decodeReadingsBatch,
+    decodeRouteProposal,
+    decodeShipmentEvents,
+    decodeSplit,
+    decodeStatusChange,
+    decodeSummary,
+    decodeThresholds,
+} from "./decode";
+import { withTypedErrors } from "./errors";
+import { SignedRequest, shipmentDomain, signedCall } from "./signing";
+import { monitorDomain } from "./telemetry";
+import {
+    AgentInfo,
+    AgentType,
+    ArbitrationSettings,
+    CompletedTokenPolicy,
+    ConditionBreach,
+    ConditionThresholds,
+    CreateShipmentParams,
+    DisputeRecord,
+    DisputeSplit,
+    EscrowBreakdown,
+    Party,
+    ReadingsBatch,
+    RouteProposal,
+    ShipmentDetails,
+    ShipmentEvent,
+    ShipmentPage,
+    ShipmentSummary,
+    SignedReading,
+    StatusChange,
+} from "./types";
+
+/**
+ * @notice Addresses of the singleton HashRoute contracts on a network.
+ */
+export interface HashRouteAddresses {
+    factory: string;
+    oracleRegistry: string;
+    /** The `ShipmentLens`; only needed for the summary and per-address listing methods. */
+    lens?: string;
+    /** The `ConditionMonitor`; only needed for the condition monitoring methods. */
+    conditionMonitor?: string;
+}
+
+/**
+ * @notice The receipt of a mined transaction plus the Shipment events it emitted.
+ */
+export interface TxResult {
+    receipt: ContractTransactionReceipt;
+    events: ShipmentEvent[];
+}
+
+async function send(tx: () => Promise<ContractTransactionResponse>): Promise<TxResult> {
+    return withTypedErrors(async () => {
+        const response = await tx();
+        const receipt = (await response.wait())!;
+        return { receipt, events: decodeShipmentEvents(receipt.logs) };
+    });
+}
+
+/**
+ * @notice Typed wrapper around a single Shipment collection contract.
+ */
+export class ShipmentClient {
+    public readonly contract: Shipment;
+
+    constructor(address: string, runner: ContractRunner) {
+        this.contract = Shipment__factory.connect(address, runner);
+    }
+
+    // The factory that mints in this collection and verifies its signed requests
+    private async factory(): Promise<ShipmentFactory> {
+        return ShipmentFactory__factory.connect(await this.contract.factoryAddress(), this.contract.runner);
+    }
+
+    async getDetails(tokenId: bigint | number): Promise<ShipmentDetails> {
+        return withTypedErrors(async () => decodeDetails(await this.contract.shipmentDetails(tokenId)));
+    }
+
+    /**
+     * @notice Every status the shipment has been in, oldest first, starting with Created at mint.
+     */
+    async getStatusHistory(tokenId: bigint | number): Promise<StatusChange[]> {
+        return withTypedErrors(async () => (await this.contract.getStatusHistory(tokenId)).map(decodeStatusChange));
+    }
+
+    async getLegKeyHashes(tokenId: bigint | number): Promise<string[]> {
+        return withTypedErrors(() => this.contract.getLegKeyHashes(tokenId));
+    }
+
+    async currentLegKeyHash(tokenId: bigint | number): Promise<string> {
+        return withTypedErrors(() => this.contract.currentLegKeyHash(tokenId));
+    }
+
+    async getLegFees(tokenId: bigint | number): Promise<bigint[]> {
+        return withTypedErrors(() => this.contract.getLegFees(tokenId));
+    }
+
+    /**
+     * @notice Splits the shipment's remaining escrow into unpaid leg fees and the shipper's remainder.
+     */
+    async getEscrow(tokenId: bigint | number): Promise<EscrowBreakdown> {
+        return withTypedErrors(async () => {
+            const { paymentToken, paymentAmount } = await this.contract.shipmentDetails(tokenId);
+            const unreleasedLegFees = await this.contract.unreleasedLegFees(tokenId);
+            return { paymentToken, paymentAmount, unreleasedLegFees, remainder: paymentAmount - unreleasedLegFees };
+        });
+    }
+
+    /**
+     * @notice Fees released to `custodian` in one escrow asset; `paymentToken` defaults to native HBAR.
+     */
+    async claimableFees(custodian: string, paymentToken: string = ZeroAddress): Promise<bigint> {
+        return withTypedErrors(() => this.contract.claimableFees(custodian, paymentToken));
+    }
+
+    claimFees(paymentToken: string = ZeroAddress): Promise<TxResult> {
+        return send(() => this.contract.claimFees(paymentToken));
+    }
+
+    async isPaymentTokenAllowed(paymentToken: string): Promise<boolean> {
+        return withTypedErrors(() => this.contract.isPaymentTokenAllowed(paymentToken));
+    }
+
+    setPaymentTokenAllowed(paymentToken: string, allowed: boolean): Promise<TxResult> {
+        return send(() => this.contract.setPaymentTokenAllowed(paymentToken, allowed));
+    }
+
+    async completedTokenPolicy(): Promise<CompletedTokenPolicy> {
+        return withTypedErrors(async () => Number(await this.contract.completedTokenPolicy()) as CompletedTokenPolicy);
+    }
+
+    setCompletedTokenPolicy(policy: CompletedTokenPolicy): Promise<TxResult> {
+        return send(() => this.contract.setCompletedTokenPolicy(policy));
+    }
+
+    async isApprovedOperator(operator: string): Promise<boolean> {
+        return withTypedErrors(() => this.contract.isApprovedOperator(operator));
+    }
+
+    setApprovedOperator(operator: string, allowed: boolean): Promise<TxResult> {
+        return send(() => this.contract.setApprovedOperator(operator, allowed));
+    }
+
+    /**
+     * @notice Burns a completed shipment's NFT; only allowed while the collection's policy is `Burnable`.
+     */
+    burn(tokenId: bigint | number): Promise<TxResult> {
+        return send(() => this.contract.burn(tokenId));
+    }
+
+    async getLegDeadlines(tokenId: bigint | number): Promise<bigint[]> {
+        return withTypedErrors(() => this.contract.getLegDeadlines(tokenId));
+    }
+
+    async isOverdue(tokenId: bigint | number): Promise<boolean> {
+        return withTypedErrors(() => this.contract.isOverdue(tokenId));
+    }
+
+    claimTimeoutRefund(tokenId: bigint | number): Promise<TxResult> {
+        return send(() => this.contract.claimTimeoutRefund(tokenId));
+    }
+
+    escalateTimeout(tokenId: bigint | number): Promise<TxResult> {
+        return send(() => this.contract.escalateTimeout(tokenId));
+    }
+
+    /**
+     * @notice Cancels the shipment and refunds the remaining escrow to the shipper.
+     * @dev Once the first handover has been initiated, the recipient must `approveCancellation` first.
+     * The receipt's events include `ShipmentCancelled` with the refunded amount.
+     */
+    cancelShipment(tokenId: bigint | number): Promise<TxResult> {
+        return send(() => this.contract.cancelShipment(tokenId));
+    }
+
+    /**
+     * @notice Agrees, as the recipient, to the shipper cancelling a shipment that has been picked up.
+     * @dev The approval only holds until the shipment's status next changes.
+     */
+    approveCancellation(tokenId: bigint | number): Promise<TxResult> {
+        return send(() => this.contract.approveCancellation(tokenId));
+    }
+
+    async cancellationApproved(tokenId: bigint | number): Promise<boolean> {
+        return withTypedErrors(() => this.contract.cancellationApproved(tokenId));
+    }
+
+    async ownerOf(tokenId: bigint | number): Promise<string> {
+        return withTypedErrors(() => this.contract.ownerOf(tokenId));
+    }
+
+    initiateHandover(tokenId: bigint | number): Promise<TxResult> {
+        return send(() => this.contract.initiateHandover(tokenId));
+    }
+
+    requestVerification(tokenId: bigint | number, custodianProofHash: BytesLike): Promise<TxResult> {
+        return send(() => this.contract.requestVerification(tokenId, custodianProofHash));
+    }
+
+    /**
+     * @notice Reveals the current leg's secret so the contract checks it against the commitment.
+     */
+    requestVerificationWithSecret(tokenId: bigint | number, legSecret: BytesLike): Promise<TxResult> {
+        return send(() => this.contract.requestVerificationWithSecret(tokenId, legSecret));
+    }
+
+    /**
+     * @notice Whether `agent` has already approved `data` (an encoded agent call) for the token's current state.
+     * @dev Lets agents skip actions that are only waiting for the rest of the quorum.
+     */
+    async hasApproved(tokenId: bigint | number, data: BytesLike, agent: string): Promise<boolean> {
+        return withTypedErrors(async () => this.contract.hasApproved(await this.contract.quorumActionHash(tokenId, data), agent));
+    }
+
+    async approvalCount(tokenId: bigint | number, data: BytesLike): Promise<bigint> {
+        return withTypedErrors(async () => this.contract.approvalCount(await this.contract.quorumActionHash(tokenId, data)));
+    }
+
+    /**
+     * @notice The EIP-712 domain to sign custodian requests for this collection against: that of its factory.
+     */
+    async domain(): Promise<TypedDataDomain> {
+        return withTypedErrors(async () => shipmentDomain(await this.factory()));
+    }
+
+    /**
+     * @notice The nonce the next signed request from `account` must carry. Nonces are kept by the factory,
+     * so one sequence covers every collection.
+     */
+    async nonces(account: string): Promise<bigint> {
+        return withTypedErrors(async () => (await this.factory()).nonces(account));
+    }
+
+    /**
+     * @notice Submits a custodian's signed request through the factory, paying the gas from this client's signer.
+     */
+    async submitSigned(request: SignedRequest): Promise<TxResult> {
+        const [method, args] = signedCall(request);
+        const factory = await this.factory();
+        return send(() => factory.getFunction(method)(...args));
+    }
+
+    /**
+     * @notice Dry-runs a signed request against the latest block; throws the typed revert it would hit.
+     */
+    async simulateSigned(request: SignedRequest): Promise<void> {
+        const [method, args] = signedCall(request);
+        await withTypedErrors(async () => (await this.factory()).getFunction(method).staticCall(...args));
+    }
+
+    confirmVerification(tokenId: bigint | number, receivingCustodian: string): Promise<TxResult> {
+        return send(() => this.contract.confirmVerification(tokenId, receivingCustodian));
+    }
+
+    flagShipment(tokenId: bigint | number, reason: string): Promise<TxResult> {
+        return send(() => this.contract.flagShipment(tokenId, reason));
+    }
+
+    finalizeAndPay(tokenId: bigint | number): Promise<TxResult> {
+        return send(() => this.contract.finalizeAndPay(tokenId));
+    }
+
+    /**
+     * @notice Asks the Routing Agent for a new route as the shipment's owner, before a handover or
+     * while one is in transit. A handover in transit is called off.
+     */
+    requestReroute(tokenId: bigint | number, reason: string): Promise<TxResult> {
+        return send(() => this.contract.requestReroute(tokenId, reason));
+    }
+
+    /**
+     * @notice Withdraws a reroute request as the custodian or shipper, returning the shipment to
+     * `Created` on its current route and discarding any pending proposal.
+     */
+    withdrawRerouteRequest(tokenId: bigint | number): Promise<TxResult> {
+        return send(() => this.contract.withdrawRerouteRequest(tokenId));
+    }
+
+    /**
+     * @notice Proposes a new route from the current custodian onwards, with new commitments, fees
+     * and deadlines for those legs. `newLegDeadlines` defaults to no deadlines.
+     * @dev Routing agents only. The route takes effect once the shipper, and the recipient if the final
+     * destination changes, accept it within the collection's `routeAcceptanceWindow`.
+     */
+    proposeReroute(
+        tokenId: bigint | number,
+        newRoute: string[],
+        newLegKeyHashes: string[],
+        newLegFees: bigint[],
+        newLegDeadlines: bigint[] = newLegKeyHashes.map(() => 0n)
+    ): Promise<TxResult> {
+        return send(() => this.contract.proposeReroute(tokenId, newRoute, newLegKeyHashes, newLegFees, newLegDeadlines));
+    }
+
+    /**
+     * @notice Accepts the pending route proposal as the shipper or recipient.
+     * @dev The receipt's events include `RouteUpdated` once the last required party has accepted.
+     */
+    acceptReroute(tokenId: bigint | number): Promise<TxResult> {
+        return send(() => this.contract.acceptReroute(tokenId));
+    }
+
+    /**
+     * @notice The route proposal awaiting acceptance, or `undefined` if there is none or it has expired.
+     */
+    async getRouteProposal(tokenId: bigint | number): Promise<RouteProposal | undefined> {
+        return withTypedErrors(async () => {
+            const proposal = decodeRouteProposal(await this.contract.getRouteProposal(tokenId));
+            const { timestamp } = (await this.contract.runner!.provider!.getBlock("latest"))!;
+            return proposal.expiresAt >= BigInt(timestamp) ? proposal : undefined;
+        });
+    }
+
+    /**
+     * @notice Every route the shipment has followed, oldest first; the last one is the current route.
+     */
+    async getRouteHistory(tokenId: bigint | number): Promise<string[][]> {
+        return withTypedErrors(async () => (await this.contract.getRouteHistory(tokenId)).map((route) => [...route]));
+    }
+
+    async routeAcceptanceWindow(): Promise<bigint> {
+        return withTypedErrors(() => this.contract.routeAcceptanceWindow());
+    }
+
+    setRouteAcceptanceWindow(seconds: bigint): Promise<TxResult> {
+        return send(() => this.contract.setRouteAcceptanceWindow(seconds));
+    }
+
+    disputeShipment(tokenId: bigint | number, reason: string): Promise<TxResult> {
+        return send(() => this.contract.disputeShipment(tokenId, reason));
+    }
+
+    /**
+     * @notice Attaches evidence to the open dispute; pass `ZeroHash` or `""` for whichever part is not available.
+     */
+    submitEvidence(tokenId: bigint | number, uri: string, contentHash: BytesLike): Promise<TxResult> {
+        return send(() => this.contract.submitEvidence(tokenId, uri, contentHash));
+    }
+
+    resolveDispute(tokenId: bigint | number, split: DisputeSplit): Promise<TxResult> {
+        return send(() => this.contract.resolveDispute(tokenId, split));
+    }
+
+    settleExpiredDispute(tokenId: bigint | number): Promise<TxResult> {
+        return send(() => this.contract.settleExpiredDispute(tokenId));
+    }
+
+    /**
+     * @notice Every dispute raised for the shipment, oldest first, with its evidence and verdict.
+     */
+    async getDisputes(tokenId: bigint | number): Promise<DisputeRecord[]> {
+        return withTypedErrors(async () => (await this.contract.getDisputes(tokenId)).map(decodeDispute));
+    }
+
+    async getArbitrationSettings(): Promise<ArbitrationSettings> {
+        return withTypedErrors(async () => ({
+            arbitrationPeriod: await this.contract.arbitrationPeriod(),
+            defaultSplit: decodeSplit(await this.contract.defaultSplit()),
+        }));
+    }
+
+    setArbitrationSettings(arbitrationPeriod: bigint, defaultSplit: DisputeSplit): Promise<TxResult> {
+        return send(() => this.contract.setArbitrationSettings(arbitrationPeriod, defaultSplit));
+    }
+
+    /**
+     * @notice Fetches and decodes this collection's Shipment events, optionally for one token.
+     * @dev Collection-wide events such as `FeesClaimed` are dropped when filtering by token.
+     */
+    async queryEvents(tokenId?: bigint | number, fromBlock: number = 0, toBlock: number | "latest" = "latest"): Promise<ShipmentEvent[]> {
+        const logs = await this.contract.runner!.provider!.getLogs({
+            address: await this.contract.getAddress(),
+            fromBlock,
+            toBlock,
+        });
+        const events = decodeShipmentEvents(logs);
+        return tokenId === undefined
+            ? events
+            : events.filter((e) => "tokenId" in e.args && e.args.tokenId === BigInt(tokenId));
+    }
+}
+
+/**
+ * @notice Entry point of the SDK: wraps the ShipmentFactory and OracleRegistry and
+ * hands out `ShipmentClient`s for individual collections.
+ */
+export class HashRouteClient {
+    public readonly factory: ShipmentFactory;
+    public readonly oracleRegistry: OracleRegistry;
+    public readonly lens?: ShipmentLens;
+    public readonly conditionMonitor?: ConditionMonitor;
+
+    constructor(addresses: HashRouteAddresses, private readonly runner: ContractRunner) {
+        this.factory = ShipmentFactory__factory.connect(addresses.factory, runner);
+        this.oracleRegistry = OracleRegistry__factory.connect(addresses.oracleRegistry, runner);
+        if (addresses.lens) {
+            this.lens = ShipmentLens__factory.connect(addresses.lens, runner);
+        }
+        if (addresses.conditionMonitor) {
+            this.conditionMonitor = ConditionMonitor__factory.connect(addresses.conditionMonitor, runner);
+        }
+    }
+
+    collection(address: string): ShipmentClient {
+        return new ShipmentClient(address, this.runner);
+    }
+
+    /**
+     * @notice Creates a shipment, escrowing `paymentAmount` as the transaction value, or pulling
+     * it from the caller when `paymentToken` is set. With `monitoring`, its condition thresholds and
+     * devices are declared in the same transaction.
+     * @return The new token ID alongside the transaction result.
+     */
+    async createShipment(params: CreateShipmentParams): Promise<TxResult & { tokenId: bigint }> {
+        const paymentToken = params.paymentToken ?? ZeroAddress;
+        const args = [
+            params.collection,
+            params.recipient,
+            params.cargoDetails,
+            params.plannedRoute,
+            paymentToken,
+            params.paymentAmount,
+            params.legKeyHashes,
+            params.legFees,
+            params.legDeadlines ?? params.legKeyHashes.map(() => 0n),
+            params.deliveryDeadline ?? 0n,
+            params.latePenaltyBps ?? 0n,
+        ] as const;
+        const overrides = { value: paymentToken === ZeroAddress ? params.paymentAmount : 0n };
+        const monitoring = params.monitoring;
+        return withTypedErrors(async () => {
+            const result = await send(() =>
+                monitoring
+                    ? this.factory.createMonitoredShipment(...args, monitoring.thresholds, monitoring.devices, overrides)
+                    : this.factory.createShipment(...args, overrides)
+            );
+            const created = result.receipt.logs
+                .map((log) => this.factory.interface.parseLog(log))
+                .find((parsed) => parsed?.name === "ShipmentCreated");
+            return { ...result, tokenId: created!.args.tokenId as bigint };
+        });
+    }
+
+    /**
+     * @notice Deploys a new collection as a clone of the factory's Shipment implementation and registers it.
+     * Only the factory owner can call this; they also become the collection's owner.
+     * @return The new collection's address alongside the transaction result.
+     */
+    async createCollection(name: string, symbol: string, oracleRegistry?: string): Promise<TxResult & { collection: string }> {
+        return withTypedErrors(async () => {
+            const registry = oracleRegistry ?? (await this.oracleRegistry.getAddress());
+            const result = await send(() => this.factory.createCollection(name, symbol, registry));
+            const created = result.receipt.logs
+                .map((log) => this.factory.interface.parseLog(log))
+                .find((parsed) => parsed?.name === "ShipmentCollectionCreated");
+            return { ...result, collection: created!.args.collectionAddress as string };
+        });
+    }
+
+    /**
+     * @notice Every collection ever registered with the factory, including deregistered ones.
+     */
+    async listCollections(): Promise<string[]> {
+        return withTypedErrors(async () => [...(await this.factory.listCollections())]);
+    }
+
+    /**
+     * @notice Approves the factory to pull `amount` of `paymentToken` for a token-escrowed `createShipment`.
+     */
+    async approvePaymentToken(paymentToken: string, amount: bigint): Promise<TxResult> {
+        const token = IERC20__factory.connect(paymentToken, this.runner);
+        return send(async () => token.approve(await this.factory.getAddress(), amount));
+    }
+
+    /**
+     * @notice The route a shipment currently follows, from the shipper to the final destination.
+     */
+    async getRoute(collection: string, tokenId: bigint | number): Promise<string[]> {
+        return withTypedErrors(async () => [...(await this.requireLens().getRoute(collection, tokenId))]);
+    }
+
+    /**
+     * @notice Who holds a shipment now and who is due to receive it next (`ZeroAddress` if nobody).
+     */
+    async getCustodians(collection: string, tokenId: bigint | number): Promise<{ current: string; next: string }> {
+        return withTypedErrors(async () => {
+            const { current, next } = await this.requireLens().getCustodians(collection, tokenId);
+            return { current, next };
+        });
+    }
+
+    async getSummary(collection: string, tokenId: bigint | number): Promise<ShipmentSummary> {
+        return withTypedErrors(async () => decodeSummary(await this.requireLens().getSummary(collection, tokenId)));
+    }
+
+    async getSummaries(collection: string, tokenIds: (bigint | number)[]): Promise<ShipmentSummary[]> {
+        return withTypedErrors(async () => (await this.requireLens().getSummaries(collection, tokenIds)).map(decodeSummary));
+    }
+
+    /**
+     * @notice Scans up to `limit` token IDs from `cursor` for shipments `account` ships, receives or holds.
+     * @dev Pass the returned `nextCursor` back in to continue; a page can be empty before the scan reaches
+     * `shipmentCount`. See `allShipmentsOf` to read the whole list.
+     */
+    async shipmentsOf(collection: string, party: Party, account: string, cursor: bigint = 0n, limit: bigint = 100n): Promise<ShipmentPage> {
+        return withTypedErrors(async () => {
+            const { tokenIds, nextCursor } = await this.requireLens().shipmentsOf(collection, party, account, cursor, limit);
+            return { tokenIds: [...tokenIds], nextCursor };
+        });
+    }
+
+    /**
+     * @notice Every shipment `account` ships, receives or holds in a collection, read `pageSize` token IDs per call.
+     * @dev Shipments created after the scan starts are not included.
+     */
+    async allShipmentsOf(collection: string, party: Party, account: string, pageSize: bigint = 100n): Promise<bigint[]> {
+        return withTypedErrors(async () => {
+            const lens = this.requireLens();
+            const count = await lens.shipmentCount(collection);
+            const tokenIds: bigint[] = [];
+            for (let cursor = 0n; cursor < count; ) {
+                const page = await lens.shipmentsOf(collection, party, account, cursor, pageSize);
+                tokenIds.push(...page.tokenIds);
+                cursor = page.nextCursor;
+            }
+            return tokenIds;
+        });
+    }
+
+    private requireLens(): ShipmentLens {
+        if (!this.lens) {
+            throw new Error("No ShipmentLens address configured");
+        }
+        return this.lens;
+    }
+
+    /**
+     * @notice Declares a new shipment's condition thresholds and the device keys that sign its readings.
+     * Only the shipper can call this, once, before the first handover; pass `monitoring` to
+     * `createShipment` to declare them at creation instead.
+     */
+    configureMonitoring(collection: string, tokenId: bigint | number, thresholds: ConditionThresholds, devices: string[]): Promise<TxResult> {
+        return send(() => this.requireMonitor().configure(collection, tokenId, thresholds, devices));
+    }
+
+    /**
+     * @notice Submits device-signed readings as the custodian, pending custodian or a fraud detection agent.
+     * The first out-of-range reading moves the shipment to Disputed.
+     * @return How many readings were recorded as new breaches, alongside the transaction result.
+     */
+    async submitReadings(collection: string, tokenId: bigint | number, readings: SignedReading[]): Promise<TxResult & { breaches: bigint }> {
+        return withTypedErrors(async () => {
+            const monitor = this.requireMonitor();
+            const result = await send(() => monitor.submitReadings(collection, tokenId, readings));
+            const submitted = result.receipt.logs
+                .map((log) => monitor.interface.parseLog(log))
+                .find((parsed) => parsed?.name === "ReadingsSubmitted");
+            return { ...result, breaches: submitted!.args.breaches as bigint };
+        });
+    }
+
+    /**
+     * @notice Commits a batch of readings kept off-chain by the root of its `ReadingsTree`.
+     * @return The batch index to prove breaches against, alongside the transaction result.
+     */
+    async submitReadingsRoot(
+        collection: string,
+        tokenId: bigint | number,
+        root: string,
+        count: number,
+        uri: string
+    ): Promise<TxResult & { batchIndex: bigint }> {
+        return withTypedErrors(async () => {
+            const monitor = this.requireMonitor();
+            const result = await send(() => monitor.submitReadingsRoot(collection, tokenId, root, count, uri));
+            const committed = result.receipt.logs
+                .map((log) => monitor.interface.parseLog(log))
+                .find((parsed) => parsed?.name === "ReadingsRootSubmitted");
+            return { ...result, batchIndex: committed!.args.batchIndex as bigint };
+        });
+    }
+
+    /**
+     * @notice Proves an out-of-range reading from a committed batch; anyone can call it.
+     * @param proof `ReadingsTree.proof` of the reading.
+     */
+    proveBreach(collection: string, tokenId: bigint | number, batchIndex: bigint, reading: SignedReading, proof: string[]): Promise<TxResult> {
+        return send(() => this.requireMonitor().proveBreach(collection, tokenId, batchIndex, reading, proof));
+    }
+
+    /**
+     * @notice A shipment's condition thresholds, or `undefined` if it is not monitored.
+     */
+    async getThresholds(collection: string, tokenId: bigint | number): Promise<ConditionThresholds | undefined> {
+        return withTypedErrors(async () => {
+            const monitor = this.requireMonitor();
+            if ((await monitor.monitoredSince(collection, tokenId)) === 0n) {
+                return undefined;
+            }
+            return decodeThresholds(await monitor.thresholds(collection, tokenId));
+        });
+    }
+
+    async getBreaches(collection: string, tokenId: bigint | number): Promise<ConditionBreach[]> {
+        return withTypedErrors(async () => (await this.requireMonitor().getBreaches(collection, tokenId)).map(decodeBreach));
+    }
+
+    async getReadingsBatches(collection: string, tokenId: bigint | number): Promise<ReadingsBatch[]> {
+        return withTypedErrors(async () => (await this.requireMonitor().getReadingsBatches(collection, tokenId)).map(decodeReadingsBatch));
+    }
+
+    /**
+     * @notice The EIP-712 domain devices sign readings against.
+     */
+    async monitorDomain(): Promise<TypedDataDomain> {
+        return withTypedErrors(() => monitorDomain(this.requireMonitor()));
+    }
+
+    private requireMonitor(): ConditionMonitor {
+        if (!this.conditionMonitor) {
+            throw new Error("No ConditionMonitor address configured");
+        }
+        return this.conditionMonitor;
+    }
+
+    registerAgent(agent: string, agentType: AgentType): Promise<TxResult> {
+        return send(() => this.oracleRegistry.registerAgent(agent, agentType));
+    }
+
+    revokeAgent(agent: string, agentType: AgentType): Promise<TxResult> {
+        return send(() => this.oracleRegistry.revokeAgent(agent, agentType));
+    }
+
+    async isAgent(agent: string, agentType: AgentType): Promise<boolean> {
+        return withTypedErrors(() => this.oracleRegistry.isAgent(agentType, agent));
+    }
+
+    /**
+     * @notice Whether the agent is registered and meets the type's minimum bond, i.e. its approvals count.
+     */
+    async isTrustedAgent(agent: string, agentType: AgentType): Promise<boolean> {
+        return withTypedErrors(() => this.oracleRegistry.isTrustedAgent(agentType, agent));
+    }
+
+    async getAgents(agentType: AgentType): Promise<AgentInfo[]> {
+        return withTypedErrors(async () =>
+            (await this.oracleRegistry.getAgents(agentType)).map((a) => ({ agent: a.agent, metadata: a.metadata, bond: a.bond, trusted: a.trusted }))
+        );
+    }
+
+    setAgentMetadata(agent: string, agentType: AgentType, metadata: string): Promise<TxResult> {
+        return send(() => this.oracleRegistry.setAgentMetadata(agent, agentType, metadata));
+    }
+
+    async quorum(agentType: AgentType): Promise<bigint> {
+        return withTypedErrors(() => this.oracleRegistry.quorum(agentType));
+    }
+
+    setThreshold(agentType: AgentType, threshold: bigint): Promise<TxResult> {
+        return send(() => this.oracleRegistry.setThreshold(agentType, threshold));
+    }
+
+    setMinimumBond(agentType: AgentType, minimumBond: bigint): Promise<TxResult> {
+        return send(() => this.oracleRegistry.setMinimumBond(agentType, minimumBond));
+    }
+
+    depositBond(agentType: AgentType, amount: bigint): Promise<TxResult> {
+        return send(() => this.oracleRegistry.depositBond(agentType, { value: amount }));
+    }
+
+    withdrawBond(agentType: AgentType, amount: bigint): Promise<TxResult> {
+        return send(() => this.oracleRegistry.withdrawBond(agentType, amount));
+    }
+
+    slashBond(agent: string, agentType: AgentType, amount: bigint, beneficiary: string): Promise<TxResult> {
+        return send(() => this.oracleRegistry.slashBond(agent, agentType, amount, beneficiary));
+    }
+
+    registerShipmentContract(collection: string): Promise<TxResult> {
+        return send(() => this.factory.registerShipmentContract(collection));
+    }
+
+    deregisterShipmentContract(collection: string): Promise<TxResult> {
+        return send(() => this.factory.deregisterShipmentContract(collection));
+    }
+
+    setShipmentImplementation(implementation: string): Promise<TxResult> {
+        return send(() => this.factory.setShipmentImplementation(implementation));
+    }
+}
@@ -0,0 +1,287 @@
+import { AbiCoder, Log } from "ethers";
+import { Shipment__factory } from "../typechain-types";
+import { ConditionMonitor } from "../typechain-types/contracts/ConditionMonitor";
+import { Shipment } from "../typechain-types/contracts/Shipment";
+import { ShipmentLens } from "../typechain-types/contracts/ShipmentLens";
+import {
+    CompletedTokenPolicy,
+    ConditionBreach,
+    ConditionThresholds,
+    DisputeRecord,
+    DisputeSplit,
+    ReadingsBatch,
+    RouteProposal,
+    ShipmentDetails,
+    ShipmentEvent,
+    ShipmentEventName,
+    ShipmentSummary,
+    Status,
+    StatusChange,
+} from "./types";
+
+const shipmentInterface = Shipment__factory.createInterface();
+
+const SHIPMENT_EVENTS: ReadonlySet<string> = new Set<ShipmentEventName>([
+    "ShipmentInitialized",
+    "StatusChanged",
+    "HandoverInitiated",
+    "VerificationRequested",
+    "ShipmentVerifiedAndReceived",
+    "RerouteRequested",
+    "RerouteWithdrawn",
+    "RouteProposed",
+    "RouteAccepted",
+    "RouteUpdated",
+    "ShipmentFlagged",
+    "DisputeRaised",
+    "EvidenceSubmitted",
+    "DisputeResolved",
+    "PaymentReleased",
+    "LegFeeReleased",
+    "FeesClaimed",
+    "TimeoutRefunded",
+    "CancellationApproved",
+    "ShipmentCancelled",
+    "PaymentTokenAllowed",
+    "AgentApprovalRecorded",
+    "ArbitrationSettingsUpdated",
+    "RouteAcceptanceWindowUpdated",
+    "CompletedTokenPolicyUpdated",
+    "ApprovedOperatorUpdated",
+]);
+
+/**
+ * @notice Converts the raw `shipmentDetails` getter result into a typed object.
+ */
+export function decodeDetails(raw: Awaited<ReturnType<Shipment["shipmentDetails"]>>): ShipmentDetails {
+    return {
+        shipper: raw.shipper,
+        recipient: raw.recipient,
+        status: Number(raw.status) as Status,
+        cargoDetails: raw.cargoDetails,
+        paymentToken: raw.paymentToken,
+        paymentAmount: raw.paymentAmount,
+        currentRouteIndex: raw.currentRouteIndex,
+        pendingCustodian: raw.pendingCustodian,
+        deliveryDeadline: raw.deliveryDeadline,
+        latePenaltyBps: raw.latePenaltyBps,
+    };
+}
+
+/**
+ * @notice Converts a raw `Split` tuple into a typed object.
+ */
+export function decodeSplit(raw: { shipperBps: bigint; recipientBps: bigint; custodianBps: bigint }): DisputeSplit {
+    return { shipperBps: raw.shipperBps, recipientBps: raw.recipientBps, custodianBps: raw.custodianBps };
+}
+
+/**
+ * @notice Converts one entry of the raw `getDisputes` result into a typed object.
+ */
+export function decodeDispute(raw: Awaited<ReturnType<Shipment["getDisputes"]>>[number]): DisputeRecord {
+    return {
+        raisedBy: raw.raisedBy,
+        raisedAt: raw.raisedAt,
+        reason: raw.reason,
+        custodian: raw.custodian,
+        arbitrationDeadline: raw.arbitrationDeadline,
+        defaultSplit: decodeSplit(raw.defaultSplit),
+        evidence: raw.evidence.map((e) => ({ submittedBy: e.submittedBy, submittedAt: e.submittedAt, uri: e.uri, contentHash: e.contentHash })),
+        resolved: raw.resolved,
+        resolvedBy: raw.resolvedBy,
+        resolvedAt: raw.resolvedAt,
+        verdict: decodeSplit(raw.verdict),
+    };
+}
+
+/**
+ * @notice Converts the raw `getRouteProposal` result into a typed object.
+ */
+export function decodeRouteProposal(raw: Awaited<ReturnType<Shipment["getRouteProposal"]>>): RouteProposal {
+    return {
+        route: [...raw.route],
+        legKeyHashes: [...raw.legKeyHashes],
+        legFees: [...raw.legFees],
+        legDeadlines: [...raw.legDeadlines],
+        expiresAt: raw.expiresAt,
+        recipientMustAccept: raw.recipientMustAccept,
+        shipperAccepted: raw.shipperAccepted,
+        recipientAccepted: raw.recipientAccepted,
+    };
+}
+
+/**
+ * @notice Converts a raw `ShipmentLens.getSummary` result into a typed object.
+ */
+export function decodeSummary(raw: Awaited<ReturnType<ShipmentLens["getSummary"]>>): ShipmentSummary {
+    return {
+        status: Number(raw.status) as Status,
+        shipper: raw.shipper,
+        recipient: raw.recipient,
+        custodian: raw.custodian,
+        nextCustodian: raw.nextCustodian,
+        currentRouteIndex: raw.currentRouteIndex,
+        routeLength: raw.routeLength,
+        paymentToken: raw.paymentToken,
+        paymentAmount: raw.paymentAmount,
+        deliveryDeadline: raw.deliveryDeadline,
+        overdue: raw.overdue,
+    };
+}
+
+/**
+ * @notice Converts one entry of the raw `getStatusHistory` result into a typed object.
+ */
+export function decodeStatusChange(raw: Awaited<ReturnType<Shipment["getStatusHistory"]>>[number]): StatusChange {
+    return { status: Number(raw.status) as Status, changedAt: raw.changedAt };
+}
+
+/**
+ * @notice Converts the raw `ConditionMonitor.thresholds` getter result into a typed object.
+ */
+export function decodeThresholds(raw: Awaited<ReturnType<ConditionMonitor["thresholds"]>>): ConditionThresholds {
+    return {
+        minTemperature: Number(raw.minTemperature),
+        maxTemperature: Number(raw.maxTemperature),
+        minHumidity: Number(raw.minHumidity),
+        maxHumidity: Number(raw.maxHumidity),
+        maxShock: Number(raw.maxShock),
+    };
+}
+
+/**
+ * @notice Converts one entry of the raw `ConditionMonitor.getBreaches` result into a typed object.
+ */
+export function decodeBreach(raw: Awaited<ReturnType<ConditionMonitor["getBreaches"]>>[number]): ConditionBreach {
+    return {
+        device: raw.device,
+        timestamp: Number(raw.timestamp),
+        temperature: Number(raw.temperature),
+        humidity: Number(raw.humidity),
+        shock: Number(raw.shock),
+        submittedBy: raw.submittedBy,
+        recordedAt: raw.recordedAt,
+    };
+}
+
+/**
+ * @notice Converts one entry of the raw `ConditionMonitor.getReadingsBatches` result into a typed object.
+ */
+export function decodeReadingsBatch(raw: Awaited<ReturnType<ConditionMonitor["getReadingsBatches"]>>[number]): ReadingsBatch {
+    return { root: raw.root, count: raw.count, submittedBy: raw.submittedBy, submittedAt: raw.submittedAt };
+}
+
+/**
+ * @notice Decodes a single log emitted by a Shipment collection.
+ * @return The typed event, or `undefined` if the log is not a Shipment workflow event.
+ */
+export function decodeShipmentEvent(log: Log): ShipmentEvent | undefined {
+    let parsed;
+    try {
+        parsed = shipmentInterface.parseLog({ topics: [...log.topics], data: log.data });
+    } catch {
+        return undefined;
+    }
+    if (!parsed || !SHIPMENT_EVENTS.has(parsed.name)) {
+        return undefined;
+    }
+
+    const a = parsed.args;
+    const meta = {
+        blockNumber: log.blockNumber,
+        transactionHash: log.transactionHash,
+        logIndex: log.index,
+    };
+
+    switch (parsed.name as ShipmentEventName) {
+        case "ShipmentInitialized":
+            return { name: "ShipmentInitialized", args: { tokenId: a.tokenId, shipper: a.shipper, recipient: a.recipient }, ...meta };
+        case "StatusChanged":
+            return { name: "StatusChanged", args: { tokenId: a.tokenId, from: Number(a.from) as Status, to: Number(a.to) as Status }, ...meta };
+        case "HandoverInitiated":
+            return { name: "HandoverInitiated", args: { tokenId: a.tokenId, from: a.from, to: a.to }, ...meta };
+        case "VerificationRequested": {
+            // The proof hash is ABI-encoded into the event's `data` bytes.
+            const [custodianProofHash] = AbiCoder.defaultAbiCoder().decode(["bytes32"], a.data);
+            return { name: "VerificationRequested", args: { tokenId: a.tokenId, custodian: a.custodian, custodianProofHash }, ...meta };
+        }
+        case "ShipmentVerifiedAndReceived":
+            return { name: "ShipmentVerifiedAndReceived", args: { tokenId: a.tokenId, newCustodian: a.newCustodian }, ...meta };
+        case "RerouteRequested":
+            return { name: "RerouteRequested", args: { tokenId: a.tokenId, requestor: a.requestor, reason: a.reason }, ...meta };
+        case "RerouteWithdrawn":
+            return { name: "RerouteWithdrawn", args: { tokenId: a.tokenId, withdrawnBy: a.withdrawnBy }, ...meta };
+        case "RouteProposed":
+            return { name: "RouteProposed", args: { tokenId: a.tokenId, finalDestination: a.finalDestination, expiresAt: a.expiresAt }, ...meta };
+        case "RouteAccepted":
+            return { name: "RouteAccepted", args: { tokenId: a.tokenId, party: a.party }, ...meta };
+        case "RouteUpdated":
+            return { name: "RouteUpdated", args: { tokenId: a.tokenId }, ...meta };
+        case "ShipmentFlagged":
+            return { name: "ShipmentFlagged", args: { tokenId: a.tokenId, reason: a.reason }, ...meta };
+        case "DisputeRaised":
+            return { name: "DisputeRaised", args: { tokenId: a.tokenId, raisedBy: a.raisedBy, reason: a.reason }, ...meta };
+        case "EvidenceSubmitted":
+            return {
+                name: "EvidenceSubmitted",
+                args: { tokenId: a.tokenId, disputeIndex: a.disputeIndex, submittedBy: a.submittedBy, uri: a.uri, contentHash: a.contentHash },
+                ...meta,
+            };
+        case "DisputeResolved":
+            return {
+                name: "DisputeResolved",
+                args: {
+                    tokenId: a.tokenId,
+                    resolvedBy: a.resolvedBy,
+                    shipperAmount: a.shipperAmount,
+                    recipientAmount: a.recipientAmount,
+                    custodianAmount: a.custodianAmount,
+                },
+                ...meta,
+            };
+        case "PaymentReleased":
+            return { name: "PaymentReleased", args: { tokenId: a.tokenId, shipper: a.shipper, amount: a.amount }, ...meta };
+        case "LegFeeReleased":
+            return { name: "LegFeeReleased", args: { tokenId: a.tokenId, leg: a.leg, custodian: a.custodian, amount: a.amount }, ...meta };
+        case "FeesClaimed":
+            return { name: "FeesClaimed", args: { custodian: a.custodian, paymentToken: a.paymentToken, amount: a.amount }, ...meta };
+        case "TimeoutRefunded":
+            return { name: "TimeoutRefunded", args: { tokenId: a.tokenId, shipper: a.shipper, amount: a.amount }, ...meta };
+        case "CancellationApproved":
+            return { name: "CancellationApproved", args: { tokenId: a.tokenId, recipient: a.recipient }, ...meta };
+        case "ShipmentCancelled":
+            return { name: "ShipmentCancelled", args: { tokenId: a.tokenId, shipper: a.shipper, refund: a.refund }, ...meta };
+        case "PaymentTokenAllowed":
+            return { name: "PaymentTokenAllowed", args: { paymentToken: a.paymentToken, allowed: a.allowed }, ...meta };
+        case "AgentApprovalRecorded":
+            return {
+                name: "AgentApprovalRecorded",
+                args: { tokenId: a.tokenId, actionHash: a.actionHash, agent: a.agent, approvals: a.approvals, threshold: a.threshold },
+                ...meta,
+            };
+        case "ArbitrationSettingsUpdated":
+            return {
+                name: "ArbitrationSettingsUpdated",
+                args: { arbitrationPeriod: a.arbitrationPeriod, shipperBps: a.shipperBps, recipientBps: a.recipientBps, custodianBps: a.custodianBps },
+                ...meta,
+            };
+        case "RouteAcceptanceWindowUpdated":
+            return { name: "RouteAcceptanceWindowUpdated", args: { routeAcceptanceWindow: a.routeAcceptanceWindow }, ...meta };
+        case "CompletedTokenPolicyUpdated":
+            return { name: "CompletedTokenPolicyUpdated", args: { policy: Number(a.policy) as CompletedTokenPolicy }, ...meta };
+        case "ApprovedOperatorUpdated":
+            return { name: "ApprovedOperatorUpdated", args: { operator: a.operator, allowed: a.allowed }, ...meta };
+    }
+}
+
+/**
+ * @notice Decodes every Shipment workflow event in a list of logs, skipping anything else.
+ */
+export function decodeShipmentEvents(logs: readonly Log[]): ShipmentEvent[] {
+    const events: ShipmentEvent[] = [];
+    for (const log of logs) {
+        const event = decodeShipmentEvent(log);
+        if (event) events.push(event);
+    }
+    return events;
+}
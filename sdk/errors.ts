@@ -0,0 +1,321 @@
+import { AbiCoder, Interface, dataSlice } from "ethers";
+import { IERC20Errors__factory, OracleRegistry__factory, ShipmentFactory__factory, Shipment__factory } from "../typechain-types";
+
+/**
+ * @notice Revert strings raised by the HashRoute contracts, keyed by a stable name.
+ */
+export const RevertReason = {
+    // Access control
+    NOT_REGISTERED_AGENT: "Caller is not a registered agent of this type",
+    NOT_FACTORY: "Caller is not the factory",
+    NOT_SHIPMENT_OWNER: "Caller is not the owner of this shipment",
+    NOT_DESIGNATED_RECIPIENT: "Not the designated recipient",
+    NOT_ORIGINAL_SHIPPER: "Only the original shipper can finalize payment",
+    NOT_SHIPPER_OR_RECIPIENT: "Only shipper or recipient can raise a dispute",
+    NOT_SHIPPER_FOR_REFUND: "Only the original shipper can claim a refund",
+    NOT_SHIPPER_FOR_ESCALATION: "Only the original shipper can escalate a timeout",
+    NOT_SHIPPER_FOR_CANCELLATION: "Only the original shipper can cancel",
+    NOT_RECIPIENT_FOR_CANCELLATION: "Only the recipient can approve cancellation",
+    NOT_ROUTE_PARTY: "Only the shipper or recipient can accept a route",
+    NOT_REROUTE_WITHDRAWER: "Only the custodian or shipper can withdraw",
+    NOT_DISPUTE_PARTY: "Only a party to the shipment can submit evidence",
+    NOT_AGENT_OR_OWNER: "Caller cannot update this agent's metadata",
+    SIGNER_NOT_SHIPMENT_OWNER: "Signer is not the owner of this shipment",
+    INVALID_SIGNATURE: "Invalid signature",
+    OPERATOR_NOT_APPROVED: "Operator not approved by the collection",
+
+    // Status machine
+    INVALID_TRANSITION: "Invalid status transition",
+    NOT_READY_FOR_HANDOVER: "Shipment not in a state for handover",
+    NOT_READY_FOR_REROUTE: "Shipment not in a state for reroute",
+    END_OF_ROUTE: "End of route reached",
+    HANDOVER_NOT_INITIATED: "Handover not initiated",
+    NOT_DELIVERED: "Shipment not yet delivered",
+    VERIFICATION_NOT_REQUESTED: "Verification not requested",
+    REROUTE_NOT_REQUESTED: "Reroute not requested",
+    ALREADY_COMPLETED: "Cannot dispute a completed shipment",
+    NOT_IN_DISPUTE: "Shipment not in dispute",
+    NO_FEES_TO_CLAIM: "No fees to claim",
+    NOT_OVERDUE: "Shipment is not overdue",
+    DISPUTE_ALREADY_OPEN: "Dispute already open",
+    ARBITRATION_ENDED: "Arbitration period has ended",
+    ARBITRATION_RUNNING: "Arbitration period still running",
+    ALREADY_APPROVED: "Agent already approved this action",
+    BOND_LOCKED: "Revoke the agent before withdrawing its bond",
+    CUSTODY_TRANSFER_BLOCKED: "Custody can only change through verification",
+    NOT_TRANSFERABLE: "Completed shipments are not transferable",
+    NOT_BURNABLE: "Completed shipments cannot be burned",
+    CANCELLATION_NOT_APPROVED: "Recipient has not approved cancellation",
+    CANCELLATION_APPROVAL_NOT_ALLOWED: "Shipment not in a state for cancellation approval",
+    NO_ROUTE_PROPOSAL: "No route proposal to accept",
+
+    // Arguments
+    WRONG_CUSTODIAN: "Agent confirmed wrong custodian",
+    ROUTE_TOO_SHORT: "New route has no legs left to travel",
+    ROUTE_NOT_FROM_CUSTODIAN: "New route must start from current custodian",
+    LEG_SECRET_MISMATCH: "Leg secret does not match commitment",
+    LEG_KEY_HASH_COUNT: "One key hash per remaining leg required",
+    EMPTY_LEG_KEY_HASH: "Secret hash cannot be empty",
+    LEG_FEE_COUNT: "One fee per remaining leg required",
+    LEG_FEES_EXCEED_ESCROW: "Leg fees exceed remaining escrow",
+    LEG_DEADLINE_COUNT: "One deadline per remaining leg required",
+    NATIVE_ESCROW_MISMATCH: "Native escrow does not match payment amount",
+    PAYMENT_TOKEN_NOT_ALLOWED: "Payment token not allowed",
+    NATIVE_VALUE_WITH_TOKEN: "Native value sent with a token escrow",
+    ZERO_PAYMENT_TOKEN: "Payment token address cannot be zero",
+    EMPTY_EVIDENCE: "Evidence cannot be empty",
+    SPLIT_NOT_100_PERCENT: "Split must total 100%",
+    ZERO_ARBITRATION_PERIOD: "Arbitration period cannot be zero",
+    ZERO_ACCEPTANCE_WINDOW: "Acceptance window cannot be zero",
+    AGENT_NOT_REGISTERED: "Agent not registered",
+    ZERO_THRESHOLD: "Threshold must be at least one",
+    ZERO_BOND: "Bond must be greater than zero",
+    INSUFFICIENT_BOND: "Insufficient bond",
+    ZERO_BENEFICIARY: "Beneficiary cannot be zero",
+    SIGNATURE_EXPIRED: "Signature expired",
+    ZERO_OPERATOR: "Operator address cannot be zero",
+    ZERO_REGISTRY: "Oracle Registry address cannot be zero",
+    FACTORY_ALREADY_SET: "Factory address already set",
+    ZERO_FACTORY: "Factory address cannot be zero",
+    FACTORY_ZERO_ADDRESS: "Factory: Address cannot be zero",
+    COLLECTION_ALREADY_REGISTERED: "Factory: Contract already registered",
+    COLLECTION_NOT_REGISTERED: "Factory: Contract not registered",
+    TARGET_NOT_REGISTERED: "Factory: Target contract is not registered",
+    ZERO_PAYMENT: "Factory: Payment amount must be greater than zero",
+    PAYMENT_MISMATCH: "Factory: HBAR sent does not match payment amount for escrow",
+    HBAR_WITH_TOKEN_ESCROW: "Factory: HBAR sent with a token escrow",
+    TOKEN_NOT_ACCEPTED: "Factory: Payment token not accepted by collection",
+    TOKEN_TRANSFER_MISMATCH: "Factory: Token transfer amount mismatch",
+    ROUTE_NOT_FROM_SHIPPER: "Factory: Route must start with the shipper",
+    ROUTE_NOT_TO_RECIPIENT: "Factory: Route must end with the recipient",
+    EMPTY_KEY_HASH: "Factory: Secret hash cannot be empty",
+    KEY_HASH_COUNT: "Factory: One key hash per route leg required",
+    FEE_COUNT: "Factory: One fee per route leg required",
+    FEES_EXCEED_PAYMENT: "Factory: Leg fees exceed payment amount",
+    DEADLINE_COUNT: "Factory: One deadline per route leg required",
+    DEADLINE_IN_PAST: "Factory: Delivery deadline must be in the future",
+    PENALTY_TOO_HIGH: "Factory: Late penalty cannot exceed 100%",
+    MONITOR_NOT_CONTRACT: "Factory: Monitor is not a contract",
+    NOT_CONDITION_MONITOR: "Factory: Caller is not the condition monitor",
+    MONITOR_NOT_SET: "Factory: Condition monitor not set",
+    IMPLEMENTATION_NOT_SET: "Factory: Shipment implementation not set",
+    IMPLEMENTATION_NOT_CONTRACT: "Factory: Implementation is not a contract",
+    MONITOR_ZERO_FACTORY: "Monitor: Factory cannot be zero",
+    MONITOR_COLLECTION_NOT_REGISTERED: "Monitor: Collection not registered",
+    NOT_MONITOR_FACTORY: "Monitor: Caller is not the factory",
+    NOT_SHIPPER_FOR_MONITORING: "Monitor: Only the shipper can configure monitoring",
+    MONITORING_ALREADY_CONFIGURED: "Monitor: Monitoring already configured",
+    ALREADY_LEFT_SHIPPER: "Monitor: Shipment already left the shipper",
+    INVALID_THRESHOLDS: "Monitor: Invalid thresholds",
+    NO_DEVICES: "Monitor: At least one device required",
+    ZERO_DEVICE: "Monitor: Device cannot be zero",
+    EMPTY_READINGS_BATCH: "Monitor: Empty readings batch",
+    UNKNOWN_READINGS_BATCH: "Monitor: Unknown readings batch",
+    READING_NOT_IN_BATCH: "Monitor: Reading not in batch",
+    READING_WITHIN_THRESHOLDS: "Monitor: Reading within thresholds",
+    BREACH_ALREADY_RECORDED: "Monitor: Breach already recorded",
+    NOT_READINGS_SUBMITTER: "Monitor: Caller cannot submit readings",
+    NOT_MONITORED: "Monitor: Shipment not monitored",
+    SHIPMENT_CLOSED: "Monitor: Shipment is closed",
+    READING_NOT_SIGNED_BY_DEVICE: "Monitor: Reading not signed by a device",
+    READING_OUTSIDE_MONITORING_PERIOD: "Monitor: Reading outside the monitoring period",
+    LENS_SHIPMENT_NOT_FOUND: "Lens: Shipment does not exist",
+} as const;
+
+export type RevertReasonCode = keyof typeof RevertReason;
+
+/**
+ * @notice Base class for every error surfaced by the SDK.
+ * @dev `code` is the `RevertReason` key (or custom error name) and `reason` the raw revert string.
+ */
+export class HashRouteError extends Error {
+    constructor(
+        message: string,
+        public readonly code: string,
+        public readonly reason: string,
+        public readonly cause?: unknown
+    ) {
+        super(message);
+        this.name = new.target.name;
+    }
+}
+
+/** The caller lacks the role, ownership or custody the function requires. */
+export class UnauthorizedError extends HashRouteError {}
+
+/** The shipment is not in a status that allows the call. */
+export class InvalidStateError extends HashRouteError {}
+
+/** The call's arguments were rejected. */
+export class InvalidArgumentError extends HashRouteError {}
+
+/** A revert the SDK does not recognise; `reason` holds whatever could be decoded. */
+export class UnknownRevertError extends HashRouteError {}
+
+type ErrorClass = new (message: string, code: string, reason: string, cause?: unknown) => HashRouteError;
+
+const UNAUTHORIZED: RevertReasonCode[] = [
+    "NOT_REGISTERED_AGENT",
+    "NOT_FACTORY",
+    "NOT_SHIPMENT_OWNER",
+    "NOT_DESIGNATED_RECIPIENT",
+    "NOT_ORIGINAL_SHIPPER",
+    "NOT_SHIPPER_OR_RECIPIENT",
+    "NOT_SHIPPER_FOR_REFUND",
+    "NOT_SHIPPER_FOR_ESCALATION",
+    "NOT_SHIPPER_FOR_CANCELLATION",
+    "NOT_RECIPIENT_FOR_CANCELLATION",
+    "NOT_ROUTE_PARTY",
+    "NOT_REROUTE_WITHDRAWER",
+    "NOT_DISPUTE_PARTY",
+    "NOT_AGENT_OR_OWNER",
+    "SIGNER_NOT_SHIPMENT_OWNER",
+    "INVALID_SIGNATURE",
+    "OPERATOR_NOT_APPROVED",
+    "NOT_CONDITION_MONITOR",
+    "NOT_MONITOR_FACTORY",
+    "NOT_SHIPPER_FOR_MONITORING",
+    "NOT_READINGS_SUBMITTER",
+    "READING_NOT_SIGNED_BY_DEVICE",
+];
+
+const INVALID_STATE: RevertReasonCode[] = [
+    "INVALID_TRANSITION",
+    "NOT_READY_FOR_HANDOVER",
+    "NOT_READY_FOR_REROUTE",
+    "END_OF_ROUTE",
+    "HANDOVER_NOT_INITIATED",
+    "NOT_DELIVERED",
+    "VERIFICATION_NOT_REQUESTED",
+    "REROUTE_NOT_REQUESTED",
+    "ALREADY_COMPLETED",
+    "NOT_IN_DISPUTE",
+    "NO_FEES_TO_CLAIM",
+    "NOT_OVERDUE",
+    "DISPUTE_ALREADY_OPEN",
+    "ARBITRATION_ENDED",
+    "ARBITRATION_RUNNING",
+    "ALREADY_APPROVED",
+    "BOND_LOCKED",
+    "CUSTODY_TRANSFER_BLOCKED",
+    "NOT_TRANSFERABLE",
+    "NOT_BURNABLE",
+    "CANCELLATION_NOT_APPROVED",
+    "CANCELLATION_APPROVAL_NOT_ALLOWED",
+    "NO_ROUTE_PROPOSAL",
+    "MONITORING_ALREADY_CONFIGURED",
+    "ALREADY_LEFT_SHIPPER",
+    "NOT_MONITORED",
+    "SHIPMENT_CLOSED",
+    "BREACH_ALREADY_RECORDED",
+];
+
+// Custom errors inherited from OpenZeppelin, keyed by error name. The ERC-20 ones are
+// bubbled up from the escrow token through SafeERC20.
+const CUSTOM_ERRORS: Record<string, ErrorClass> = {
+    OwnableUnauthorizedAccount: UnauthorizedError,
+    ERC721NonexistentToken: InvalidArgumentError,
+    ERC721IncorrectOwner: UnauthorizedError,
+    ERC721InsufficientApproval: UnauthorizedError,
+    SafeERC20FailedOperation: InvalidArgumentError,
+    ERC20InsufficientAllowance: InvalidArgumentError,
+    ERC20InsufficientBalance: InvalidArgumentError,
+};
+
+function classFor(code: RevertReasonCode): ErrorClass {
+    if (UNAUTHORIZED.includes(code)) return UnauthorizedError;
+    if (INVALID_STATE.includes(code)) return InvalidStateError;
+    return InvalidArgumentError;
+}
+
+const ERROR_STRING_SELECTOR = "0x08c379a0";
+
+const contractErrors = new Interface([
+    ...Shipment__factory.createInterface().fragments.filter((f) => f.type === "error"),
+    ...ShipmentFactory__factory.createInterface().fragments.filter((f) => f.type === "error"),
+    ...OracleRegistry__factory.createInterface().fragments.filter((f) => f.type === "error"),
+    ...IERC20Errors__factory.createInterface().fragments.filter((f) => f.type === "error"),
+]);
+
+// Reads a nested property of a thrown value without assuming its shape
+function field(value: unknown, ...path: string[]): unknown {
+    let current = value;
+    for (const key of path) {
+        if (typeof current !== "object" || current === null) return undefined;
+        current = (current as Record<string, unknown>)[key];
+    }
+    return current;
+}
+
+// Providers nest the revert payload differently (ethers vs. the Hardhat in-process node).
+function findRevertData(error: unknown): string | undefined {
+    const candidates = [field(error, "data"), field(error, "error", "data"), field(error, "info", "error", "data"), field(error, "data", "data")];
+    for (const candidate of candidates) {
+        if (typeof candidate === "string" && candidate.startsWith("0x") && candidate.length >= 10) {
+            return candidate;
+        }
+    }
+    return undefined;
+}
+
+/**
+ * @notice Extracts the revert reason string or custom error name from a thrown error, if any.
+ */
+export function extractRevertReason(error: unknown): string | undefined {
+    const reason = field(error, "reason");
+    if (typeof reason === "string" && reason.length > 0) {
+        return reason;
+    }
+    const revertName = field(error, "revert", "name");
+    if (typeof revertName === "string") {
+        return revertName === "Error" ? String(field(error, "revert", "args", "0")) : revertName;
+    }
+
+    const data = findRevertData(error);
+    if (data !== undefined) {
+        if (data.startsWith(ERROR_STRING_SELECTOR)) {
+            return AbiCoder.defaultAbiCoder().decode(["string"], dataSlice(data, 4))[0];
+        }
+        const parsed = contractErrors.parseError(data);
+        if (parsed) return parsed.name;
+    }
+
+    const message = field(error, "message");
+    const match = /reverted with (?:reason string|custom error) '([^'(]*)/.exec(typeof message === "string" ? message : "");
+    return match ? match[1] : undefined;
+}
+
+/**
+ * @notice Converts a thrown contract error into a typed `HashRouteError`.
+ * @dev Errors that are not contract reverts (network failures, user rejections) are returned unchanged.
+ */
+export function toHashRouteError(error: unknown): unknown {
+    if (error instanceof HashRouteError) return error;
+
+    const reason = extractRevertReason(error);
+    if (reason === undefined) return error;
+
+    const code = (Object.keys(RevertReason) as RevertReasonCode[]).find((key) => RevertReason[key] === reason);
+    if (code !== undefined) {
+        const ErrorType = classFor(code);
+        return new ErrorType(reason, code, reason, error);
+    }
+
+    const CustomError = CUSTOM_ERRORS[reason];
+    if (CustomError !== undefined) {
+        return new CustomError(reason, reason, reason, error);
+    }
+
+    return new UnknownRevertError(reason, "UNKNOWN", reason, error);
+}
+
+/**
+ * @notice Runs a contract call and rethrows any revert as a typed `HashRouteError`.
+ */
+export async function withTypedErrors<T>(call: () => Promise<T>): Promise<T> {
+    try {
+        return await call();
+    } catch (error) {
+        throw toHashRouteError(error);
+    }
+}
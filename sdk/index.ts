@@ -0,0 +1,8 @@
+export * from "./types";
+export * from "./errors";
+export * from "./decode";
+export * from "./secrets";
+export * from "./signing";
+export * from "./client";
+export * from "./manifest";
+export * from "./telemetry";
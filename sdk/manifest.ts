@@ -0,0 +1,86 @@
+import { readFile } from "fs/promises";
+import { Interface, InterfaceAbi, id } from "ethers";
+import { ConditionMonitor__factory, OracleRegistry__factory, ShipmentFactory__factory, ShipmentLens__factory, Shipment__factory } from "../typechain-types";
+import { HashRouteAddresses } from "./client";
+
+/**
+ * @notice A deployed contract, as recorded in a deployment manifest.
+ */
+export interface DeployedContract {
+    address: string;
+    /** Block the contract was deployed in; a good `startBlock` for agents and the indexer. */
+    blockNumber: number;
+    /** `abiHash` of the ABI the contract was deployed with. */
+    abiHash: string;
+}
+
+export interface DeployedCollection extends DeployedContract {
+    name: string;
+    symbol: string;
+}
+
+/**
+ * @notice The machine-readable record of a HashRoute deployment on one network, written by `scripts/deploy.ts`.
+ */
+export interface DeploymentManifest {
+    network: string;
+    chainId: number;
+    /** The Ignition deployment the manifest was produced from. */
+    deploymentId: string;
+    /** Keyed by contract name: `OracleRegistry`, `ShipmentFactory`, `ShipmentLens`, `ConditionMonitor`, `ShipmentImplementation` and the libraries. */
+    contracts: Record<string, DeployedContract>;
+    /** Keyed by the collection id from the deployment parameters. */
+    collections: Record<string, DeployedCollection>;
+    agents: { address: string; type: string }[];
+}
+
+/**
+ * @notice A stable hash of an ABI: keccak256 of its normalised JSON form.
+ */
+export function abiHash(abi: InterfaceAbi): string {
+    return id(Interface.from(abi).formatJson());
+}
+
+export async function loadManifest(path: string): Promise<DeploymentManifest> {
+    return JSON.parse(await readFile(path, "utf8"));
+}
+
+/**
+ * @notice The addresses to construct a `HashRouteClient` with.
+ */
+export function manifestAddresses(manifest: DeploymentManifest): HashRouteAddresses {
+    return {
+        factory: manifest.contracts.ShipmentFactory.address,
+        oracleRegistry: manifest.contracts.OracleRegistry.address,
+        lens: manifest.contracts.ShipmentLens?.address,
+        conditionMonitor: manifest.contracts.ConditionMonitor?.address,
+    };
+}
+
+/**
+ * @notice The addresses of every collection in the manifest, in parameters-file order.
+ */
+export function manifestCollections(manifest: DeploymentManifest): string[] {
+    return Object.values(manifest.collections).map((collection) => collection.address);
+}
+
+/**
+ * @notice Names of the manifest entries deployed with a different ABI than this SDK was built against.
+ * @dev A non-empty result means the SDK (or the deployment) is out of date.
+ */
+export function staleAbis(manifest: DeploymentManifest): string[] {
+    const expected: Record<string, string> = {
+        OracleRegistry: abiHash(OracleRegistry__factory.abi),
+        ShipmentFactory: abiHash(ShipmentFactory__factory.abi),
+        ShipmentLens: abiHash(ShipmentLens__factory.abi),
+        ConditionMonitor: abiHash(ConditionMonitor__factory.abi),
+        ShipmentImplementation: abiHash(Shipment__factory.abi),
+    };
+    const stale = Object.entries(expected)
+        .filter(([name, hash]) => manifest.contracts[name] !== undefined && manifest.contracts[name].abiHash !== hash)
+        .map(([name]) => name);
+    for (const [collectionId, collection] of Object.entries(manifest.collections)) {
+        if (collection.abiHash !== expected.ShipmentImplementation) stale.push(collectionId);
+    }
+    return stale;
+}
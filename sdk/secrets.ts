@@ -0,0 +1,59 @@
+import { BytesLike, hexlify, keccak256, randomBytes, solidityPackedKeccak256 } from "ethers";
+
+/**
+ * @notice The secret for one leg of a route, ready to hand to the custodians of that leg.
+ * @dev Leg `leg` runs from `plannedRoute[leg]` (`from`) to `plannedRoute[leg + 1]` (`to`).
+ */
+export interface LegSecret {
+    leg: number;
+    from: string;
+    to: string;
+    secret: string;
+    keyHash: string;
+}
+
+/**
+ * @notice Hashes a leg secret the same way `Shipment.requestVerificationWithSecret` does.
+ */
+export function legKeyHash(secret: BytesLike): string {
+    return keccak256(secret);
+}
+
+/**
+ * @notice Deterministically derives one 32-byte secret per leg from a master seed,
+ * so the shipper only has to back up the seed.
+ * @param firstLeg The first leg to derive; for a reroute, the shipment's `currentRouteIndex`.
+ * Use a fresh seed for a reroute, otherwise replaced legs would reuse their old secrets.
+ */
+export function deriveLegSecrets(seed: BytesLike, route: readonly string[], firstLeg: number = 0): LegSecret[] {
+    if (route.length < 2 || firstLeg >= route.length - 1) {
+        throw new Error("Route has no legs to derive secrets for");
+    }
+    const secrets: LegSecret[] = [];
+    for (let leg = firstLeg; leg < route.length - 1; leg++) {
+        const secret = solidityPackedKeccak256(["bytes32", "uint256"], [hexlify(seed), leg]);
+        secrets.push({ leg, from: route[leg], to: route[leg + 1], secret, keyHash: legKeyHash(secret) });
+    }
+    return secrets;
+}
+
+/**
+ * @notice Generates fresh random secrets for the legs of `route`, starting at `firstLeg`.
+ */
+export function generateLegSecrets(route: readonly string[], firstLeg: number = 0): LegSecret[] {
+    return deriveLegSecrets(randomBytes(32), route, firstLeg);
+}
+
+/**
+ * @notice The commitments to pass as `legKeyHashes` to `createShipment` / `proposeReroute`.
+ */
+export function legKeyHashes(secrets: readonly LegSecret[]): string[] {
+    return secrets.map((s) => s.keyHash);
+}
+
+/**
+ * @notice Serialises the secrets for the shipper's records or for loading into an agent keystore.
+ */
+export function exportLegSecrets(collection: string, tokenId: bigint, secrets: readonly LegSecret[]): string {
+    return JSON.stringify({ collection, tokenId: tokenId.toString(), legs: secrets }, null, 2);
+}
@@ -0,0 +1,108 @@
+import { Signer, TypedDataDomain, TypedDataField, verifyTypedData } from "ethers";
+import { ShipmentFactory } from "../typechain-types";
+
+/**
+ * @notice EIP-712 types of the custodian actions a relayer can submit, mirroring the typehashes in `ShipmentFactory`.
+ */
+export const SIGNED_REQUEST_TYPES = {
+    initiateHandover: {
+        InitiateHandover: [
+            { name: "collection", type: "address" },
+            { name: "tokenId", type: "uint256" },
+            { name: "nonce", type: "uint256" },
+            { name: "deadline", type: "uint256" },
+        ],
+    },
+    requestVerification: {
+        RequestVerification: [
+            { name: "collection", type: "address" },
+            { name: "tokenId", type: "uint256" },
+            { name: "custodianProofHash", type: "bytes32" },
+            { name: "nonce", type: "uint256" },
+            { name: "deadline", type: "uint256" },
+        ],
+    },
+    requestReroute: {
+        RequestReroute: [
+            { name: "collection", type: "address" },
+            { name: "tokenId", type: "uint256" },
+            { name: "reason", type: "string" },
+            { name: "nonce", type: "uint256" },
+            { name: "deadline", type: "uint256" },
+        ],
+    },
+} as const satisfies Record<string, Record<string, TypedDataField[]>>;
+
+export type SignedAction = keyof typeof SIGNED_REQUEST_TYPES;
+
+interface RequestBase<A extends SignedAction> {
+    action: A;
+    collection: string;
+    tokenId: bigint;
+    /** The custodian the request acts for; access checks apply to this address. */
+    signer: string;
+    /** The signer's `nonces(signer)` value the request was signed against. */
+    nonce: bigint;
+    /** Unix timestamp after which the contract rejects the signature. */
+    deadline: bigint;
+}
+
+export type UnsignedRequest =
+    | RequestBase<"initiateHandover">
+    | (RequestBase<"requestVerification"> & { custodianProofHash: string })
+    | (RequestBase<"requestReroute"> & { reason: string });
+
+export type SignedRequest = UnsignedRequest & { signature: string };
+
+/**
+ * @notice Reads the factory's EIP-712 domain from the chain (ERC-5267). Requests for every collection
+ * the factory mints in are signed against it.
+ */
+export async function shipmentDomain(contract: ShipmentFactory): Promise<TypedDataDomain> {
+    const domain = await contract.eip712Domain();
+    return { name: domain.name, version: domain.version, chainId: domain.chainId, verifyingContract: domain.verifyingContract };
+}
+
+function messageOf(request: UnsignedRequest): Record<string, unknown> {
+    const { collection, tokenId, nonce, deadline } = request;
+    switch (request.action) {
+        case "initiateHandover":
+            return { collection, tokenId, nonce, deadline };
+        case "requestVerification":
+            return { collection, tokenId, custodianProofHash: request.custodianProofHash, nonce, deadline };
+        case "requestReroute":
+            return { collection, tokenId, reason: request.reason, nonce, deadline };
+    }
+}
+
+/**
+ * @notice Signs a custodian request for submission by a relayer. The signer needs no HBAR.
+ */
+export async function signRequest(signer: Signer, domain: TypedDataDomain, request: UnsignedRequest): Promise<SignedRequest> {
+    const types = SIGNED_REQUEST_TYPES[request.action] as unknown as Record<string, TypedDataField[]>;
+    const signature = await signer.signTypedData(domain, types, messageOf(request));
+    return { ...request, signature };
+}
+
+/**
+ * @notice Returns the address that signed a request, for checking it against `request.signer`.
+ */
+export function recoverRequestSigner(domain: TypedDataDomain, request: SignedRequest): string {
+    const types = SIGNED_REQUEST_TYPES[request.action] as unknown as Record<string, TypedDataField[]>;
+    return verifyTypedData(domain, types, messageOf(request), request.signature);
+}
+
+/**
+ * @notice The `ShipmentFactory` `...BySig` function and arguments that execute a signed request on-chain.
+ */
+export function signedCall(request: SignedRequest): [string, unknown[]] {
+    const { collection, tokenId, signer, deadline, signature } = request;
+    switch (request.action) {
+        case "initiateHandover":
+            return ["initiateHandoverBySig", [collection, tokenId, signer, deadline, signature]];
+        case "requestVerification":
+            return ["requestVerificationBySig", [collection, tokenId, request.custodianProofHash, signer, deadline, signature]];
+        case "requestReroute":
+            return ["requestRerouteBySig", [collection, tokenId, request.reason, signer, deadline, signature]];
+    }
+}
@@ -0,0 +1,139 @@
+import { AbiCoder, Signer, TypedDataDomain, concat, keccak256, verifyTypedData } from "ethers";
+import { ConditionMonitor } from "../typechain-types";
+import { ConditionReading, ConditionThresholds, SignedReading } from "./types";
+
+/**
+ * @notice EIP-712 type of a device reading, mirroring `READING_TYPEHASH` in `ConditionMonitor`.
+ */
+export const READING_TYPES = {
+    Reading: [
+        { name: "collection", type: "address" },
+        { name: "tokenId", type: "uint256" },
+        { name: "timestamp", type: "uint64" },
+        { name: "temperature", type: "int32" },
+        { name: "humidity", type: "uint32" },
+        { name: "shock", type: "uint32" },
+    ],
+};
+
+/**
+ * @notice Thresholds no reading can breach. Override the dimensions the cargo is sensitive to.
+ */
+export const UNBOUNDED_THRESHOLDS: Readonly<ConditionThresholds> = {
+    minTemperature: -(2 ** 31),
+    maxTemperature: 2 ** 31 - 1,
+    minHumidity: 0,
+    maxHumidity: 10_000,
+    maxShock: 2 ** 32 - 1,
+};
+
+/**
+ * @notice Reads the monitor's EIP-712 domain from the chain (ERC-5267). Devices sign readings against it.
+ */
+export async function monitorDomain(contract: ConditionMonitor): Promise<TypedDataDomain> {
+    const domain = await contract.eip712Domain();
+    return { name: domain.name, version: domain.version, chainId: domain.chainId, verifyingContract: domain.verifyingContract };
+}
+
+function readingMessage(collection: string, tokenId: bigint, reading: ConditionReading): Record<string, unknown> {
+    const { timestamp, temperature, humidity, shock } = reading;
+    return { collection, tokenId, timestamp, temperature, humidity, shock };
+}
+
+/**
+ * @notice Signs a reading with a device key, binding it to one shipment.
+ */
+export async function signReading(
+    device: Signer,
+    domain: TypedDataDomain,
+    collection: string,
+    tokenId: bigint,
+    reading: ConditionReading
+): Promise<SignedReading> {
+    const signature = await device.signTypedData(domain, READING_TYPES, readingMessage(collection, tokenId, reading));
+    return { ...reading, signature };
+}
+
+/**
+ * @notice Returns the device that signed a reading.
+ */
+export function recoverReadingSigner(domain: TypedDataDomain, collection: string, tokenId: bigint, reading: SignedReading): string {
+    return verifyTypedData(domain, READING_TYPES, readingMessage(collection, tokenId, reading), reading.signature);
+}
+
+/**
+ * @notice Checks a reading the way `ConditionMonitor` does.
+ * @return The dispute reason the monitor would record, or `undefined` for an in-range reading.
+ */
+export function breachedThreshold(thresholds: ConditionThresholds, reading: ConditionReading): string | undefined {
+    if (reading.temperature < thresholds.minTemperature || reading.temperature > thresholds.maxTemperature) {
+        return "Temperature out of range";
+    }
+    if (reading.humidity < thresholds.minHumidity || reading.humidity > thresholds.maxHumidity) {
+        return "Humidity out of range";
+    }
+    if (reading.shock > thresholds.maxShock) {
+        return "Shock limit exceeded";
+    }
+    return undefined;
+}
+
+/**
+ * @notice The Merkle leaf of a reading, matching `ConditionMonitor.readingLeaf`.
+ */
+export function readingLeaf(reading: ConditionReading): string {
+    const encoded = AbiCoder.defaultAbiCoder().encode(
+        ["uint64", "int32", "uint32", "uint32"],
+        [reading.timestamp, reading.temperature, reading.humidity, reading.shock]
+    );
+    return keccak256(keccak256(encoded));
+}
+
+function hashPair(a: string, b: string): string {
+    return BigInt(a) < BigInt(b) ? keccak256(concat([a, b])) : keccak256(concat([b, a]));
+}
+
+/**
+ * @notice A Merkle tree over a batch of readings, with the sorted-pair hashing OpenZeppelin's `MerkleProof` verifies.
+ * @dev Submit `root` with `ConditionMonitor.submitReadingsRoot` and keep the readings; `proof(i)` later
+ * proves reading `i` with `proveBreach`.
+ */
+export class ReadingsTree {
+    public readonly readings: readonly SignedReading[];
+    public readonly root: string;
+    private readonly layers: string[][];
+
+    constructor(readings: readonly SignedReading[]) {
+        if (readings.length === 0) {
+            throw new Error("A readings tree needs at least one reading");
+        }
+        this.readings = readings;
+        this.layers = [readings.map(readingLeaf)];
+        while (this.layers[this.layers.length - 1].length > 1) {
+            const below = this.layers[this.layers.length - 1];
+            const layer: string[] = [];
+            for (let i = 0; i < below.length; i += 2) {
+                // An unpaired node moves up unchanged
+                layer.push(i + 1 < below.length ? hashPair(below[i], below[i + 1]) : below[i]);
+            }
+            this.layers.push(layer);
+        }
+        this.root = this.layers[this.layers.length - 1][0];
+    }
+
+    /**
+     * @notice The proof of the reading at `index`.
+     */
+    proof(index: number): string[] {
+        if (index < 0 || index >= this.readings.length) {
+            throw new Error(`No reading at index ${index}`);
+        }
+        const proof: string[] = [];
+        for (const layer of this.layers.slice(0, -1)) {
+            const sibling = index ^ 1;
+            if (sibling < layer.length) proof.push(layer[sibling]);
+            index >>= 1;
+        }
+        return proof;
+    }
+}
@@ -0,0 +1,382 @@
+// Mirrors of the on-chain enums and structs, so consumers never have to
+// compare against bare numbers like `5` for Disputed.
+
+/**
+ * @notice Mirror of `OracleRegistry.AgentType`.
+ */
+export enum AgentType {
+    ROUTING = 0,
+    ARBITRATION = 1,
+    FRAUD_DETECTION = 2,
+}
+
+/**
+ * @notice Decoded form of `OracleRegistry.AgentInfo`.
+ */
+export interface AgentInfo {
+    agent: string;
+    metadata: string;
+    bond: bigint;
+    /** Registered and bonded at or above the type's minimum. */
+    trusted: boolean;
+}
+
+/**
+ * @notice Mirror of `Shipment.Status`.
+ */
+export enum Status {
+    Created = 0,
+    InTransit = 1,
+    AwaitingVerification = 2,
+    Delivered = 3,
+    Completed = 4,
+    Disputed = 5,
+    ReroutingRequested = 6,
+    Cancelled = 7,
+}
+
+/**
+ * @notice Mirror of the `Shipment` status transition table: the statuses each status may move to.
+ * @dev Kept in sync with `Shipment.isAllowedTransition`; the status machine tests compare the two.
+ */
+export const ALLOWED_TRANSITIONS: Readonly<Record<Status, readonly Status[]>> = {
+    [Status.Created]: [Status.InTransit, Status.ReroutingRequested, Status.Disputed, Status.Completed, Status.Cancelled],
+    [Status.InTransit]: [Status.AwaitingVerification, Status.ReroutingRequested, Status.Disputed, Status.Completed, Status.Cancelled],
+    [Status.AwaitingVerification]: [Status.Created, Status.Delivered, Status.Disputed, Status.Completed, Status.Cancelled],
+    [Status.Delivered]: [Status.Completed, Status.Disputed],
+    [Status.Completed]: [],
+    [Status.Disputed]: [Status.Completed],
+    [Status.ReroutingRequested]: [Status.Created, Status.Disputed, Status.Completed, Status.Cancelled],
+    [Status.Cancelled]: [],
+};
+
+/**
+ * @notice Returns true if a shipment may move from `from` to `to`.
+ */
+export function canTransition(from: Status, to: Status): boolean {
+    return ALLOWED_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * @notice Decoded form of the `Shipment.StatusChange` struct.
+ */
+export interface StatusChange {
+    status: Status;
+    /** Unix timestamp at which the shipment entered `status`. */
+    changedAt: bigint;
+}
+
+/**
+ * @notice Mirror of `Shipment.CompletedTokenPolicy`.
+ */
+export enum CompletedTokenPolicy {
+    Locked = 0,
+    Transferable = 1,
+    Burnable = 2,
+}
+
+/**
+ * @notice Decoded form of the `Shipment.Details` struct.
+ * @dev The public `shipmentDetails` getter does not return the `plannedRoute` and
+ * `legKeyHashes` arrays, so they are not part of this object.
+ */
+export interface ShipmentDetails {
+    shipper: string;
+    recipient: string;
+    status: Status;
+    cargoDetails: string;
+    /** Escrow asset: `ZeroAddress` for native HBAR, otherwise the ERC-20 / HTS token address. */
+    paymentToken: string;
+    /** Escrow not yet released; shrinks by each leg's fee as the leg is verified. */
+    paymentAmount: bigint;
+    currentRouteIndex: bigint;
+    pendingCustodian: string;
+    /** Unix timestamp by which the shipment must be delivered, or 0n for none. */
+    deliveryDeadline: bigint;
+    latePenaltyBps: bigint;
+}
+
+/**
+ * @notice Parameters for `ShipmentFactory.createShipment`.
+ */
+export interface CreateShipmentParams {
+    collection: string;
+    recipient: string;
+    cargoDetails: string;
+    plannedRoute: string[];
+    /**
+     * Token to escrow `paymentAmount` in; defaults to native HBAR. The collection must allow it
+     * and the shipper must have approved the factory (see `HashRouteClient.approvePaymentToken`).
+     */
+    paymentToken?: string;
+    paymentAmount: bigint;
+    /** One commitment per leg, e.g. `legKeyHashes(generateLegSecrets(plannedRoute))`. */
+    legKeyHashes: string[];
+    /** One carrier fee per leg; their sum must not exceed `paymentAmount`. */
+    legFees: bigint[];
+    /** Unix timestamp by which each leg must be verified (0n = none). Defaults to no leg deadlines. */
+    legDeadlines?: bigint[];
+    /** Unix timestamp by which the shipment must be delivered. Defaults to none. */
+    deliveryDeadline?: bigint;
+    /** Share of a late leg's fee withheld for the shipper, in basis points. Defaults to 0. */
+    latePenaltyBps?: bigint;
+    /**
+     * Condition thresholds and device keys to declare with the ConditionMonitor in the same
+     * transaction. Defaults to an unmonitored shipment.
+     */
+    monitoring?: ShipmentMonitoring;
+}
+
+/**
+ * @notice What `ConditionMonitor` checks a shipment's readings against, and which device keys may sign them.
+ */
+export interface ShipmentMonitoring {
+    thresholds: ConditionThresholds;
+    devices: string[];
+}
+
+/**
+ * @notice How a shipment's remaining escrow splits between unpaid leg fees and the shipper's remainder.
+ */
+export interface EscrowBreakdown {
+    paymentToken: string;
+    paymentAmount: bigint;
+    unreleasedLegFees: bigint;
+    remainder: bigint;
+}
+
+/**
+ * @notice Decoded form of `RouteLib.Proposal`: a route proposed by the Routing Agent, awaiting acceptance.
+ */
+export interface RouteProposal {
+    /** The full new route, including the stops already passed. */
+    route: string[];
+    /** Commitments, fees and deadlines for the legs from the current custodian onwards. */
+    legKeyHashes: string[];
+    legFees: bigint[];
+    legDeadlines: bigint[];
+    /** Unix timestamp after which the proposal can no longer be accepted; 0n if there is no proposal. */
+    expiresAt: bigint;
+    /** The proposal changes the final destination, so the recipient must accept it too. */
+    recipientMustAccept: boolean;
+    shipperAccepted: boolean;
+    recipientAccepted: boolean;
+}
+
+/**
+ * @notice Mirror of `DisputeLib.Split`: how a dispute settlement divides the escrow, in basis points summing to 10_000.
+ */
+export interface DisputeSplit {
+    shipperBps: bigint;
+    recipientBps: bigint;
+    custodianBps: bigint;
+}
+
+/**
+ * @notice Decoded form of the `DisputeLib.Evidence` struct.
+ */
+export interface DisputeEvidence {
+    submittedBy: string;
+    submittedAt: bigint;
+    uri: string;
+    contentHash: string;
+}
+
+/**
+ * @notice Decoded form of the `DisputeLib.DisputeRecord` struct.
+ */
+export interface DisputeRecord {
+    raisedBy: string;
+    raisedAt: bigint;
+    reason: string;
+    /** Holder of the shipment when the dispute was raised; receives the custodian share. */
+    custodian: string;
+    arbitrationDeadline: bigint;
+    /** The split applied if no arbitrator rules by the deadline, fixed when the dispute was raised. */
+    defaultSplit: DisputeSplit;
+    evidence: DisputeEvidence[];
+    resolved: boolean;
+    /** The arbitrator who ruled, or `ZeroAddress` if the default split was applied. */
+    resolvedBy: string;
+    resolvedAt: bigint;
+    verdict: DisputeSplit;
+}
+
+/**
+ * @notice A collection's arbitration deadline and fallback verdict.
+ */
+export interface ArbitrationSettings {
+    arbitrationPeriod: bigint;
+    defaultSplit: DisputeSplit;
+}
+
+/**
+ * @notice Mirror of `ShipmentLens.Party`: the relationships `shipmentsOf` lists shipments by.
+ */
+export enum Party {
+    Shipper = 0,
+    Recipient = 1,
+    /** The current holder of the shipment NFT. */
+    Custodian = 2,
+}
+
+/**
+ * @notice Decoded form of the `ShipmentLens.Summary` struct.
+ */
+export interface ShipmentSummary {
+    status: Status;
+    shipper: string;
+    recipient: string;
+    /** Holder of the shipment NFT, or `ZeroAddress` once it has been burned (e.g. on cancellation). */
+    custodian: string;
+    /** The pending custodian during a handover, otherwise the next stop; `ZeroAddress` once delivered, completed or cancelled. */
+    nextCustodian: string;
+    currentRouteIndex: bigint;
+    routeLength: bigint;
+    paymentToken: string;
+    paymentAmount: bigint;
+    deliveryDeadline: bigint;
+    overdue: boolean;
+}
+
+/**
+ * @notice One page of `ShipmentLens.shipmentsOf`.
+ */
+export interface ShipmentPage {
+    /** Matching token IDs in the scanned range, ascending. */
+    tokenIds: bigint[];
+    /** Where to continue the scan; the scan is complete once it reaches the collection's shipment count. */
+    nextCursor: bigint;
+}
+
+//==============================================================
+// Condition Monitoring
+//==============================================================
+
+/**
+ * @notice Mirror of `ConditionMonitor.Thresholds`: the ranges a monitored shipment's readings must stay within.
+ * @dev Temperatures are in hundredths of a degree Celsius, humidity in hundredths of a percent (0 to 10_000)
+ * and shock in thousandths of a g. Start from `UNBOUNDED_THRESHOLDS` to leave a dimension unchecked.
+ */
+export interface ConditionThresholds {
+    minTemperature: number;
+    maxTemperature: number;
+    minHumidity: number;
+    maxHumidity: number;
+    maxShock: number;
+}
+
+/**
+ * @notice One device measurement, in the units of `ConditionThresholds`.
+ */
+export interface ConditionReading {
+    /** Unix timestamp the measurement was taken at. */
+    timestamp: number;
+    temperature: number;
+    humidity: number;
+    shock: number;
+}
+
+/**
+ * @notice A reading with its device's EIP-712 signature, as `ConditionMonitor` accepts it.
+ */
+export interface SignedReading extends ConditionReading {
+    signature: string;
+}
+
+/**
+ * @notice Decoded form of `ConditionMonitor.Breach`: a verified out-of-range reading.
+ */
+export interface ConditionBreach extends ConditionReading {
+    device: string;
+    submittedBy: string;
+    recordedAt: bigint;
+}
+
+/**
+ * @notice Decoded form of `ConditionMonitor.ReadingsBatch`: a batch of readings committed by its Merkle root.
+ */
+export interface ReadingsBatch {
+    root: string;
+    count: bigint;
+    submittedBy: string;
+    submittedAt: bigint;
+}
+
+//==============================================================
+// Shipment Events
+//==============================================================
+
+interface EventBase<N extends string, A> {
+    name: N;
+    args: A;
+    blockNumber: number;
+    transactionHash: string;
+    logIndex: number;
+}
+
+export type ShipmentInitializedEvent = EventBase<"ShipmentInitialized", { tokenId: bigint; shipper: string; recipient: string }>;
+export type StatusChangedEvent = EventBase<"StatusChanged", { tokenId: bigint; from: Status; to: Status }>;
+export type HandoverInitiatedEvent = EventBase<"HandoverInitiated", { tokenId: bigint; from: string; to: string }>;
+export type VerificationRequestedEvent = EventBase<"VerificationRequested", { tokenId: bigint; custodian: string; custodianProofHash: string }>;
+export type ShipmentVerifiedAndReceivedEvent = EventBase<"ShipmentVerifiedAndReceived", { tokenId: bigint; newCustodian: string }>;
+export type RerouteRequestedEvent = EventBase<"RerouteRequested", { tokenId: bigint; requestor: string; reason: string }>;
+export type RerouteWithdrawnEvent = EventBase<"RerouteWithdrawn", { tokenId: bigint; withdrawnBy: string }>;
+export type RouteProposedEvent = EventBase<"RouteProposed", { tokenId: bigint; finalDestination: string; expiresAt: bigint }>;
+export type RouteAcceptedEvent = EventBase<"RouteAccepted", { tokenId: bigint; party: string }>;
+export type RouteUpdatedEvent = EventBase<"RouteUpdated", { tokenId: bigint }>;
+export type ShipmentFlaggedEvent = EventBase<"ShipmentFlagged", { tokenId: bigint; reason: string }>;
+export type DisputeRaisedEvent = EventBase<"DisputeRaised", { tokenId: bigint; raisedBy: string; reason: string }>;
+export type EvidenceSubmittedEvent = EventBase<"EvidenceSubmitted", { tokenId: bigint; disputeIndex: bigint; submittedBy: string; uri: string; contentHash: string }>;
+export type DisputeResolvedEvent = EventBase<
+    "DisputeResolved",
+    { tokenId: bigint; resolvedBy: string; shipperAmount: bigint; recipientAmount: bigint; custodianAmount: bigint }
+>;
+export type PaymentReleasedEvent = EventBase<"PaymentReleased", { tokenId: bigint; shipper: string; amount: bigint }>;
+export type LegFeeReleasedEvent = EventBase<"LegFeeReleased", { tokenId: bigint; leg: bigint; custodian: string; amount: bigint }>;
+export type FeesClaimedEvent = EventBase<"FeesClaimed", { custodian: string; paymentToken: string; amount: bigint }>;
+export type TimeoutRefundedEvent = EventBase<"TimeoutRefunded", { tokenId: bigint; shipper: string; amount: bigint }>;
+export type CancellationApprovedEvent = EventBase<"CancellationApproved", { tokenId: bigint; recipient: string }>;
+export type ShipmentCancelledEvent = EventBase<"ShipmentCancelled", { tokenId: bigint; shipper: string; refund: bigint }>;
+export type PaymentTokenAllowedEvent = EventBase<"PaymentTokenAllowed", { paymentToken: string; allowed: boolean }>;
+export type AgentApprovalRecordedEvent = EventBase<
+    "AgentApprovalRecorded",
+    { tokenId: bigint; actionHash: string; agent: string; approvals: bigint; threshold: bigint }
+>;
+export type CompletedTokenPolicyUpdatedEvent = EventBase<"CompletedTokenPolicyUpdated", { policy: CompletedTokenPolicy }>;
+export type ApprovedOperatorUpdatedEvent = EventBase<"ApprovedOperatorUpdated", { operator: string; allowed: boolean }>;
+export type RouteAcceptanceWindowUpdatedEvent = EventBase<"RouteAcceptanceWindowUpdated", { routeAcceptanceWindow: bigint }>;
+export type ArbitrationSettingsUpdatedEvent = EventBase<
+    "ArbitrationSettingsUpdated",
+    { arbitrationPeriod: bigint; shipperBps: bigint; recipientBps: bigint; custodianBps: bigint }
+>;
+
+export type ShipmentEvent =
+    | ShipmentInitializedEvent
+    | StatusChangedEvent
+    | HandoverInitiatedEvent
+    | VerificationRequestedEvent
+    | ShipmentVerifiedAndReceivedEvent
+    | RerouteRequestedEvent
+    | RerouteWithdrawnEvent
+    | RouteProposedEvent
+    | RouteAcceptedEvent
+    | RouteUpdatedEvent
+    | ShipmentFlaggedEvent
+    | DisputeRaisedEvent
+    | EvidenceSubmittedEvent
+    | DisputeResolvedEvent
+    | PaymentReleasedEvent
+    | LegFeeReleasedEvent
+    | FeesClaimedEvent
+    | TimeoutRefundedEvent
+    | CancellationApprovedEvent
+    | ShipmentCancelledEvent
+    | PaymentTokenAllowedEvent
+    | AgentApprovalRecordedEvent
+    | ArbitrationSettingsUpdatedEvent
+    | RouteAcceptanceWindowUpdatedEvent
+    | CompletedTokenPolicyUpdatedEvent
+    | ApprovedOperatorUpdatedEvent;
+
+export type ShipmentEventName = ShipmentEvent["name"];
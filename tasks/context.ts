@@ -0,0 +1,180 @@
+import path from "path";
+import { ContractTransactionReceipt, Signer, ZeroAddress, isAddress } from "ethers";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { HardhatPluginError } from "hardhat/plugins";
+import {
+    DeploymentManifest,
+    HashRouteClient,
+    HashRouteError,
+    ShipmentClient,
+    decodeShipmentEvent,
+    loadManifest,
+    manifestAddresses,
+    staleAbis,
+    toHashRouteError,
+} from "../sdk";
+import { ConditionMonitor__factory, IERC20Metadata__factory, OracleRegistry__factory, ShipmentFactory__factory } from "../typechain-types";
+import { TypedContractMethod } from "../typechain-types/common";
+import { formatParsedEvent, formatShipmentEvent } from "./format";
+
+/**
+ * @notice Options every `hashroute:*` task accepts.
+ */
+export interface CommonTaskArgs {
+    manifest?: string;
+    collection?: string;
+    from?: string;
+}
+
+/**
+ * @notice Options of the tasks that send a transaction.
+ */
+export interface SendTaskArgs extends CommonTaskArgs {
+    dryRun: boolean;
+}
+
+export interface TaskContext {
+    manifest: DeploymentManifest;
+    signer: Signer;
+    client: HashRouteClient;
+}
+
+/**
+ * @notice What a task's transaction did, or would do under `--dry-run`.
+ */
+export interface ExecutionResult {
+    dryRun: boolean;
+    /** False only for a dry run that would revert; a failing real transaction throws instead. */
+    ok: boolean;
+    /** The `RevertReason` key (or custom error name) and revert string of a failed dry run. */
+    code?: string;
+    reason?: string;
+    /** The gas estimate of a successful dry run. */
+    gasEstimate?: bigint;
+    receipt?: ContractTransactionReceipt;
+    /** The decoded events of a mined transaction, one formatted line each. */
+    events: string[];
+}
+
+// The transaction-sending shape shared by every state-changing typechain contract method
+type SendableMethod = Pick<TypedContractMethod<unknown[], unknown, "nonpayable" | "payable">, "name" | "send" | "staticCall" | "estimateGas">;
+
+export class TaskError extends HardhatPluginError {
+    constructor(message: string) {
+        super("hashroute", message);
+    }
+}
+
+/**
+ * @notice Loads the network's deployment manifest and connects the SDK with the `--from` account.
+ */
+export async function loadContext(hre: HardhatRuntimeEnvironment, args: CommonTaskArgs): Promise<TaskContext> {
+    const manifestPath = args.manifest ?? path.join(hre.config.paths.root, "deployments", `${hre.network.name}.json`);
+    let manifest: DeploymentManifest;
+    try {
+        manifest = await loadManifest(manifestPath);
+    } catch {
+        throw new TaskError(`No deployment manifest at ${manifestPath}; deploy with \`npm run deploy\` or pass --manifest`);
+    }
+    const stale = staleAbis(manifest);
+    if (stale.length > 0) {
+        console.warn(`Warning: ${stale.join(", ")} deployed with a different ABI than these tasks were built against`);
+    }
+
+    const signer = args.from ? await hre.ethers.getSigner(args.from) : (await hre.ethers.getSigners())[0];
+    return { manifest, signer, client: new HashRouteClient(manifestAddresses(manifest), signer) };
+}
+
+/**
+ * @notice Resolves `--collection`: a collection id from the manifest or an address. It can be left
+ * out when the manifest has a single collection.
+ */
+export function resolveCollection(manifest: DeploymentManifest, collection?: string): string {
+    if (collection !== undefined) {
+        if (isAddress(collection)) return collection;
+        const deployed = manifest.collections[collection];
+        if (deployed === undefined) {
+            throw new TaskError(`Unknown collection ${collection}; the manifest has ${Object.keys(manifest.collections).join(", ") || "none"}`);
+        }
+        return deployed.address;
+    }
+    const deployed = Object.values(manifest.collections);
+    if (deployed.length !== 1) {
+        throw new TaskError("The manifest has several collections; choose one with --collection");
+    }
+    return deployed[0].address;
+}
+
+/**
+ * @notice `loadContext` plus a client for the `--collection` collection.
+ */
+export async function loadCollection(hre: HardhatRuntimeEnvironment, args: CommonTaskArgs): Promise<TaskContext & { shipments: ShipmentClient }> {
+    const context = await loadContext(hre, args);
+    return { ...context, shipments: context.client.collection(resolveCollection(context.manifest, args.collection)) };
+}
+
+/**
+ * @notice A collection's manifest id and address, or just the address for a collection the manifest doesn't list.
+ */
+export function collectionLabel(manifest: DeploymentManifest, address: string): string {
+    const entry = Object.entries(manifest.collections).find(([, collection]) => collection.address.toLowerCase() === address.toLowerCase());
+    return entry ? `${entry[0]} (${address})` : address;
+}
+
+const eventInterfaces = [
+    ShipmentFactory__factory.createInterface(),
+    OracleRegistry__factory.createInterface(),
+    ConditionMonitor__factory.createInterface(),
+];
+
+function describeLog(log: Parameters<typeof decodeShipmentEvent>[0]): string | undefined {
+    const event = decodeShipmentEvent(log);
+    if (event) return formatShipmentEvent(event);
+    for (const contractInterface of eventInterfaces) {
+        const parsed = contractInterface.parseLog({ topics: [...log.topics], data: log.data });
+        if (parsed) return formatParsedEvent(parsed);
+    }
+    return undefined;
+}
+
+/**
+ * @notice Sends `method(...args)` and prints the decoded events, or with `dryRun` only simulates it
+ * and prints whether and why it would revert.
+ * @dev Reverts are decoded with the SDK's typed errors, so a dry run reports the same reason a
+ * mined transaction would fail with.
+ */
+export async function execute(method: SendableMethod, args: unknown[], dryRun: boolean): Promise<ExecutionResult> {
+    const label = method.name;
+    if (dryRun) {
+        try {
+            await method.staticCall(...args);
+            const gasEstimate = await method.estimateGas(...args);
+            console.log(`Dry run: ${label} would succeed (estimated gas ${gasEstimate})`);
+            return { dryRun, ok: true, gasEstimate, events: [] };
+        } catch (error) {
+            const typed = toHashRouteError(error);
+            if (!(typed instanceof HashRouteError)) throw typed;
+            console.log(`Dry run: ${label} would revert: ${typed.reason} [${typed.code}]`);
+            return { dryRun, ok: false, code: typed.code, reason: typed.reason, events: [] };
+        }
+    }
+
+    try {
+        const response = await method.send(...args);
+        const receipt = (await response.wait())!;
+        const events = receipt.logs.map(describeLog).filter((line): line is string => line !== undefined);
+        console.log(`${label} mined in block ${receipt.blockNumber} (tx ${receipt.hash})`);
+        for (const line of events) console.log(`  ${line}`);
+        return { dryRun, ok: true, receipt, events };
+    } catch (error) {
+        throw toHashRouteError(error);
+    }
+}
+
+/**
+ * @notice The decimals escrow amounts are entered and shown in: 18 for HBAR, otherwise the token's own.
+ */
+export async function paymentDecimals(context: TaskContext, paymentToken: string): Promise<number> {
+    if (paymentToken === ZeroAddress) return 18;
+    return Number(await IERC20Metadata__factory.connect(paymentToken, context.signer).decimals());
+}
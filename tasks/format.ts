@@ -0,0 +1,123 @@
+import { LogDescription, ZeroAddress, formatEther, formatUnits } from "ethers";
+import {
+    ConditionBreach,
+    ConditionThresholds,
+    DisputeRecord,
+    ShipmentDetails,
+    ShipmentEvent,
+    ShipmentSummary,
+    Status,
+    StatusChange,
+    UNBOUNDED_THRESHOLDS,
+} from "../sdk";
+
+/**
+ * @notice Lays out `[label, value]` rows as an indented two-column table.
+ */
+export function table(rows: [string, string][]): string {
+    const width = Math.max(...rows.map(([label]) => label.length)) + 2;
+    return rows.map(([label, value]) => `  ${label.padEnd(width)}${value}`).join("\n");
+}
+
+export function formatAddress(address: string): string {
+    return address === ZeroAddress ? "-" : address;
+}
+
+/**
+ * @notice An escrow amount in whole units: HBAR for native escrow, otherwise the token's units.
+ */
+export function formatAmount(amount: bigint, paymentToken: string, decimals: number = 18): string {
+    return paymentToken === ZeroAddress ? `${formatEther(amount)} HBAR` : `${formatUnits(amount, decimals)} of token ${paymentToken}`;
+}
+
+/**
+ * @notice A unix timestamp as an ISO date, with 0 (the contracts' "unset") shown as `none`.
+ */
+export function formatTimestamp(seconds: bigint): string {
+    return seconds === 0n ? "none" : new Date(Number(seconds) * 1000).toISOString();
+}
+
+export function formatDetails(details: ShipmentDetails, summary: ShipmentSummary, route: readonly string[], decimals?: number): string {
+    const leg = Number(details.currentRouteIndex);
+    const deadline = formatTimestamp(details.deliveryDeadline);
+    return table([
+        ["Status", Status[details.status]],
+        ["Shipper", details.shipper],
+        ["Recipient", details.recipient],
+        ["Custodian", formatAddress(summary.custodian)],
+        ["Pending custodian", formatAddress(details.pendingCustodian)],
+        ["Cargo", details.cargoDetails],
+        ["Route", route.map((stop, i) => (i === leg ? `[${stop}]` : stop)).join(" → ")],
+        ["Leg", `${Math.min(leg + 1, route.length - 1)} of ${route.length - 1}`],
+        ["Payment", formatAmount(details.paymentAmount, details.paymentToken, decimals)],
+        ["Delivery deadline", summary.overdue ? `${deadline} (overdue)` : deadline],
+        ["Late penalty", `${details.latePenaltyBps} bps`],
+    ]);
+}
+
+export function formatStatusHistory(history: readonly StatusChange[]): string {
+    return table(history.map((change) => [formatTimestamp(change.changedAt), Status[change.status]]));
+}
+
+export function formatDispute(dispute: DisputeRecord, index: number): string {
+    const rows: [string, string][] = [
+        ["Raised", `${formatTimestamp(dispute.raisedAt)} by ${dispute.raisedBy}`],
+        ["Reason", dispute.reason],
+        ["Custodian", dispute.custodian],
+        ["Arbitration deadline", formatTimestamp(dispute.arbitrationDeadline)],
+        ...dispute.evidence.map((e): [string, string] => ["Evidence", `${e.uri} (${e.contentHash}) from ${e.submittedBy}`]),
+    ];
+    if (dispute.resolved) {
+        const { shipperBps, recipientBps, custodianBps } = dispute.verdict;
+        rows.push(["Verdict", `shipper ${shipperBps} / recipient ${recipientBps} / custodian ${custodianBps} bps by ${formatAddress(dispute.resolvedBy)}`]);
+    }
+    return `Dispute #${index}\n${table(rows)}`;
+}
+
+function formatArg(value: unknown): string {
+    if (Array.isArray(value)) return `[${value.map(formatArg).join(", ")}]`;
+    return String(value);
+}
+
+// Monitor units are hundredths of a degree / percent and milli-g
+function formatRange(thresholds: ConditionThresholds, key: "Temperature" | "Humidity", unit: string): string {
+    const min = thresholds[`min${key}`];
+    const max = thresholds[`max${key}`];
+    const low = min === UNBOUNDED_THRESHOLDS[`min${key}`] ? "-" : `${min / 100}${unit}`;
+    const high = max === UNBOUNDED_THRESHOLDS[`max${key}`] ? "-" : `${max / 100}${unit}`;
+    return `${low} .. ${high}`;
+}
+
+/**
+ * @notice A monitored shipment's thresholds and recorded breaches.
+ */
+export function formatConditions(thresholds: ConditionThresholds, breaches: readonly ConditionBreach[]): string {
+    const rows: [string, string][] = [
+        ["Temperature", formatRange(thresholds, "Temperature", " °C")],
+        ["Humidity", formatRange(thresholds, "Humidity", " %RH")],
+        ["Shock", thresholds.maxShock === UNBOUNDED_THRESHOLDS.maxShock ? "-" : `up to ${thresholds.maxShock} mg`],
+        ...breaches.map((b): [string, string] => [
+            "Breach",
+            `${formatTimestamp(BigInt(b.timestamp))}: ${b.temperature / 100} °C, ${b.humidity / 100} %RH, ${b.shock} mg from ${b.device}`,
+        ]),
+    ];
+    return `Condition monitoring\n${table(rows)}`;
+}
+
+/**
+ * @notice One line per event: its name and arguments, with statuses shown by name.
+ */
+export function formatShipmentEvent(event: ShipmentEvent): string {
+    const args = Object.entries(event.args).map(([key, value]) =>
+        event.name === "StatusChanged" && key !== "tokenId" ? `${key}=${Status[value as Status]}` : `${key}=${formatArg(value)}`
+    );
+    return `${event.name}(${args.join(", ")})`;
+}
+
+/**
+ * @notice Same layout as `formatShipmentEvent`, for events parsed with the factory or registry interface.
+ */
+export function formatParsedEvent(parsed: LogDescription): string {
+    const args = parsed.fragment.inputs.map((input, i) => `${input.name}=${formatArg(parsed.args[i])}`);
+    return `${parsed.name}(${args.join(", ")})`;
+}
@@ -0,0 +1,330 @@
+import { writeFile } from "fs/promises";
+import { ZeroAddress, parseUnits } from "ethers";
+import { task, types } from "hardhat/config";
+import { ConfigurableTaskDefinition } from "hardhat/types";
+import type { AgentInfo, AgentType } from "../sdk";
+import type { CommonTaskArgs, SendTaskArgs } from "./context";
+
+// Operator tasks over a deployed HashRoute, e.g. `npx hardhat hashroute:status --token-id 1 --network testnet`.
+// Addresses come from the network's deployment manifest. The task bodies import the SDK lazily: it needs
+// the typechain bindings, which only exist after a compile, and compiling loads this file.
+
+interface TaskOptions {
+    /** Takes `--collection`. */
+    collection?: boolean;
+    /** Sends a transaction, so takes `--from` and `--dry-run`. */
+    sends?: boolean;
+}
+
+function hashrouteTask(name: string, description: string, options: TaskOptions = {}): ConfigurableTaskDefinition {
+    const definition = task(`hashroute:${name}`, description).addOptionalParam(
+        "manifest",
+        "Deployment manifest to read the addresses from (default: deployments/<network>.json)"
+    );
+    if (options.collection) {
+        definition.addOptionalParam("collection", "Collection id from the manifest, or a collection address (default: the only collection)");
+    }
+    if (options.sends) {
+        definition
+            .addOptionalParam("from", "Account to send from (default: the first configured account)")
+            .addFlag("dryRun", "Simulate the transaction and show the revert reason if it would fail, without sending it");
+    }
+    return definition;
+}
+
+function splitList(value?: string): string[] {
+    return value ? value.split(",").map((item) => item.trim()).filter((item) => item.length > 0) : [];
+}
+
+async function requireArg<T>(value: T | undefined, flag: string, action: string): Promise<T> {
+    if (value === undefined) {
+        const { TaskError } = await import("./context");
+        throw new TaskError(`${action} needs --${flag}`);
+    }
+    return value;
+}
+
+async function parseAgentType(name: string): Promise<AgentType> {
+    const { AgentType } = await import("../sdk");
+    const agentType = AgentType[name.toUpperCase() as keyof typeof AgentType];
+    if (agentType === undefined) {
+        const { TaskError } = await import("./context");
+        throw new TaskError(`Unknown agent type ${name}; use ROUTING, ARBITRATION or FRAUD_DETECTION`);
+    }
+    return agentType;
+}
+
+//==============================================================
+// Shipments
+//==============================================================
+
+hashrouteTask("status", "Shows a shipment's details, route, status history, disputes and condition monitoring", { collection: true })
+    .addParam("tokenId", "The shipment's token ID", undefined, types.bigint)
+    .addFlag("events", "Also list every event the shipment emitted")
+    .setAction(async (args: CommonTaskArgs & { tokenId: bigint; events: boolean }, hre) => {
+        const { collectionLabel, loadCollection, paymentDecimals } = await import("./context");
+        const format = await import("./format");
+        const context = await loadCollection(hre, args);
+        const { shipments, client, manifest } = context;
+        const collection = await shipments.contract.getAddress();
+
+        const details = await shipments.getDetails(args.tokenId);
+        const summary = await client.getSummary(collection, args.tokenId);
+        const route = await client.getRoute(collection, args.tokenId);
+        const history = await shipments.getStatusHistory(args.tokenId);
+        const disputes = await shipments.getDisputes(args.tokenId);
+
+        console.log(`Shipment #${args.tokenId} in ${collectionLabel(manifest, collection)}`);
+        console.log(format.formatDetails(details, summary, route, await paymentDecimals(context, details.paymentToken)));
+        console.log("\nStatus history");
+        console.log(format.formatStatusHistory(history));
+        disputes.forEach((dispute, index) => console.log(`\n${format.formatDispute(dispute, index)}`));
+
+        const thresholds = client.conditionMonitor ? await client.getThresholds(collection, args.tokenId) : undefined;
+        const breaches = thresholds ? await client.getBreaches(collection, args.tokenId) : [];
+        if (thresholds) {
+            console.log(`\n${format.formatConditions(thresholds, breaches)}`);
+        }
+
+        if (!args.events) {
+            return { details, summary, route, history, disputes, thresholds, breaches };
+        }
+        // Nothing in the collection predates its creation, so start the scan there
+        const deployed = Object.values(manifest.collections).find((entry) => entry.address.toLowerCase() === collection.toLowerCase());
+        const events = await shipments.queryEvents(args.tokenId, deployed?.blockNumber ?? 0);
+        console.log("\nEvents");
+        for (const event of events) {
+            console.log(`  block ${event.blockNumber}  ${format.formatShipmentEvent(event)}`);
+        }
+        return { details, summary, route, history, disputes, thresholds, breaches, events };
+    });
+
+hashrouteTask("create", "Creates a shipment from the --from account, escrowing the payment", { collection: true, sends: true })
+    .addParam("recipient", "The recipient, i.e. the final stop of the route")
+    .addParam("cargo", "Cargo description")
+    .addParam("amount", "Payment to escrow, in HBAR or in whole units of --payment-token")
+    .addOptionalParam("via", "Comma-separated carriers between the shipper and the recipient")
+    .addOptionalParam("paymentToken", "ERC-20 / HTS token to escrow instead of HBAR; approved for the factory if needed")
+    .addOptionalParam("fees", "Comma-separated carrier fee per leg, in the payment's units (default: no fees)")
+    .addOptionalParam("deliveryDeadline", "Unix timestamp the shipment must be delivered by", 0n, types.bigint)
+    .addOptionalParam("latePenaltyBps", "Share of a late leg's fee withheld for the shipper, in basis points", 0n, types.bigint)
+    .addOptionalParam("secretsOut", "File to write the leg secrets to instead of printing them")
+    .setAction(
+        async (
+            args: SendTaskArgs & {
+                recipient: string;
+                cargo: string;
+                amount: string;
+                via?: string;
+                paymentToken?: string;
+                fees?: string;
+                deliveryDeadline: bigint;
+                latePenaltyBps: bigint;
+                secretsOut?: string;
+            },
+            hre
+        ) => {
+            const { execute, loadContext, paymentDecimals, resolveCollection } = await import("./context");
+            const { IERC20__factory } = await import("../typechain-types");
+            const { exportLegSecrets, generateLegSecrets, legKeyHashes } = await import("../sdk");
+            const context = await loadContext(hre, args);
+            const factory = context.client.factory;
+            const collection = resolveCollection(context.manifest, args.collection);
+
+            const route = [await context.signer.getAddress(), ...splitList(args.via), args.recipient];
+            const paymentToken = args.paymentToken ?? ZeroAddress;
+            const decimals = await paymentDecimals(context, paymentToken);
+            const amount = parseUnits(args.amount, decimals);
+            const fees = args.fees ? splitList(args.fees).map((fee) => parseUnits(fee, decimals)) : route.slice(1).map(() => 0n);
+            const secrets = generateLegSecrets(route);
+
+            if (paymentToken !== ZeroAddress) {
+                const token = IERC20__factory.connect(paymentToken, context.signer);
+                const allowance = await token.allowance(await context.signer.getAddress(), await factory.getAddress());
+                if (allowance < amount) {
+                    const approval = await execute(token.approve, [await factory.getAddress(), amount], args.dryRun);
+                    if (args.dryRun) {
+                        console.log("Dry run: createShipment can only be simulated once the factory has the allowance");
+                        return approval;
+                    }
+                }
+            }
+
+            const result = await execute(
+                factory.createShipment,
+                [
+                    collection,
+                    args.recipient,
+                    args.cargo,
+                    route,
+                    paymentToken,
+                    amount,
+                    legKeyHashes(secrets),
+                    fees,
+                    fees.map(() => 0n),
+                    args.deliveryDeadline,
+                    args.latePenaltyBps,
+                    { value: paymentToken === ZeroAddress ? amount : 0n },
+                ],
+                args.dryRun
+            );
+            if (result.receipt === undefined) {
+                return result;
+            }
+
+            const created = result.receipt.logs
+                .map((log) => factory.interface.parseLog(log))
+                .find((parsed) => parsed?.name === "ShipmentCreated");
+            const tokenId = created!.args.tokenId as bigint;
+            const exported = exportLegSecrets(collection, tokenId, secrets);
+            // Each leg's secret goes to the custodian receiving that leg, who presents it with `hashroute:verify --secret`
+            if (args.secretsOut) {
+                await writeFile(args.secretsOut, exported, { mode: 0o600 });
+                console.log(`Leg secrets for shipment #${tokenId} written to ${args.secretsOut}`);
+            } else {
+                console.log(`Leg secrets for shipment #${tokenId} (hand each to the custodian receiving that leg):\n${exported}`);
+            }
+            return { ...result, tokenId, secrets };
+        }
+    );
+
+hashrouteTask("handover", "Starts the handover of a shipment to the next custodian on its route", { collection: true, sends: true })
+    .addParam("tokenId", "The shipment's token ID", undefined, types.bigint)
+    .setAction(async (args: SendTaskArgs & { tokenId: bigint }, hre) => {
+        const { execute, loadCollection } = await import("./context");
+        const { shipments } = await loadCollection(hre, args);
+        return execute(shipments.contract.initiateHandover, [args.tokenId], args.dryRun);
+    });
+
+hashrouteTask("verify", "Requests verification of a handover as the receiving custodian, or confirms it as a fraud detection agent", {
+    collection: true,
+    sends: true,
+})
+    .addParam("tokenId", "The shipment's token ID", undefined, types.bigint)
+    .addOptionalParam("secret", "The leg secret, checked on-chain against the leg's commitment")
+    .addOptionalParam("proofHash", "Hash of the custodian's proof of receipt, for an agent to confirm")
+    .addOptionalParam("confirm", "As a fraud detection agent, confirm the handover to this custodian")
+    .setAction(async (args: SendTaskArgs & { tokenId: bigint; secret?: string; proofHash?: string; confirm?: string }, hre) => {
+        const { TaskError, execute, loadCollection } = await import("./context");
+        if ([args.secret, args.proofHash, args.confirm].filter((value) => value !== undefined).length !== 1) {
+            throw new TaskError("Pass exactly one of --secret, --proof-hash or --confirm");
+        }
+        const { contract } = (await loadCollection(hre, args)).shipments;
+        if (args.secret !== undefined) {
+            return execute(contract.requestVerificationWithSecret, [args.tokenId, args.secret], args.dryRun);
+        }
+        if (args.proofHash !== undefined) {
+            return execute(contract.requestVerification, [args.tokenId, args.proofHash], args.dryRun);
+        }
+        return execute(contract.confirmVerification, [args.tokenId, args.confirm], args.dryRun);
+    });
+
+hashrouteTask("dispute", "Raises a dispute, submits evidence, resolves it as an arbitrator or settles it once arbitration expires", {
+    collection: true,
+    sends: true,
+})
+    .addPositionalParam("action", "raise, evidence, resolve or settle")
+    .addParam("tokenId", "The shipment's token ID", undefined, types.bigint)
+    .addOptionalParam("reason", "raise: why the shipment is disputed")
+    .addOptionalParam("uri", "evidence: where the evidence is stored")
+    .addOptionalParam("contentHash", "evidence: hash of the evidence content")
+    .addOptionalParam("split", "resolve: shipper,recipient,custodian shares in basis points, totalling 10000")
+    .setAction(
+        async (args: SendTaskArgs & { action: string; tokenId: bigint; reason?: string; uri?: string; contentHash?: string; split?: string }, hre) => {
+            const { TaskError, execute, loadCollection } = await import("./context");
+            const { contract } = (await loadCollection(hre, args)).shipments;
+            switch (args.action) {
+                case "raise":
+                    return execute(contract.disputeShipment, [args.tokenId, await requireArg(args.reason, "reason", "raise")], args.dryRun);
+                case "evidence": {
+                    const uri = await requireArg(args.uri, "uri", "evidence");
+                    const contentHash = await requireArg(args.contentHash, "content-hash", "evidence");
+                    return execute(contract.submitEvidence, [args.tokenId, uri, contentHash], args.dryRun);
+                }
+                case "resolve": {
+                    const shares = splitList(await requireArg(args.split, "split", "resolve")).map(BigInt);
+                    if (shares.length !== 3) {
+                        throw new TaskError("--split needs three shares: shipper,recipient,custodian");
+                    }
+                    const [shipperBps, recipientBps, custodianBps] = shares;
+                    return execute(contract.resolveDispute, [args.tokenId, { shipperBps, recipientBps, custodianBps }], args.dryRun);
+                }
+                case "settle":
+                    return execute(contract.settleExpiredDispute, [args.tokenId], args.dryRun);
+                default:
+                    throw new TaskError(`Unknown dispute action ${args.action}; use raise, evidence, resolve or settle`);
+            }
+        }
+    );
+
+//==============================================================
+// Administration
+//==============================================================
+
+hashrouteTask("agents", "Lists the registered agents, or registers or revokes one (registry owner only)", { sends: true })
+    .addPositionalParam("action", "list, register or revoke", "list")
+    .addOptionalParam("type", "ROUTING, ARBITRATION or FRAUD_DETECTION (list: default all)")
+    .addOptionalParam("agent", "register / revoke: the agent's address")
+    .setAction(async (args: SendTaskArgs & { action: string; type?: string; agent?: string }, hre) => {
+        const { TaskError, execute, loadContext } = await import("./context");
+        const { AgentType } = await import("../sdk");
+        const format = await import("./format");
+        const { client } = await loadContext(hre, args);
+
+        if (args.action === "list") {
+            const agentTypes = args.type ? [await parseAgentType(args.type)] : [AgentType.ROUTING, AgentType.ARBITRATION, AgentType.FRAUD_DETECTION];
+            const listed: Record<string, AgentInfo[]> = {};
+            for (const agentType of agentTypes) {
+                const agents = await client.getAgents(agentType);
+                console.log(`${AgentType[agentType]} (quorum ${await client.quorum(agentType)})`);
+                if (agents.length > 0) {
+                    console.log(
+                        format.table(
+                            agents.map((agent) => [
+                                agent.agent,
+                                `bond ${format.formatAmount(agent.bond, ZeroAddress)}${agent.trusted ? "" : " (untrusted)"}${agent.metadata ? `  ${agent.metadata}` : ""}`,
+                            ])
+                        )
+                    );
+                }
+                listed[AgentType[agentType]] = agents;
+            }
+            return listed;
+        }
+
+        if (args.action !== "register" && args.action !== "revoke") {
+            throw new TaskError(`Unknown agents action ${args.action}; use list, register or revoke`);
+        }
+        const agent = await requireArg(args.agent, "agent", args.action);
+        const agentType = await parseAgentType(await requireArg(args.type, "type", args.action));
+        const method = args.action === "register" ? client.oracleRegistry.registerAgent : client.oracleRegistry.revokeAgent;
+        return execute(method, [agent, agentType], args.dryRun);
+    });
+
+hashrouteTask("collections", "Lists the factory's collections, or registers or deregisters one (factory owner only)", {
+    collection: true,
+    sends: true,
+})
+    .addPositionalParam("action", "list, register or deregister", "list")
+    .setAction(async (args: SendTaskArgs & { action: string }, hre) => {
+        const { TaskError, collectionLabel, execute, loadContext, resolveCollection } = await import("./context");
+        const format = await import("./format");
+        const { client, manifest } = await loadContext(hre, args);
+
+        if (args.action === "list") {
+            const collections: { address: string; registered: boolean }[] = [];
+            for (const address of await client.listCollections()) {
+                const registered = await client.factory.isShipmentContractRegistered(address);
+                collections.push({ address, registered });
+            }
+            console.log(format.table(collections.map(({ address, registered }) => [collectionLabel(manifest, address), registered ? "registered" : "deregistered"])));
+            return collections;
+        }
+
+        if (args.action !== "register" && args.action !== "deregister") {
+            throw new TaskError(`Unknown collections action ${args.action}; use list, register or deregister`);
+        }
+        const collection = resolveCollection(manifest, await requireArg(args.collection, "collection", args.action));
+        const method = args.action === "register" ? client.factory.registerShipmentContract : client.factory.deregisterShipmentContract;
+        return execute(method, [collection], args.dryRun);
+    });
@@ -0,0 +1,145 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { Signer } from "ethers";
+import { OracleRegistry, Shipment, ShipmentFactory } from "../typechain-types";
+import { AgentType, InvalidStateError, ShipmentClient, Status, generateLegSecrets, legKeyHashes, LegSecret } from "../sdk";
+import { getShipmentContractFactory } from "./helpers";
+
+describe("Shipment Cancellation", function () {
+    let owner: Signer, shipper: Signer, hub: Signer, recipient: Signer, fraudAgent: Signer, stranger: Signer;
+    let oracleRegistry: OracleRegistry;
+    let shipmentFactory: ShipmentFactory;
+    let shipments: Shipment;
+    let legs: LegSecret[];
+
+    const payment = ethers.parseEther("3.0");
+    const legFee = ethers.parseEther("1.0");
+
+    beforeEach(async function () {
+        [owner, shipper, hub, recipient, fraudAgent, stranger] = await ethers.getSigners();
+
+        oracleRegistry = await (await ethers.getContractFactory("OracleRegistry")).deploy();
+        shipmentFactory = await (await ethers.getContractFactory("ShipmentFactory")).deploy();
+        shipments = await (await getShipmentContractFactory()).deploy(await oracleRegistry.getAddress());
+
+        await shipments.setFactory(await shipmentFactory.getAddress());
+        await shipmentFactory.registerShipmentContract(await shipments.getAddress());
+        await oracleRegistry.registerAgent(await fraudAgent.getAddress(), AgentType.FRAUD_DETECTION);
+
+        const route = [await shipper.getAddress(), await hub.getAddress(), await recipient.getAddress()];
+        legs = generateLegSecrets(route);
+        await shipmentFactory.connect(shipper).createShipment(
+            await shipments.getAddress(), await recipient.getAddress(), "Furniture", route, ethers.ZeroAddress, payment,
+            legKeyHashes(legs), [legFee, legFee], [0n, 0n], 0, 0, { value: payment }
+        );
+    });
+
+    async function deliverToHub() {
+        await shipments.connect(shipper).initiateHandover(0);
+        await shipments.connect(hub).requestVerificationWithSecret(0, legs[0].secret);
+        await shipments.connect(fraudAgent).confirmVerification(0, await hub.getAddress());
+    }
+
+    describe("Before Pickup", function () {
+        it("Should refund the whole escrow, burn the NFT and keep the record", async function () {
+            const cancel = shipments.connect(shipper).cancelShipment(0);
+            await expect(cancel).to.changeEtherBalance(shipper, payment);
+            await expect(cancel)
+                .to.emit(shipments, "ShipmentCancelled")
+                .withArgs(0, await shipper.getAddress(), payment);
+            await expect(cancel)
+                .to.emit(shipments, "StatusChanged")
+                .withArgs(0, Status.Created, Status.Cancelled);
+
+            await expect(shipments.ownerOf(0)).to.be.revertedWithCustomError(shipments, "ERC721NonexistentToken");
+            const details = await shipments.shipmentDetails(0);
+            expect(details.status).to.equal(Status.Cancelled);
+            expect(details.paymentAmount).to.equal(0);
+            expect(details.cargoDetails).to.equal("Furniture");
+            expect(await shipments.unreleasedLegFees(0)).to.equal(0);
+        });
+
+        it("Should only let the original shipper cancel", async function () {
+            await expect(shipments.connect(recipient).cancelShipment(0)).to.be.revertedWith("Only the original shipper can cancel");
+            await expect(shipments.connect(stranger).cancelShipment(0)).to.be.revertedWith("Only the original shipper can cancel");
+        });
+    });
+
+    describe("After Pickup", function () {
+        it("Should require the recipient's approval once the first handover is initiated", async function () {
+            await shipments.connect(shipper).initiateHandover(0);
+            await expect(shipments.connect(shipper).cancelShipment(0)).to.be.revertedWith("Recipient has not approved cancellation");
+
+            await expect(shipments.connect(stranger).approveCancellation(0)).to.be.revertedWith("Only the recipient can approve cancellation");
+            await expect(shipments.connect(recipient).approveCancellation(0))
+                .to.emit(shipments, "CancellationApproved")
+                .withArgs(0, await recipient.getAddress());
+            expect(await shipments.cancellationApproved(0)).to.be.true;
+
+            await expect(shipments.connect(shipper).cancelShipment(0)).to.changeEtherBalance(shipper, payment);
+            expect((await shipments.shipmentDetails(0)).pendingCustodian).to.equal(ethers.ZeroAddress);
+        });
+
+        it("Should refund only what is left after released leg fees", async function () {
+            await deliverToHub();
+            // Back in Created, but past the first stop: the recipient still has to agree.
+            await expect(shipments.connect(shipper).cancelShipment(0)).to.be.revertedWith("Recipient has not approved cancellation");
+
+            await shipments.connect(recipient).approveCancellation(0);
+            await expect(shipments.connect(shipper).cancelShipment(0)).to.changeEtherBalance(shipper, payment - legFee);
+            expect(await shipments.claimableFees(await hub.getAddress(), ethers.ZeroAddress)).to.equal(legFee);
+        });
+
+        it("Should not cancel a disputed shipment, even with the recipient's approval", async function () {
+            await shipments.connect(shipper).initiateHandover(0);
+            await shipments.connect(recipient).approveCancellation(0);
+            await shipments.connect(shipper).disputeShipment(0, "Wrong item");
+            await expect(shipments.connect(shipper).cancelShipment(0)).to.be.revertedWith("Recipient has not approved cancellation");
+            await expect(shipments.connect(recipient).approveCancellation(0)).to.be.revertedWith("Shipment not in a state for cancellation approval");
+        });
+
+        it("Should only take the recipient's approval once the shipment is under way", async function () {
+            await expect(shipments.connect(recipient).approveCancellation(0)).to.be.revertedWith("Shipment not in a state for cancellation approval");
+
+            await shipments.connect(shipper).cancelShipment(0);
+            await expect(shipments.connect(recipient).approveCancellation(0)).to.be.revertedWith("Shipment not in a state for cancellation approval");
+        });
+
+        it("Should withdraw the approval when the shipment's status changes", async function () {
+            await shipments.connect(shipper).initiateHandover(0);
+            await shipments.connect(recipient).approveCancellation(0);
+            await shipments.connect(hub).requestVerificationWithSecret(0, legs[0].secret);
+
+            expect(await shipments.cancellationApproved(0)).to.be.false;
+            await expect(shipments.connect(shipper).cancelShipment(0)).to.be.revertedWith("Recipient has not approved cancellation");
+
+            await shipments.connect(recipient).approveCancellation(0);
+            await expect(shipments.connect(shipper).cancelShipment(0)).to.changeEtherBalance(shipper, payment);
+        });
+    });
+
+    describe("SDK", function () {
+        it("Should decode ShipmentCancelled from the client's receipt and type the errors", async function () {
+            const client = new ShipmentClient(await shipments.getAddress(), shipper);
+            await deliverToHub();
+
+            try {
+                await client.cancelShipment(0);
+                expect.fail("Expected the cancellation to be refused");
+            } catch (error) {
+                expect(error).to.be.instanceOf(InvalidStateError);
+                expect((error as InvalidStateError).code).to.equal("CANCELLATION_NOT_APPROVED");
+            }
+
+            const approval = await new ShipmentClient(await shipments.getAddress(), recipient).approveCancellation(0);
+            expect(approval.events.map((e) => e.name)).to.deep.equal(["CancellationApproved"]);
+            expect(await client.cancellationApproved(0)).to.be.true;
+
+            const { events } = await client.cancelShipment(0);
+            const cancelled = events.find((e) => e.name === "ShipmentCancelled");
+            expect(cancelled?.args).to.deep.equal({ tokenId: 0n, shipper: await shipper.getAddress(), refund: payment - legFee });
+            expect((await client.getDetails(0)).status).to.equal(Status.Cancelled);
+            expect((await client.getStatusHistory(0)).map((entry) => entry.status).slice(-1)).to.deep.equal([Status.Cancelled]);
+        });
+    });
+});
@@ -0,0 +1,114 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { Signer } from "ethers";
+import { OracleRegistry, Shipment, ShipmentFactory } from "../typechain-types";
+import { AgentType, HashRouteClient, ShipmentClient, Status, generateLegSecrets, legKeyHashes, shipmentDomain, signRequest } from "../sdk";
+import { getShipmentContractFactory } from "./helpers";
+
+describe("Cloned Collections", function () {
+    let owner: Signer, shipper: Signer, recipient: Signer, fraudAgent: Signer, stranger: Signer;
+    let oracleRegistry: OracleRegistry;
+    let shipmentFactory: ShipmentFactory;
+    let implementation: Shipment;
+    let client: HashRouteClient;
+
+    const payment = ethers.parseEther("1.0");
+
+    beforeEach(async function () {
+        [owner, shipper, recipient, fraudAgent, stranger] = await ethers.getSigners();
+
+        oracleRegistry = await (await ethers.getContractFactory("OracleRegistry")).deploy();
+        shipmentFactory = await (await ethers.getContractFactory("ShipmentFactory")).deploy();
+        implementation = await (await getShipmentContractFactory()).deploy(await oracleRegistry.getAddress());
+        await shipmentFactory.setShipmentImplementation(await implementation.getAddress());
+        await oracleRegistry.registerAgent(await fraudAgent.getAddress(), AgentType.FRAUD_DETECTION);
+
+        client = new HashRouteClient({ factory: await shipmentFactory.getAddress(), oracleRegistry: await oracleRegistry.getAddress() }, owner);
+    });
+
+    async function createCollection(name = "Cold Chain", symbol = "COLD"): Promise<Shipment> {
+        const { collection } = await client.createCollection(name, symbol);
+        return ethers.getContractAt("Shipment", collection);
+    }
+
+    describe("Deployment", function () {
+        it("Should deploy, initialize and register a collection in one transaction", async function () {
+            const collection = await createCollection();
+
+            expect(await collection.name()).to.equal("Cold Chain");
+            expect(await collection.symbol()).to.equal("COLD");
+            expect(await collection.owner()).to.equal(await owner.getAddress());
+            expect(await collection.factoryAddress()).to.equal(await shipmentFactory.getAddress());
+            expect(await collection.oracleRegistry()).to.equal(await oracleRegistry.getAddress());
+            expect(await collection.routeAcceptanceWindow()).to.equal(3 * 24 * 60 * 60);
+            expect(await shipmentFactory.isShipmentContractRegistered(collection)).to.equal(true);
+
+            // Clones share the implementation's code but not its state.
+            expect(await implementation.name()).to.equal("HBARgo Shipment");
+            expect(await ethers.provider.getCode(collection)).to.have.length.below((await ethers.provider.getCode(implementation)).length);
+        });
+
+        it("Should refuse to initialize a collection twice, or the implementation at all", async function () {
+            const collection = await createCollection();
+            const args = ["Hijacked", "HJK", await oracleRegistry.getAddress(), await stranger.getAddress(), await stranger.getAddress()] as const;
+
+            await expect(collection.connect(stranger).initialize(...args)).to.be.revertedWithCustomError(collection, "InvalidInitialization");
+            await expect(implementation.connect(stranger).initialize(...args)).to.be.revertedWithCustomError(implementation, "InvalidInitialization");
+        });
+
+        it("Should only let the owner create collections, once an implementation is set", async function () {
+            await expect(shipmentFactory.connect(stranger).createCollection("Rogue", "RGE", oracleRegistry))
+                .to.be.revertedWithCustomError(shipmentFactory, "OwnableUnauthorizedAccount");
+
+            const bare = await (await ethers.getContractFactory("ShipmentFactory")).deploy();
+            await expect(bare.createCollection("Cold Chain", "COLD", oracleRegistry))
+                .to.be.revertedWith("Factory: Shipment implementation not set");
+            await expect(bare.setShipmentImplementation(await stranger.getAddress()))
+                .to.be.revertedWith("Factory: Implementation is not a contract");
+        });
+
+        it("Should list every collection once, including deregistered ones", async function () {
+            const first = await createCollection();
+            const manual = await (await getShipmentContractFactory()).deploy(await oracleRegistry.getAddress());
+            await shipmentFactory.registerShipmentContract(manual);
+            await shipmentFactory.deregisterShipmentContract(manual);
+            await shipmentFactory.registerShipmentContract(manual);
+            await shipmentFactory.deregisterShipmentContract(first);
+            const second = await createCollection("Bulk", "BULK");
+
+            expect(await client.listCollections()).to.deep.equal([
+                await first.getAddress(),
+                await manual.getAddress(),
+                await second.getAddress(),
+            ]);
+        });
+    });
+
+    describe("Workflow", function () {
+        it("Should run a shipment, including a signed handover, on a cloned collection", async function () {
+            const collection = await createCollection();
+            const route = [await shipper.getAddress(), await recipient.getAddress()];
+            await shipmentFactory.connect(shipper).createShipment(
+                collection, route[1], "Vaccines", route, ethers.ZeroAddress, payment,
+                legKeyHashes(generateLegSecrets(route)), [0n], [0n], 0, 0, { value: payment }
+            );
+            expect(await collection.ownerOf(0)).to.equal(route[0]);
+
+            const handover = await signRequest(shipper, await shipmentDomain(shipmentFactory), {
+                action: "initiateHandover",
+                collection: await collection.getAddress(),
+                tokenId: 0n,
+                signer: route[0],
+                nonce: 0n,
+                deadline: BigInt((await time.latest()) + 3600),
+            });
+            await new ShipmentClient(await collection.getAddress(), stranger).submitSigned(handover);
+
+            await collection.connect(recipient).requestVerification(0, ethers.ZeroHash);
+            await collection.connect(fraudAgent).confirmVerification(0, route[1]);
+            await expect(collection.connect(shipper).finalizeAndPay(0)).to.changeEtherBalance(shipper, payment);
+            expect((await collection.shipmentDetails(0)).status).to.equal(Status.Completed);
+        });
+    });
+});
@@ -0,0 +1,299 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { Signer, TypedDataDomain, Wallet } from "ethers";
+import { ConditionMonitor, OracleRegistry, Shipment, ShipmentFactory } from "../typechain-types";
+import {
+    AgentType,
+    ConditionThresholds,
+    HashRouteClient,
+    InvalidStateError,
+    ReadingsTree,
+    Status,
+    UNBOUNDED_THRESHOLDS,
+    UnauthorizedError,
+    breachedThreshold,
+    generateLegSecrets,
+    legKeyHashes,
+    signReading,
+} from "../sdk";
+import { DeviceSimulator } from "../devices";
+import { getShipmentContractFactory } from "./helpers";
+
+describe("Condition Monitoring", function () {
+    let shipper: Signer, warehouse: Signer, recipient: Signer, fraudAgent: Signer, stranger: Signer;
+    let oracleRegistry: OracleRegistry;
+    let shipmentFactory: ShipmentFactory;
+    let shipments: Shipment;
+    let monitor: ConditionMonitor;
+    let client: HashRouteClient;
+    let domain: TypedDataDomain;
+    let device: DeviceSimulator;
+    let collection: string;
+
+    const payment = ethers.parseEther("1.0");
+    // 2-8 °C, at most 85 %RH and 2 g
+    const coldChain: ConditionThresholds = { ...UNBOUNDED_THRESHOLDS, minTemperature: 200, maxTemperature: 800, maxHumidity: 8500, maxShock: 2000 };
+
+    beforeEach(async function () {
+        [, shipper, warehouse, recipient, fraudAgent, stranger] = await ethers.getSigners();
+
+        oracleRegistry = await (await ethers.getContractFactory("OracleRegistry")).deploy();
+        shipmentFactory = await (await ethers.getContractFactory("ShipmentFactory")).deploy();
+        shipments = await (await getShipmentContractFactory()).deploy(await oracleRegistry.getAddress());
+        monitor = await (await ethers.getContractFactory("ConditionMonitor")).deploy(await shipmentFactory.getAddress());
+        collection = await shipments.getAddress();
+
+        await shipments.setFactory(await shipmentFactory.getAddress());
+        await shipmentFactory.registerShipmentContract(collection);
+        await shipmentFactory.setConditionMonitor(await monitor.getAddress());
+        await oracleRegistry.registerAgent(await fraudAgent.getAddress(), AgentType.FRAUD_DETECTION);
+
+        const route = [await shipper.getAddress(), await warehouse.getAddress(), await recipient.getAddress()];
+        for (let i = 0; i < 2; i++) {
+            await shipmentFactory.connect(shipper).createShipment(
+                collection, await recipient.getAddress(), "Vaccines", route, ethers.ZeroAddress, payment,
+                legKeyHashes(generateLegSecrets(route)), [0n, 0n], [0n, 0n], 0, 0, { value: payment }
+            );
+        }
+
+        client = new HashRouteClient(
+            {
+                factory: await shipmentFactory.getAddress(),
+                oracleRegistry: await oracleRegistry.getAddress(),
+                conditionMonitor: await monitor.getAddress(),
+            },
+            shipper
+        );
+        domain = await client.monitorDomain();
+        device = new DeviceSimulator(domain, { seed: 7 });
+    });
+
+    // Configures shipment 0 with the cold-chain thresholds and returns when monitoring started
+    async function monitorShipment(): Promise<number> {
+        await client.configureMonitoring(collection, 0, coldChain, [device.address]);
+        return time.latest();
+    }
+
+    // Ten readings a minute apart from `start`, out of range at the given indexes
+    async function readings(start: number, excursions: number[] = []) {
+        const signed = await device.generate({
+            collection,
+            tokenId: 0n,
+            start,
+            interval: 60,
+            count: 10,
+            excursions: excursions.map((index) => ({ index, temperature: 1250 })),
+        });
+        await time.increaseTo(start + 10 * 60);
+        return signed;
+    }
+
+    describe("Configuration", function () {
+        it("Should record the thresholds and devices for the shipper", async function () {
+            await expect(monitor.connect(shipper).configure(collection, 0, coldChain, [device.address]))
+                .to.emit(monitor, "MonitoringConfigured")
+                .withArgs(collection, 0, [coldChain.minTemperature, coldChain.maxTemperature, coldChain.minHumidity, coldChain.maxHumidity, coldChain.maxShock], [device.address]);
+
+            expect(await client.getThresholds(collection, 0)).to.deep.equal(coldChain);
+            expect(await client.getThresholds(collection, 1)).to.equal(undefined);
+            expect(await monitor.isDevice(collection, 0, device.address)).to.equal(true);
+        });
+
+        it("Should only let the shipper configure a registered, unmoved shipment once", async function () {
+            await expect(monitor.connect(stranger).configure(collection, 0, coldChain, [device.address]))
+                .to.be.revertedWith("Monitor: Only the shipper can configure monitoring");
+            await expect(monitor.connect(shipper).configure(await oracleRegistry.getAddress(), 0, coldChain, [device.address]))
+                .to.be.revertedWith("Monitor: Collection not registered");
+
+            await monitorShipment();
+            await expect(monitor.connect(shipper).configure(collection, 0, coldChain, [device.address]))
+                .to.be.revertedWith("Monitor: Monitoring already configured");
+
+            await shipments.connect(shipper).initiateHandover(1);
+            await expect(monitor.connect(shipper).configure(collection, 1, coldChain, [device.address]))
+                .to.be.revertedWith("Monitor: Shipment already left the shipper");
+        });
+
+        it("Should reject inverted thresholds and missing devices", async function () {
+            await expect(monitor.connect(shipper).configure(collection, 0, { ...coldChain, minTemperature: 900 }, [device.address]))
+                .to.be.revertedWith("Monitor: Invalid thresholds");
+            await expect(monitor.connect(shipper).configure(collection, 0, { ...coldChain, maxHumidity: 10_001 }, [device.address]))
+                .to.be.revertedWith("Monitor: Invalid thresholds");
+            await expect(monitor.connect(shipper).configure(collection, 0, coldChain, [])).to.be.revertedWith("Monitor: At least one device required");
+            await expect(monitor.connect(shipper).configure(collection, 0, coldChain, [ethers.ZeroAddress]))
+                .to.be.revertedWith("Monitor: Device cannot be zero");
+        });
+
+        it("Should declare the thresholds and devices in the transaction that creates the shipment", async function () {
+            const route = [await shipper.getAddress(), await warehouse.getAddress(), await recipient.getAddress()];
+            const { tokenId, receipt } = await client.createShipment({
+                collection,
+                recipient: await recipient.getAddress(),
+                cargoDetails: "Insulin",
+                plannedRoute: route,
+                paymentAmount: payment,
+                legKeyHashes: legKeyHashes(generateLegSecrets(route)),
+                legFees: [0n, 0n],
+                monitoring: { thresholds: coldChain, devices: [device.address] },
+            });
+
+            expect(tokenId).to.equal(2n);
+            expect(await client.getThresholds(collection, tokenId)).to.deep.equal(coldChain);
+            expect(await monitor.isDevice(collection, tokenId, device.address)).to.equal(true);
+            expect(await monitor.monitoredSince(collection, tokenId)).to.equal((await ethers.provider.getBlock(receipt.blockNumber))!.timestamp);
+            const error = await client.configureMonitoring(collection, tokenId, coldChain, [device.address]).catch((e) => e);
+            expect(error).to.be.instanceOf(InvalidStateError);
+            expect(error.code).to.equal("MONITORING_ALREADY_CONFIGURED");
+        });
+
+        it("Should create no shipment when the monitor rejects its configuration", async function () {
+            const route = [await shipper.getAddress(), await warehouse.getAddress(), await recipient.getAddress()];
+            const create = (factory: ShipmentFactory, thresholds: ConditionThresholds, devices: string[]) =>
+                factory.connect(shipper).createMonitoredShipment(
+                    collection, route[2], "Insulin", route, ethers.ZeroAddress, payment,
+                    legKeyHashes(generateLegSecrets(route)), [0n, 0n], [0n, 0n], 0, 0, thresholds, devices, { value: payment }
+                );
+
+            await expect(create(shipmentFactory, { ...coldChain, minTemperature: 900 }, [device.address])).to.be.revertedWith("Monitor: Invalid thresholds");
+            await expect(create(shipmentFactory, coldChain, [])).to.be.revertedWith("Monitor: At least one device required");
+            expect(await shipmentFactory.shipmentNonce(collection)).to.equal(2n);
+
+            const unmonitored = await (await ethers.getContractFactory("ShipmentFactory")).deploy();
+            await expect(create(unmonitored, coldChain, [device.address])).to.be.revertedWith("Factory: Condition monitor not set");
+            await expect(monitor.connect(shipper).configureFor(collection, 0, await shipper.getAddress(), coldChain, [device.address]))
+                .to.be.revertedWith("Monitor: Caller is not the factory");
+        });
+    });
+
+    describe("Signed Readings", function () {
+        it("Should accept an in-range batch without disputing", async function () {
+            const batch = await readings(await monitorShipment());
+            expect(batch.every((reading) => breachedThreshold(coldChain, reading) === undefined)).to.equal(true);
+
+            const { breaches } = await client.submitReadings(collection, 0, batch);
+            expect(breaches).to.equal(0n);
+            expect((await shipments.shipmentDetails(0)).status).to.equal(Status.Created);
+            expect(await client.getBreaches(collection, 0)).to.deep.equal([]);
+        });
+
+        it("Should dispute the shipment on an out-of-range reading and record it", async function () {
+            const batch = await readings(await monitorShipment(), [4]);
+
+            await expect(monitor.connect(shipper).submitReadings(collection, 0, batch))
+                .to.emit(monitor, "ConditionBreached")
+                .withArgs(collection, 0, device.address, batch[4].timestamp, 1250, batch[4].humidity, batch[4].shock)
+                .and.to.emit(shipments, "DisputeRaised")
+                .withArgs(0, await monitor.getAddress(), "Temperature out of range");
+
+            expect((await shipments.shipmentDetails(0)).status).to.equal(Status.Disputed);
+            const [breach] = await client.getBreaches(collection, 0);
+            expect(breach).to.include({ device: device.address, timestamp: batch[4].timestamp, temperature: 1250, submittedBy: await shipper.getAddress() });
+        });
+
+        it("Should keep recording breaches of a disputed shipment without raising another dispute", async function () {
+            const start = await monitorShipment();
+            const first = await readings(start, [2]);
+            await client.submitReadings(collection, 0, first);
+
+            const second = await device.generate({ collection, tokenId: 0n, start: start + 600, interval: 60, count: 3, excursions: [{ index: 0, shock: 5000 }] });
+            await time.increase(600);
+            const { breaches } = await client.submitReadings(collection, 0, [...second, first[2]]);
+            expect(breaches).to.equal(1n);
+
+            expect(await client.getBreaches(collection, 0)).to.have.length(2);
+            expect(await shipments.getDisputes(0)).to.have.length(1);
+        });
+
+        it("Should reject readings not signed by a registered device or outside the monitoring period", async function () {
+            const start = await monitorShipment();
+            const impostor = await signReading(Wallet.createRandom(), domain, collection, 0n, { timestamp: start, temperature: 1250, humidity: 0, shock: 0 });
+            await expect(monitor.connect(shipper).submitReadings(collection, 0, [impostor])).to.be.revertedWith("Monitor: Reading not signed by a device");
+
+            const otherShipment = await device.sign(collection, 1n, { timestamp: start, temperature: 500, humidity: 0, shock: 0 });
+            await expect(monitor.connect(shipper).submitReadings(collection, 0, [otherShipment])).to.be.revertedWith("Monitor: Reading not signed by a device");
+
+            const early = await device.sign(collection, 0n, { timestamp: start - 1, temperature: 500, humidity: 0, shock: 0 });
+            await expect(monitor.connect(shipper).submitReadings(collection, 0, [early])).to.be.revertedWith("Monitor: Reading outside the monitoring period");
+        });
+
+        it("Should only accept readings from the custodians and fraud detection agents", async function () {
+            const batch = await readings(await monitorShipment());
+
+            await expect(monitor.connect(stranger).submitReadings(collection, 0, batch)).to.be.revertedWith("Monitor: Caller cannot submit readings");
+            const strangerClient = new HashRouteClient(
+                { factory: await shipmentFactory.getAddress(), oracleRegistry: await oracleRegistry.getAddress(), conditionMonitor: await monitor.getAddress() },
+                stranger
+            );
+            const error = await strangerClient.submitReadings(collection, 0, batch).catch((e) => e);
+            expect(error).to.be.instanceOf(UnauthorizedError);
+            expect(error.code).to.equal("NOT_READINGS_SUBMITTER");
+
+            await shipments.connect(shipper).initiateHandover(0);
+            await monitor.connect(warehouse).submitReadings(collection, 0, batch);
+            await monitor.connect(fraudAgent).submitReadings(collection, 0, batch);
+
+            await expect(shipmentFactory.connect(stranger).disputeForCondition(collection, 0, "Temperature out of range"))
+                .to.be.revertedWith("Factory: Caller is not the condition monitor");
+        });
+
+        it("Should refuse readings for unmonitored shipments", async function () {
+            const reading = await device.sign(collection, 1n, { timestamp: await time.latest(), temperature: 500, humidity: 0, shock: 0 });
+            await expect(monitor.connect(shipper).submitReadings(collection, 1, [reading])).to.be.revertedWith("Monitor: Shipment not monitored");
+        });
+    });
+
+    describe("Readings Roots", function () {
+        it("Should let anyone prove a breach from a committed batch", async function () {
+            const batch = await readings(await monitorShipment(), [6]);
+            const tree = new ReadingsTree(batch);
+            expect(await monitor.readingLeaf(batch[6])).to.equal(await monitor.readingLeaf({ ...batch[6], signature: "0x" }));
+
+            const { batchIndex } = await client.submitReadingsRoot(collection, 0, tree.root, batch.length, "ipfs://readings");
+            expect(batchIndex).to.equal(0n);
+            const [committed] = await client.getReadingsBatches(collection, 0);
+            expect(committed).to.include({ root: tree.root, count: 10n, submittedBy: await shipper.getAddress() });
+
+            await expect(monitor.connect(stranger).proveBreach(collection, 0, 0, batch[5], tree.proof(5)))
+                .to.be.revertedWith("Monitor: Reading within thresholds");
+            await expect(monitor.connect(stranger).proveBreach(collection, 0, 0, batch[6], tree.proof(5)))
+                .to.be.revertedWith("Monitor: Reading not in batch");
+            await expect(monitor.connect(stranger).proveBreach(collection, 0, 1, batch[6], tree.proof(6)))
+                .to.be.revertedWith("Monitor: Unknown readings batch");
+
+            await expect(monitor.connect(stranger).proveBreach(collection, 0, 0, batch[6], tree.proof(6)))
+                .to.emit(shipments, "DisputeRaised")
+                .withArgs(0, await monitor.getAddress(), "Temperature out of range");
+            expect((await client.getBreaches(collection, 0))[0].submittedBy).to.equal(await stranger.getAddress());
+        });
+
+        it("Should record each signed reading only once", async function () {
+            const batch = await readings(await monitorShipment(), [1]);
+            const tree = new ReadingsTree(batch);
+            await client.submitReadingsRoot(collection, 0, tree.root, batch.length, "ipfs://readings");
+
+            await monitor.connect(fraudAgent).submitReadings(collection, 0, [batch[1]]);
+            await expect(monitor.connect(stranger).proveBreach(collection, 0, 0, batch[1], tree.proof(1)))
+                .to.be.revertedWith("Monitor: Breach already recorded");
+            expect(await client.getBreaches(collection, 0)).to.have.length(1);
+        });
+    });
+
+    describe("Device Simulator", function () {
+        it("Should generate the same signed readings for the same seed", async function () {
+            const options = { collection, tokenId: 0n, start: 1_700_000_000, interval: 300, count: 5, excursions: [{ index: 2, humidity: 9900 }] };
+            const again = new DeviceSimulator(domain, { seed: 7 });
+
+            expect(again.address).to.equal(device.address);
+            const [first, second] = [await device.generate(options), await again.generate(options)];
+            expect(second).to.deep.equal(first);
+            expect(first.map((reading) => breachedThreshold(coldChain, reading))).to.deep.equal([
+                undefined,
+                undefined,
+                "Humidity out of range",
+                undefined,
+                undefined,
+            ]);
+        });
+    });
+});
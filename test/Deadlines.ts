@@ -0,0 +1,179 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { Signer } from "ethers";
+import { Shipment, ShipmentFactory, OracleRegistry } from "../typechain-types";
+import { AgentType, Status, generateLegSecrets, legKeyHashes, LegSecret } from "../sdk";
+import { getShipmentContractFactory } from "./helpers";
+
+describe("Delivery Deadlines and Timeouts", function () {
+    let owner: Signer, shipper: Signer, distributor: Signer, recipient: Signer, fraudAgent: Signer;
+    let oracleRegistry: OracleRegistry;
+    let shipmentFactory: ShipmentFactory;
+    let shipments: Shipment;
+
+    const ONE_DAY = 24 * 60 * 60;
+    const payment = ethers.parseEther("3.0");
+    const legFee = ethers.parseEther("1.0");
+
+    beforeEach(async function () {
+        [owner, shipper, distributor, recipient, fraudAgent] = await ethers.getSigners();
+
+        oracleRegistry = await (await ethers.getContractFactory("OracleRegistry")).deploy();
+        shipmentFactory = await (await ethers.getContractFactory("ShipmentFactory")).deploy();
+        shipments = await (await getShipmentContractFactory()).deploy(await oracleRegistry.getAddress());
+
+        await shipments.setFactory(await shipmentFactory.getAddress());
+        await shipmentFactory.registerShipmentContract(await shipments.getAddress());
+        await oracleRegistry.connect(owner).registerAgent(await fraudAgent.getAddress(), AgentType.FRAUD_DETECTION);
+    });
+
+    async function createShipment(legDeadlines: number[], deliveryDeadline: number, latePenaltyBps: number): Promise<LegSecret[]> {
+        const route = [await shipper.getAddress(), await distributor.getAddress(), await recipient.getAddress()];
+        const legs = generateLegSecrets(route);
+        await shipmentFactory.connect(shipper).createShipment(
+            await shipments.getAddress(),
+            await recipient.getAddress(),
+            "Perishables",
+            route,
+            ethers.ZeroAddress,
+            payment,
+            legKeyHashes(legs),
+            [legFee, legFee],
+            legDeadlines,
+            deliveryDeadline,
+            latePenaltyBps,
+            { value: payment }
+        );
+        return legs;
+    }
+
+    async function verifyLeg(tokenId: number, from: Signer, to: Signer, secret: string) {
+        await shipments.connect(from).initiateHandover(tokenId);
+        await shipments.connect(to).requestVerificationWithSecret(tokenId, secret);
+        await shipments.connect(fraudAgent).confirmVerification(tokenId, await to.getAddress());
+    }
+
+    describe("Creation", function () {
+        it("Should reject a delivery deadline in the past", async function () {
+            const now = await time.latest();
+            await expect(createShipment([0, 0], now - 1, 0)).to.be.revertedWith("Factory: Delivery deadline must be in the future");
+        });
+
+        it("Should reject a late penalty above 100%", async function () {
+            await expect(createShipment([0, 0], 0, 10_001)).to.be.revertedWith("Factory: Late penalty cannot exceed 100%");
+        });
+
+        it("Should reject a deadline schedule that does not match the legs", async function () {
+            await expect(createShipment([0], 0, 0)).to.be.revertedWith("Factory: One deadline per route leg required");
+        });
+
+        it("Should store the deadlines", async function () {
+            const now = await time.latest();
+            await createShipment([now + ONE_DAY, now + 2 * ONE_DAY], now + 3 * ONE_DAY, 2_500);
+
+            expect(await shipments.getLegDeadlines(0)).to.deep.equal([BigInt(now + ONE_DAY), BigInt(now + 2 * ONE_DAY)]);
+            const details = await shipments.shipmentDetails(0);
+            expect(details.deliveryDeadline).to.equal(now + 3 * ONE_DAY);
+            expect(details.latePenaltyBps).to.equal(2_500);
+        });
+    });
+
+    describe("Refunds", function () {
+        it("Should let the shipper reclaim the escrow once a custodian misses a leg deadline", async function () {
+            const now = await time.latest();
+            await createShipment([now + ONE_DAY, 0], 0, 0);
+            await shipments.connect(shipper).initiateHandover(0);
+
+            expect(await shipments.isOverdue(0)).to.be.false;
+            await expect(shipments.connect(shipper).claimTimeoutRefund(0)).to.be.revertedWith("Shipment is not overdue");
+
+            await time.increaseTo(now + ONE_DAY + 1);
+            expect(await shipments.isOverdue(0)).to.be.true;
+
+            await expect(shipments.connect(recipient).claimTimeoutRefund(0))
+                .to.be.revertedWith("Only the original shipper can claim a refund");
+            const refund = shipments.connect(shipper).claimTimeoutRefund(0);
+            await expect(refund).to.emit(shipments, "TimeoutRefunded").withArgs(0, await shipper.getAddress(), payment);
+            await expect(refund).to.changeEtherBalances([shipper, shipments], [payment, -payment]);
+
+            const details = await shipments.shipmentDetails(0);
+            expect(details.status).to.equal(Status.Completed);
+            expect(details.paymentAmount).to.equal(0);
+            expect(await shipments.isOverdue(0)).to.be.false;
+        });
+
+        it("Should refund only the unreleased escrow when an agent never answers", async function () {
+            const now = await time.latest();
+            const legs = await createShipment([0, 0], now + ONE_DAY, 0);
+            await verifyLeg(0, shipper, distributor, legs[0].secret);
+
+            // The second leg gets stuck waiting for the agent.
+            await shipments.connect(distributor).initiateHandover(0);
+            await shipments.connect(recipient).requestVerificationWithSecret(0, legs[1].secret);
+            expect((await shipments.shipmentDetails(0)).status).to.equal(Status.AwaitingVerification);
+
+            await time.increaseTo(now + ONE_DAY + 1);
+            await expect(shipments.connect(shipper).claimTimeoutRefund(0))
+                .to.changeEtherBalance(shipper, payment - legFee);
+
+            // The distributor keeps the fee it already earned.
+            expect(await shipments.claimableFees(await distributor.getAddress(), ethers.ZeroAddress)).to.equal(legFee);
+            expect(await ethers.provider.getBalance(shipments)).to.equal(legFee);
+        });
+
+        it("Should not treat a delivered shipment as overdue", async function () {
+            const now = await time.latest();
+            const legs = await createShipment([0, 0], now + ONE_DAY, 0);
+            await verifyLeg(0, shipper, distributor, legs[0].secret);
+            await verifyLeg(0, distributor, recipient, legs[1].secret);
+
+            await time.increaseTo(now + 2 * ONE_DAY);
+            expect(await shipments.isOverdue(0)).to.be.false;
+            await expect(shipments.connect(shipper).claimTimeoutRefund(0)).to.be.revertedWith("Shipment is not overdue");
+        });
+    });
+
+    describe("Escalation", function () {
+        it("Should let the shipper push an overdue shipment into dispute", async function () {
+            const now = await time.latest();
+            await createShipment([0, 0], now + ONE_DAY, 0);
+
+            await expect(shipments.connect(shipper).escalateTimeout(0)).to.be.revertedWith("Shipment is not overdue");
+
+            await time.increaseTo(now + ONE_DAY + 1);
+            await expect(shipments.connect(distributor).escalateTimeout(0))
+                .to.be.revertedWith("Only the original shipper can escalate a timeout");
+            await expect(shipments.connect(shipper).escalateTimeout(0))
+                .to.emit(shipments, "DisputeRaised")
+                .withArgs(0, await shipper.getAddress(), "Deadline missed");
+
+            expect((await shipments.shipmentDetails(0)).status).to.equal(Status.Disputed);
+            // Once in dispute, the escrow is for the arbitrator to settle.
+            await expect(shipments.connect(shipper).claimTimeoutRefund(0)).to.be.revertedWith("Shipment is not overdue");
+        });
+    });
+
+    describe("Late Penalty", function () {
+        it("Should withhold the penalty share of a late leg's fee for the shipper", async function () {
+            const now = await time.latest();
+            const legs = await createShipment([now + ONE_DAY, 0], 0, 2_500);
+
+            await shipments.connect(shipper).initiateHandover(0);
+            await time.increaseTo(now + ONE_DAY + 1);
+            await shipments.connect(distributor).requestVerificationWithSecret(0, legs[0].secret);
+
+            const reducedFee = legFee - (legFee * 2_500n) / 10_000n;
+            await expect(shipments.connect(fraudAgent).confirmVerification(0, await distributor.getAddress()))
+                .to.emit(shipments, "LegFeeReleased")
+                .withArgs(0, 0, await distributor.getAddress(), reducedFee);
+
+            // The second leg has no deadline, so it is paid in full.
+            await verifyLeg(0, distributor, recipient, legs[1].secret);
+            expect(await shipments.claimableFees(await recipient.getAddress(), ethers.ZeroAddress)).to.equal(legFee);
+
+            await expect(shipments.connect(shipper).finalizeAndPay(0))
+                .to.changeEtherBalance(shipper, payment - reducedFee - legFee);
+        });
+    });
+});
@@ -0,0 +1,96 @@
+import { expect } from "chai";
+import hre, { ethers } from "hardhat";
+import { mkdtempSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { AgentType, HashRouteClient, loadManifest, manifestAddresses, manifestCollections, staleAbis } from "../sdk";
+import { DeployHashRouteOptions, HashRouteDeploymentConfig, deployHashRoute, parseDeploymentConfig } from "../ignition";
+
+describe("Ignition Deployment", function () {
+    let config: HashRouteDeploymentConfig;
+    let options: DeployHashRouteOptions;
+
+    const usdc = "0x0000000000000000000000000000000000068cDa";
+
+    beforeEach(async function () {
+        const [, fraudAgent, routingAgent] = await ethers.getSigners();
+        const dir = mkdtempSync(join(tmpdir(), "hashroute-deploy-"));
+        // A fresh journal per test, so every test starts from an empty deployment
+        options = { deploymentDir: join(dir, "journal"), manifestPath: join(dir, "manifest.json") };
+        config = {
+            collections: [{ id: "Electronics", name: "HBARgo Electronics Shipment", symbol: "HGO-EL", paymentTokens: [usdc] }],
+            agents: [
+                { address: await fraudAgent.getAddress(), type: "FRAUD_DETECTION" },
+                { address: await routingAgent.getAddress(), type: "ROUTING" },
+            ],
+        };
+    });
+
+    it("Should deploy and link the contracts, create the collections and register the agents", async function () {
+        const manifest = await deployHashRoute(hre, config, options);
+
+        const factory = await ethers.getContractAt("ShipmentFactory", manifest.contracts.ShipmentFactory.address);
+        const registry = await ethers.getContractAt("OracleRegistry", manifest.contracts.OracleRegistry.address);
+        const electronics = await ethers.getContractAt("Shipment", manifest.collections.Electronics.address);
+
+        expect(await factory.shipmentImplementation()).to.equal(manifest.contracts.ShipmentImplementation.address);
+        expect(await factory.listCollections()).to.deep.equal([manifest.collections.Electronics.address]);
+        expect(await electronics.symbol()).to.equal("HGO-EL");
+        expect(await electronics.factoryAddress()).to.equal(await factory.getAddress());
+        expect(await electronics.oracleRegistry()).to.equal(await registry.getAddress());
+        expect(await electronics.isPaymentTokenAllowed(usdc)).to.equal(true);
+        expect(await registry.isAgent(AgentType.FRAUD_DETECTION, config.agents[0].address)).to.equal(true);
+        expect(await registry.isAgent(AgentType.ROUTING, config.agents[1].address)).to.equal(true);
+
+        // Each recorded block is the one the contract appeared in
+        for (const contract of [...Object.values(manifest.contracts), manifest.collections.Electronics]) {
+            expect(await ethers.provider.getCode(contract.address, contract.blockNumber)).to.not.equal("0x");
+            expect(await ethers.provider.getCode(contract.address, contract.blockNumber - 1)).to.equal("0x");
+        }
+        expect(manifest).to.include({ network: "hardhat", chainId: 31337 });
+        expect(staleAbis(manifest)).to.deep.equal([]);
+    });
+
+    it("Should send no transactions when re-run with the same parameters", async function () {
+        const first = await deployHashRoute(hre, config, options);
+        const block = await ethers.provider.getBlockNumber();
+
+        const second = await deployHashRoute(hre, config, options);
+        expect(await ethers.provider.getBlockNumber()).to.equal(block);
+        expect(second).to.deep.equal(first);
+    });
+
+    it("Should only deploy the collections and agents added to the parameters", async function () {
+        const first = await deployHashRoute(hre, config, options);
+        const [, , , arbitrationAgent] = await ethers.getSigners();
+        config.collections.push({ id: "ColdChain", name: "HBARgo Cold Chain Shipment", symbol: "HGO-CC" });
+        config.agents.push({ address: await arbitrationAgent.getAddress(), type: "ARBITRATION" });
+
+        const second = await deployHashRoute(hre, config, options);
+        expect(second.contracts).to.deep.equal(first.contracts);
+        expect(second.collections.Electronics).to.deep.equal(first.collections.Electronics);
+        expect(manifestCollections(second)).to.have.length(2);
+
+        const registry = await ethers.getContractAt("OracleRegistry", second.contracts.OracleRegistry.address);
+        expect(await registry.isAgent(AgentType.ARBITRATION, await arbitrationAgent.getAddress())).to.equal(true);
+    });
+
+    it("Should write a manifest the SDK can load", async function () {
+        await deployHashRoute(hre, config, options);
+        const manifest = await loadManifest(options.manifestPath!);
+
+        const client = new HashRouteClient(manifestAddresses(manifest), (await ethers.getSigners())[0]);
+        expect(await client.listCollections()).to.deep.equal(manifestCollections(manifest));
+        expect(await client.isAgent(config.agents[0].address, AgentType.FRAUD_DETECTION)).to.equal(true);
+    });
+
+    it("Should reject malformed parameters", async function () {
+        expect(() => parseDeploymentConfig({ collections: [] })).to.throw("`collections` and `agents` arrays");
+        expect(() => parseDeploymentConfig({ ...config, collections: [...config.collections, config.collections[0]] }))
+            .to.throw("Duplicate collection id: Electronics");
+        expect(() => parseDeploymentConfig({ ...config, agents: [{ address: config.agents[0].address, type: "AUDITOR" }] }))
+            .to.throw("Unknown agent type");
+        expect(() => parseDeploymentConfig({ ...config, collections: [{ id: "cold-chain", name: "Cold", symbol: "C" }] }))
+            .to.throw("Invalid collection id");
+    });
+});
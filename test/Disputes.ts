@@ -0,0 +1,212 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { Signer } from "ethers";
+import { OracleRegistry, Shipment, ShipmentFactory } from "../typechain-types";
+import { AgentType, Status, generateLegSecrets, legKeyHashes, LegSecret } from "../sdk";
+import { getShipmentContractFactory } from "./helpers";
+
+describe("Dispute Resolution", function () {
+    let owner: Signer, shipper: Signer, distributor: Signer, recipient: Signer, fraudAgent: Signer, arbitrator: Signer, stranger: Signer;
+    let oracleRegistry: OracleRegistry;
+    let shipmentFactory: ShipmentFactory;
+    let shipments: Shipment;
+    let legs: LegSecret[];
+
+    const SEVEN_DAYS = 7 * 24 * 60 * 60;
+    const payment = ethers.parseEther("10.0");
+    const legFee = ethers.parseEther("2.0");
+    const evidenceHash = ethers.keccak256(ethers.toUtf8Bytes("photo of crushed pallet"));
+
+    beforeEach(async function () {
+        [owner, shipper, distributor, recipient, fraudAgent, arbitrator, stranger] = await ethers.getSigners();
+
+        oracleRegistry = await (await ethers.getContractFactory("OracleRegistry")).deploy();
+        shipmentFactory = await (await ethers.getContractFactory("ShipmentFactory")).deploy();
+        shipments = await (await getShipmentContractFactory()).deploy(await oracleRegistry.getAddress());
+
+        await shipments.setFactory(await shipmentFactory.getAddress());
+        await shipmentFactory.registerShipmentContract(await shipments.getAddress());
+        await oracleRegistry.registerAgent(await fraudAgent.getAddress(), AgentType.FRAUD_DETECTION);
+        await oracleRegistry.registerAgent(await arbitrator.getAddress(), AgentType.ARBITRATION);
+
+        const route = [await shipper.getAddress(), await distributor.getAddress(), await recipient.getAddress()];
+        legs = generateLegSecrets(route);
+        await shipmentFactory.connect(shipper).createShipment(
+            await shipments.getAddress(),
+            await recipient.getAddress(),
+            "Machine Parts",
+            route,
+            ethers.ZeroAddress,
+            payment,
+            legKeyHashes(legs),
+            [legFee, legFee],
+            [0n, 0n], 0, 0, // No deadlines or late penalty
+            { value: payment }
+        );
+
+        // The distributor carries the first leg and now holds the shipment.
+        await shipments.connect(shipper).initiateHandover(0);
+        await shipments.connect(distributor).requestVerificationWithSecret(0, legs[0].secret);
+        await shipments.connect(fraudAgent).confirmVerification(0, await distributor.getAddress());
+    });
+
+    describe("Record", function () {
+        it("Should record who raised the dispute, when, and against which custodian", async function () {
+            await shipments.connect(recipient).disputeShipment(0, "Damaged on arrival");
+            const raisedAt = await time.latest();
+
+            const [dispute] = await shipments.getDisputes(0);
+            expect(dispute.raisedBy).to.equal(await recipient.getAddress());
+            expect(dispute.raisedAt).to.equal(raisedAt);
+            expect(dispute.reason).to.equal("Damaged on arrival");
+            expect(dispute.custodian).to.equal(await distributor.getAddress());
+            expect(dispute.arbitrationDeadline).to.equal(raisedAt + SEVEN_DAYS);
+            expect(dispute.resolved).to.be.false;
+        });
+
+        it("Should record agent flags as disputes and refuse a second open dispute", async function () {
+            await shipments.connect(distributor).initiateHandover(0);
+            await shipments.connect(recipient).requestVerification(0, ethers.ZeroHash);
+            await shipments.connect(fraudAgent).flagShipment(0, "Proof hash mismatch");
+
+            const [dispute] = await shipments.getDisputes(0);
+            expect(dispute.raisedBy).to.equal(await fraudAgent.getAddress());
+            expect(dispute.reason).to.equal("Proof hash mismatch");
+
+            await expect(shipments.connect(shipper).disputeShipment(0, "Also late")).to.be.revertedWith("Dispute already open");
+            expect(await shipments.getDisputes(0)).to.have.length(1);
+        });
+    });
+
+    describe("Evidence", function () {
+        beforeEach(async function () {
+            await shipments.connect(shipper).disputeShipment(0, "Missing items");
+        });
+
+        it("Should let the parties attach evidence while the dispute is open", async function () {
+            await expect(shipments.connect(distributor).submitEvidence(0, "ipfs://bafy-pallet", evidenceHash))
+                .to.emit(shipments, "EvidenceSubmitted")
+                .withArgs(0, 0, await distributor.getAddress(), "ipfs://bafy-pallet", evidenceHash);
+            await shipments.connect(recipient).submitEvidence(0, "", evidenceHash);
+
+            const [dispute] = await shipments.getDisputes(0);
+            expect(dispute.evidence.map((e) => [e.submittedBy, e.uri, e.contentHash])).to.deep.equal([
+                [await distributor.getAddress(), "ipfs://bafy-pallet", evidenceHash],
+                [await recipient.getAddress(), "", evidenceHash],
+            ]);
+        });
+
+        it("Should reject evidence from outsiders, empty evidence and late evidence", async function () {
+            await expect(shipments.connect(stranger).submitEvidence(0, "ipfs://spam", evidenceHash))
+                .to.be.revertedWith("Only a party to the shipment can submit evidence");
+            await expect(shipments.connect(shipper).submitEvidence(0, "", ethers.ZeroHash))
+                .to.be.revertedWith("Evidence cannot be empty");
+
+            await time.increase(SEVEN_DAYS + 1);
+            await expect(shipments.connect(shipper).submitEvidence(0, "ipfs://late", evidenceHash))
+                .to.be.revertedWith("Arbitration period has ended");
+        });
+
+        it("Should reject evidence when no dispute is open", async function () {
+            await shipments.connect(arbitrator).resolveDispute(0, { shipperBps: 10_000, recipientBps: 0, custodianBps: 0 });
+            await expect(shipments.connect(shipper).submitEvidence(0, "ipfs://late", evidenceHash))
+                .to.be.revertedWith("Shipment not in dispute");
+        });
+    });
+
+    describe("Verdict", function () {
+        beforeEach(async function () {
+            await shipments.connect(recipient).disputeShipment(0, "Damaged on arrival");
+        });
+
+        it("Should split the remaining escrow between shipper, recipient and custodian", async function () {
+            const remaining = payment - legFee;
+            const split = { shipperBps: 5_000, recipientBps: 3_000, custodianBps: 2_000 };
+
+            const resolve = shipments.connect(arbitrator).resolveDispute(0, split);
+            await expect(resolve).to.changeEtherBalances(
+                [shipper, recipient, distributor, shipments],
+                [remaining / 2n, (remaining * 3n) / 10n, (remaining * 2n) / 10n, -remaining]
+            );
+            await expect(resolve)
+                .to.emit(shipments, "DisputeResolved")
+                .withArgs(0, await arbitrator.getAddress(), remaining / 2n, (remaining * 3n) / 10n, (remaining * 2n) / 10n);
+
+            const [dispute] = await shipments.getDisputes(0);
+            expect(dispute.resolved).to.be.true;
+            expect(dispute.resolvedBy).to.equal(await arbitrator.getAddress());
+            expect(dispute.resolvedAt).to.equal(await time.latest());
+            expect(dispute.verdict).to.deep.equal([5_000n, 3_000n, 2_000n]);
+            expect((await shipments.shipmentDetails(0)).status).to.equal(Status.Completed);
+
+            // The fee the distributor earned for the first leg is untouched by the verdict.
+            expect(await shipments.claimableFees(await distributor.getAddress(), ethers.ZeroAddress)).to.equal(legFee);
+        });
+
+        it("Should reject splits that do not add up to 100%", async function () {
+            await expect(shipments.connect(arbitrator).resolveDispute(0, { shipperBps: 5_000, recipientBps: 5_000, custodianBps: 1 }))
+                .to.be.revertedWith("Split must total 100%");
+        });
+
+        it("Should only accept verdicts from a registered arbitrator", async function () {
+            await expect(shipments.connect(shipper).resolveDispute(0, { shipperBps: 10_000, recipientBps: 0, custodianBps: 0 }))
+                .to.be.revertedWith("Caller is not a registered agent of this type");
+        });
+    });
+
+    describe("Arbitration Deadline", function () {
+        beforeEach(async function () {
+            await shipments.connect(recipient).disputeShipment(0, "Never arrived");
+        });
+
+        it("Should apply the default split once the arbitrator misses the deadline", async function () {
+            await expect(shipments.connect(stranger).settleExpiredDispute(0)).to.be.revertedWith("Arbitration period still running");
+
+            await time.increase(SEVEN_DAYS + 1);
+            await expect(shipments.connect(arbitrator).resolveDispute(0, { shipperBps: 0, recipientBps: 10_000, custodianBps: 0 }))
+                .to.be.revertedWith("Arbitration period has ended");
+
+            await expect(shipments.connect(stranger).settleExpiredDispute(0))
+                .to.emit(shipments, "DisputeResolved")
+                .withArgs(0, ethers.ZeroAddress, payment - legFee, 0, 0);
+
+            const [dispute] = await shipments.getDisputes(0);
+            expect(dispute.resolvedBy).to.equal(ethers.ZeroAddress);
+            expect(dispute.verdict).to.deep.equal([10_000n, 0n, 0n]);
+        });
+
+        it("Should let the owner configure the period and default outcome for new disputes", async function () {
+            const split = { shipperBps: 0, recipientBps: 10_000, custodianBps: 0 };
+            await expect(shipments.connect(stranger).setArbitrationSettings(SEVEN_DAYS, split))
+                .to.be.revertedWithCustomError(shipments, "OwnableUnauthorizedAccount");
+            await expect(shipments.setArbitrationSettings(0, split)).to.be.revertedWith("Arbitration period cannot be zero");
+            await expect(shipments.setArbitrationSettings(SEVEN_DAYS, { ...split, custodianBps: 1 }))
+                .to.be.revertedWith("Split must total 100%");
+
+            await expect(shipments.setArbitrationSettings(3 * SEVEN_DAYS, split))
+                .to.emit(shipments, "ArbitrationSettingsUpdated")
+                .withArgs(3 * SEVEN_DAYS, 0, 10_000, 0);
+
+            // The open dispute keeps the deadline and default split it was raised with.
+            await time.increase(SEVEN_DAYS + 1);
+            await expect(shipments.connect(stranger).settleExpiredDispute(0))
+                .to.changeEtherBalance(shipper, payment - legFee);
+
+            // A dispute raised afterwards gets the new settings.
+            const route = [await shipper.getAddress(), await recipient.getAddress()];
+            await shipmentFactory.connect(shipper).createShipment(
+                await shipments.getAddress(), await recipient.getAddress(), "Machine Parts", route, ethers.ZeroAddress, payment,
+                legKeyHashes(generateLegSecrets(route)), [0n], [0n], 0, 0, { value: payment }
+            );
+            await shipments.connect(recipient).disputeShipment(1, "Never shipped");
+            const [dispute] = await shipments.getDisputes(1);
+            expect(dispute.defaultSplit).to.deep.equal([0n, 10_000n, 0n]);
+
+            await time.increase(SEVEN_DAYS + 1);
+            await expect(shipments.connect(stranger).settleExpiredDispute(1)).to.be.revertedWith("Arbitration period still running");
+            await time.increase(2 * SEVEN_DAYS);
+            await expect(shipments.connect(stranger).settleExpiredDispute(1)).to.changeEtherBalance(recipient, payment);
+        });
+    });
+});
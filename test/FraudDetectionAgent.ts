@@ -0,0 +1,211 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { Signer } from "ethers";
+import { mkdtempSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { Shipment, ShipmentFactory, OracleRegistry } from "../typechain-types";
+import { AgentType, Status, generateLegSecrets, legKeyHashes } from "../sdk";
+import {
+    FileCheckpointStore,
+    FileKeystore,
+    FraudDetectionAgent,
+    InMemoryCheckpointStore,
+    InMemoryKeystore,
+    SecretKeystore,
+    CheckpointStore,
+    storeLegSecrets,
+} from "../agents/fraud-detection";
+import { getShipmentContractFactory } from "./helpers";
+
+describe("Fraud Detection Agent", function () {
+    let owner: Signer, shipper: Signer, recipient: Signer, fraudAgent: Signer;
+    let oracleRegistry: OracleRegistry;
+    let shipmentFactory: ShipmentFactory;
+    let shipments: Shipment;
+    let collectionAddress: string;
+    let keystore: SecretKeystore;
+    let checkpoints: CheckpointStore;
+
+    const quiet = () => {};
+
+    const newAgent = (signer: Signer = fraudAgent) =>
+        new FraudDetectionAgent({
+            signer,
+            oracleRegistry: oracleRegistry.target as string,
+            collections: [collectionAddress],
+            keystore,
+            checkpoints,
+            retryDelayMs: 0,
+            log: quiet,
+        });
+
+    beforeEach(async function () {
+        [owner, shipper, recipient, fraudAgent] = await ethers.getSigners();
+
+        oracleRegistry = await (await ethers.getContractFactory("OracleRegistry")).deploy();
+        shipmentFactory = await (await ethers.getContractFactory("ShipmentFactory")).deploy();
+        shipments = await (await getShipmentContractFactory()).deploy(await oracleRegistry.getAddress());
+        collectionAddress = await shipments.getAddress();
+
+        await shipments.setFactory(await shipmentFactory.getAddress());
+        await shipmentFactory.registerShipmentContract(collectionAddress);
+        await oracleRegistry.connect(owner).registerAgent(await fraudAgent.getAddress(), AgentType.FRAUD_DETECTION);
+
+        keystore = new InMemoryKeystore();
+        checkpoints = new InMemoryCheckpointStore();
+    });
+
+    async function createAndRequest(proofFor: (secret: Uint8Array) => string, storeSecret = true, secret = ethers.randomBytes(32)): Promise<bigint> {
+        const payment = ethers.parseEther("1.0");
+        const tokenId = await shipmentFactory.shipmentNonce(collectionAddress);
+
+        await shipmentFactory.connect(shipper).createShipment(
+            collectionAddress,
+            await recipient.getAddress(),
+            "Agent Cargo",
+            [await shipper.getAddress(), await recipient.getAddress()],
+            ethers.ZeroAddress,
+            payment,
+            [ethers.keccak256(secret)],
+            [0n],
+            [0n], 0, 0, // No deadlines or late penalty
+            { value: payment }
+        );
+        if (storeSecret) await keystore.putSecret(collectionAddress, tokenId, 0n, secret);
+
+        await shipments.connect(shipper).initiateHandover(tokenId);
+        await shipments.connect(recipient).requestVerification(tokenId, proofFor(secret));
+        return tokenId;
+    }
+
+    it("Should refuse to run with a key that is not a registered agent", async function () {
+        let caught: Error | undefined;
+        try {
+            await newAgent(shipper).assertRegistered();
+        } catch (error) {
+            caught = error as Error;
+        }
+        expect(caught?.message).to.contain("is not a registered FRAUD_DETECTION agent");
+        await newAgent().assertRegistered();
+    });
+
+    it("Should confirm a request whose proof matches the stored secret", async function () {
+        const tokenId = await createAndRequest((secret) => ethers.keccak256(secret));
+
+        expect(await newAgent().pollOnce()).to.equal(1);
+
+        expect(await shipments.ownerOf(tokenId)).to.equal(await recipient.getAddress());
+        expect((await shipments.shipmentDetails(tokenId)).status).to.equal(Status.Delivered);
+    });
+
+    it("Should flag a request whose proof does not match", async function () {
+        const tokenId = await createAndRequest(() => ethers.keccak256(ethers.randomBytes(32)));
+
+        expect(await newAgent().pollOnce()).to.equal(1);
+
+        expect((await shipments.shipmentDetails(tokenId)).status).to.equal(Status.Disputed);
+        expect(await shipments.ownerOf(tokenId)).to.equal(await shipper.getAddress());
+    });
+
+    it("Should defer a request until its secret reaches the keystore", async function () {
+        const secret = ethers.randomBytes(32);
+        const tokenId = await createAndRequest((s) => ethers.keccak256(s), false, secret);
+        const agent = newAgent();
+
+        expect(await agent.pollOnce()).to.equal(0);
+        expect((await checkpoints.load())!.deferred).to.have.length(1);
+        expect((await shipments.shipmentDetails(tokenId)).status).to.equal(Status.AwaitingVerification);
+
+        await keystore.putSecret(collectionAddress, tokenId, 0n, secret);
+        expect(await agent.pollOnce()).to.equal(1);
+        expect((await checkpoints.load())!.deferred).to.be.empty;
+        expect((await shipments.shipmentDetails(tokenId)).status).to.equal(Status.Delivered);
+    });
+
+    it("Should alert and defer rather than flag when its keystore secret is stale", async function () {
+        const tokenId = await createAndRequest((secret) => ethers.keccak256(secret), false);
+        await keystore.putSecret(collectionAddress, tokenId, 0n, ethers.randomBytes(32));
+        const lines: string[] = [];
+        const agent = new FraudDetectionAgent({
+            signer: fraudAgent,
+            oracleRegistry: oracleRegistry.target as string,
+            collections: [collectionAddress],
+            keystore,
+            checkpoints,
+            log: (message) => lines.push(message),
+        });
+
+        expect(await agent.evaluate({ collection: collectionAddress, tokenId: tokenId.toString(), custodian: await recipient.getAddress(), custodianProofHash: ethers.ZeroHash }))
+            .to.deep.include({ action: "defer", alert: true });
+        expect(await agent.pollOnce()).to.equal(0);
+        expect(lines.some((line) => line.includes("ALERT: deferred (keystore secret for leg 0 does not match"))).to.equal(true);
+        expect((await checkpoints.load())!.deferred).to.have.length(1);
+        expect((await shipments.shipmentDetails(tokenId)).status).to.equal(Status.AwaitingVerification);
+    });
+
+    it("Should check each leg against its own secret", async function () {
+        const [, , , , distributor] = await ethers.getSigners();
+        const route = [await shipper.getAddress(), await distributor.getAddress(), await recipient.getAddress()];
+        const legs = generateLegSecrets(route);
+        const payment = ethers.parseEther("1.0");
+        const tokenId = await shipmentFactory.shipmentNonce(collectionAddress);
+
+        await shipmentFactory.connect(shipper).createShipment(
+            collectionAddress, await recipient.getAddress(), "Agent Cargo", route, ethers.ZeroAddress, payment, legKeyHashes(legs), [0n, 0n], [0n, 0n], 0, 0, { value: payment }
+        );
+        await storeLegSecrets(keystore, collectionAddress, tokenId, legs);
+        const agent = newAgent();
+
+        await shipments.connect(shipper).initiateHandover(tokenId);
+        await shipments.connect(distributor).requestVerification(tokenId, legs[0].keyHash);
+        expect(await agent.pollOnce()).to.equal(1);
+        expect(await shipments.ownerOf(tokenId)).to.equal(await distributor.getAddress());
+
+        // Replaying the leg 0 proof for leg 1 is caught.
+        await shipments.connect(distributor).initiateHandover(tokenId);
+        await shipments.connect(recipient).requestVerification(tokenId, legs[0].keyHash);
+        expect(await agent.pollOnce()).to.equal(1);
+        expect((await shipments.shipmentDetails(tokenId)).status).to.equal(Status.Disputed);
+    });
+
+    it("Should not act twice on the same request after a restart", async function () {
+        const dir = mkdtempSync(join(tmpdir(), "fraud-agent-"));
+        keystore = new FileKeystore(join(dir, "keystore.json"));
+        checkpoints = new FileCheckpointStore(join(dir, "checkpoint.json"));
+
+        await createAndRequest((secret) => ethers.keccak256(secret));
+        expect(await newAgent().pollOnce()).to.equal(1);
+
+        // A restarted process resumes from the persisted checkpoint...
+        expect(await newAgent().pollOnce()).to.equal(0);
+
+        // ...and even a full replay from genesis is a no-op because the on-chain state has moved on.
+        checkpoints = new InMemoryCheckpointStore();
+        expect(await newAgent().pollOnce()).to.equal(0);
+
+        const second = await createAndRequest((secret) => ethers.keccak256(secret));
+        checkpoints = new FileCheckpointStore(join(dir, "checkpoint.json"));
+        expect(await newAgent().pollOnce()).to.equal(1);
+        expect(await shipments.ownerOf(second)).to.equal(await recipient.getAddress());
+    });
+
+    it("Should approve once and leave the rest to the quorum", async function () {
+        const [, , , , secondAgent] = await ethers.getSigners();
+        await oracleRegistry.registerAgent(await secondAgent.getAddress(), AgentType.FRAUD_DETECTION);
+        await oracleRegistry.setThreshold(AgentType.FRAUD_DETECTION, 2);
+
+        const tokenId = await createAndRequest((secret) => ethers.keccak256(secret));
+        const first = newAgent();
+
+        // The first approval alone does not move custody, and polling again does not approve twice.
+        expect(await first.pollOnce()).to.equal(1);
+        checkpoints = new InMemoryCheckpointStore();
+        expect(await newAgent().pollOnce()).to.equal(0);
+        expect((await shipments.shipmentDetails(tokenId)).status).to.equal(Status.AwaitingVerification);
+
+        checkpoints = new InMemoryCheckpointStore();
+        expect(await newAgent(secondAgent).pollOnce()).to.equal(1);
+        expect(await shipments.ownerOf(tokenId)).to.equal(await recipient.getAddress());
+    });
+});
@@ -0,0 +1,154 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { mine, takeSnapshot } from "@nomicfoundation/hardhat-network-helpers";
+import { Signer } from "ethers";
+import { mkdtempSync, readFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { OracleRegistry, Shipment, ShipmentFactory } from "../typechain-types";
+import { AgentType, Status, generateLegSecrets, legKeyHashes } from "../sdk";
+import { FileIndexerStore, InMemoryIndexerStore, IndexerStore, ShipmentIndexer } from "../indexer";
+import { getShipmentContractFactory } from "./helpers";
+
+describe("Shipment Indexer", function () {
+    let owner: Signer, shipper: Signer, recipient: Signer, otherRecipient: Signer, fraudAgent: Signer;
+    let oracleRegistry: OracleRegistry;
+    let shipmentFactory: ShipmentFactory;
+    let store: IndexerStore;
+
+    const payment = ethers.parseEther("1.0");
+    const quiet = () => {};
+
+    const newIndexer = (confirmations = 0) =>
+        new ShipmentIndexer({ provider: ethers.provider, factory: shipmentFactory.target as string, store, confirmations, log: quiet });
+
+    beforeEach(async function () {
+        [owner, shipper, recipient, otherRecipient, fraudAgent] = await ethers.getSigners();
+
+        oracleRegistry = await (await ethers.getContractFactory("OracleRegistry")).deploy();
+        shipmentFactory = await (await ethers.getContractFactory("ShipmentFactory")).deploy();
+        await oracleRegistry.registerAgent(await fraudAgent.getAddress(), AgentType.FRAUD_DETECTION);
+        store = new InMemoryIndexerStore();
+    });
+
+    async function deployCollection(): Promise<Shipment> {
+        const shipments = await (await getShipmentContractFactory()).deploy(await oracleRegistry.getAddress());
+        await shipments.setFactory(await shipmentFactory.getAddress());
+        await shipmentFactory.registerShipmentContract(await shipments.getAddress());
+        return shipments;
+    }
+
+    async function create(shipments: Shipment, to: Signer = recipient) {
+        const route = [await shipper.getAddress(), await to.getAddress()];
+        await shipmentFactory.connect(shipper).createShipment(
+            await shipments.getAddress(), route[1], "Vaccines", route, ethers.ZeroAddress, payment,
+            legKeyHashes(generateLegSecrets(route)), [0n], [0n], 0, 0, { value: payment }
+        );
+    }
+
+    describe("Timelines", function () {
+        it("Should follow newly registered collections and record each token's history", async function () {
+            const indexer = newIndexer();
+            expect(await indexer.pollOnce()).to.equal(0);
+
+            const shipments = await deployCollection();
+            await create(shipments);
+            await shipments.connect(shipper).initiateHandover(0);
+            await shipments.connect(recipient).requestVerification(0, ethers.ZeroHash);
+            await shipments.connect(fraudAgent).confirmVerification(0, await recipient.getAddress());
+            await shipments.connect(shipper).finalizeAndPay(0);
+
+            expect(await indexer.pollOnce()).to.equal(12);
+            const timeline = await indexer.timeline(await shipments.getAddress(), 0);
+            expect(timeline.map((entry) => entry.event)).to.deep.equal([
+                "Transfer",
+                "ShipmentInitialized",
+                "ShipmentCreated",
+                "StatusChanged",
+                "HandoverInitiated",
+                "StatusChanged",
+                "VerificationRequested",
+                "StatusChanged",
+                "Transfer",
+                "ShipmentVerifiedAndReceived",
+                "StatusChanged",
+                "PaymentReleased",
+            ]);
+            expect(timeline[4].args).to.deep.equal({ from: await shipper.getAddress(), to: await recipient.getAddress() });
+            expect(timeline[11].args).to.deep.equal({ shipper: await shipper.getAddress(), amount: payment.toString() });
+            expect(timeline[11].timestamp).to.equal((await ethers.provider.getBlock(timeline[11].blockNumber))!.timestamp);
+
+            const [indexed] = await indexer.shipments();
+            expect(indexed).to.include({ tokenId: "0", status: Status.Completed, holder: await recipient.getAddress() });
+        });
+
+        it("Should only index blocks buried under the confirmation depth", async function () {
+            const shipments = await deployCollection();
+            const indexer = newIndexer(2);
+            await create(shipments);
+
+            await indexer.pollOnce();
+            expect(await indexer.timeline(await shipments.getAddress(), 0)).to.have.length(0);
+
+            await mine(2);
+            await indexer.pollOnce();
+            expect(await indexer.timeline(await shipments.getAddress(), 0)).to.have.length(3);
+        });
+    });
+
+    describe("Queries", function () {
+        it("Should list the shipments an address holds and the open disputes", async function () {
+            const shipments = await deployCollection();
+            const indexer = newIndexer();
+            await create(shipments);
+            await create(shipments, otherRecipient);
+            await shipments.connect(otherRecipient).disputeShipment(1, "Seal broken");
+            await indexer.pollOnce();
+
+            const held = await indexer.shipmentsHeldBy(await shipper.getAddress());
+            expect(held.map((shipment) => shipment.tokenId)).to.deep.equal(["0", "1"]);
+            expect(await indexer.shipmentsHeldBy(await recipient.getAddress())).to.have.length(0);
+
+            const [dispute, ...others] = await indexer.openDisputes();
+            expect(others).to.have.length(0);
+            expect(dispute.shipment).to.include({ tokenId: "1", recipient: await otherRecipient.getAddress(), status: Status.Disputed });
+            expect(dispute).to.include({ raisedBy: await otherRecipient.getAddress(), reason: "Seal broken" });
+        });
+    });
+
+    describe("Reorgs and Persistence", function () {
+        it("Should roll back blocks that left the chain and re-index the replacements", async function () {
+            const shipments = await deployCollection();
+            const indexer = newIndexer();
+            await indexer.pollOnce();
+
+            const snapshot = await takeSnapshot();
+            await create(shipments);
+            await indexer.pollOnce();
+            expect((await indexer.shipments())[0].recipient).to.equal(await recipient.getAddress());
+
+            // Replace the indexed block with one holding a different shipment 0.
+            await snapshot.restore();
+            await create(shipments, otherRecipient);
+            await indexer.pollOnce();
+
+            const indexed = await indexer.shipments();
+            expect(indexed).to.have.length(1);
+            expect(indexed[0].recipient).to.equal(await otherRecipient.getAddress());
+            expect(await indexer.timeline(await shipments.getAddress(), 0)).to.have.length(3);
+        });
+
+        it("Should resume from the JSON store after a restart", async function () {
+            const path = join(mkdtempSync(join(tmpdir(), "hashroute-indexer-")), "index.json");
+            store = new FileIndexerStore(path);
+            const shipments = await deployCollection();
+            await create(shipments);
+            await newIndexer().pollOnce();
+
+            const restarted = newIndexer();
+            expect(await restarted.pollOnce()).to.equal(0);
+            expect(await restarted.timeline(await shipments.getAddress(), 0)).to.have.length(3);
+            expect(JSON.parse(readFileSync(path, "utf8")).lastBlock).to.equal(await ethers.provider.getBlockNumber());
+        });
+    });
+});
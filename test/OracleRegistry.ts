@@ -77,4 +77,115 @@ describe("OracleRegistry", function () {
                  .to.be.revertedWithCustomError(oracleRegistry, "OwnableUnauthorizedAccount");
         });
     });
+
+    describe("Agent Enumeration", function () {
+        it("Should list registered agents with their metadata", async function () {
+            const agent1Address = await agent1.getAddress();
+            const agent2Address = await agent2.getAddress();
+            await oracleRegistry.registerAgent(agent1Address, AgentType.FRAUD_DETECTION);
+            await oracleRegistry.registerAgent(agent2Address, AgentType.FRAUD_DETECTION);
+            // Registering twice does not list the agent twice
+            await oracleRegistry.registerAgent(agent1Address, AgentType.FRAUD_DETECTION);
+
+            await expect(oracleRegistry.setAgentMetadata(agent1Address, AgentType.FRAUD_DETECTION, "Acme Oracles, https://acme.example"))
+                .to.emit(oracleRegistry, "AgentMetadataUpdated")
+                .withArgs(agent1Address, AgentType.FRAUD_DETECTION, "Acme Oracles, https://acme.example");
+            await oracleRegistry.connect(agent2).setAgentMetadata(agent2Address, AgentType.FRAUD_DETECTION, "Self-described");
+
+            const agents = await oracleRegistry.getAgents(AgentType.FRAUD_DETECTION);
+            expect(agents.map((a) => [a.agent, a.metadata, a.trusted])).to.deep.equal([
+                [agent1Address, "Acme Oracles, https://acme.example", true],
+                [agent2Address, "Self-described", true],
+            ]);
+            expect(await oracleRegistry.agentCount(AgentType.ROUTING)).to.equal(0);
+        });
+
+        it("Should drop revoked agents from the list", async function () {
+            const addresses = [await agent1.getAddress(), await agent2.getAddress(), await nonOwner.getAddress()];
+            for (const address of addresses) {
+                await oracleRegistry.registerAgent(address, AgentType.ARBITRATION);
+            }
+            await oracleRegistry.revokeAgent(addresses[0], AgentType.ARBITRATION);
+
+            const listed = (await oracleRegistry.getAgents(AgentType.ARBITRATION)).map((a) => a.agent);
+            expect(listed).to.have.members([addresses[1], addresses[2]]);
+            expect(await oracleRegistry.agentCount(AgentType.ARBITRATION)).to.equal(2);
+        });
+
+        it("Should restrict metadata updates to the owner and the agent", async function () {
+            const agent1Address = await agent1.getAddress();
+            await expect(oracleRegistry.setAgentMetadata(agent1Address, AgentType.ROUTING, "x"))
+                .to.be.revertedWith("Agent not registered");
+            await oracleRegistry.registerAgent(agent1Address, AgentType.ROUTING);
+            await expect(oracleRegistry.connect(agent2).setAgentMetadata(agent1Address, AgentType.ROUTING, "x"))
+                .to.be.revertedWith("Caller cannot update this agent's metadata");
+        });
+    });
+
+    describe("Quorum", function () {
+        it("Should default every type to a quorum of one", async function () {
+            expect(await oracleRegistry.quorum(AgentType.ARBITRATION)).to.equal(1);
+        });
+
+        it("Should let the owner set a threshold per type", async function () {
+            await expect(oracleRegistry.setThreshold(AgentType.ARBITRATION, 2))
+                .to.emit(oracleRegistry, "ThresholdUpdated")
+                .withArgs(AgentType.ARBITRATION, 2);
+            expect(await oracleRegistry.quorum(AgentType.ARBITRATION)).to.equal(2);
+            expect(await oracleRegistry.quorum(AgentType.ROUTING)).to.equal(1);
+
+            await expect(oracleRegistry.setThreshold(AgentType.ARBITRATION, 0)).to.be.revertedWith("Threshold must be at least one");
+            await expect(oracleRegistry.connect(nonOwner).setThreshold(AgentType.ARBITRATION, 3))
+                .to.be.revertedWithCustomError(oracleRegistry, "OwnableUnauthorizedAccount");
+        });
+    });
+
+    describe("Bonds", function () {
+        const bond = ethers.parseEther("5.0");
+
+        it("Should only trust agents bonded at or above the minimum", async function () {
+            const agent1Address = await agent1.getAddress();
+            await oracleRegistry.registerAgent(agent1Address, AgentType.FRAUD_DETECTION);
+            await oracleRegistry.setMinimumBond(AgentType.FRAUD_DETECTION, bond);
+            expect(await oracleRegistry.isTrustedAgent(AgentType.FRAUD_DETECTION, agent1Address)).to.be.false;
+
+            await expect(oracleRegistry.connect(agent1).depositBond(AgentType.FRAUD_DETECTION, { value: bond }))
+                .to.emit(oracleRegistry, "BondDeposited")
+                .withArgs(agent1Address, AgentType.FRAUD_DETECTION, bond);
+            expect(await oracleRegistry.isTrustedAgent(AgentType.FRAUD_DETECTION, agent1Address)).to.be.true;
+
+            const [info] = await oracleRegistry.getAgents(AgentType.FRAUD_DETECTION);
+            expect(info.bond).to.equal(bond);
+            expect(info.trusted).to.be.true;
+        });
+
+        it("Should let the owner slash a bond to a beneficiary", async function () {
+            const agent1Address = await agent1.getAddress();
+            await oracleRegistry.registerAgent(agent1Address, AgentType.ARBITRATION);
+            await oracleRegistry.connect(agent1).depositBond(AgentType.ARBITRATION, { value: bond });
+
+            const slashed = ethers.parseEther("2.0");
+            await expect(oracleRegistry.slashBond(agent1Address, AgentType.ARBITRATION, slashed, await agent2.getAddress()))
+                .to.changeEtherBalances([agent2, oracleRegistry], [slashed, -slashed]);
+            expect(await oracleRegistry.bondOf(AgentType.ARBITRATION, agent1Address)).to.equal(bond - slashed);
+
+            await expect(oracleRegistry.slashBond(agent1Address, AgentType.ARBITRATION, bond, await agent2.getAddress()))
+                .to.be.revertedWith("Insufficient bond");
+            await expect(oracleRegistry.connect(nonOwner).slashBond(agent1Address, AgentType.ARBITRATION, 1, await nonOwner.getAddress()))
+                .to.be.revertedWithCustomError(oracleRegistry, "OwnableUnauthorizedAccount");
+        });
+
+        it("Should lock the bond until the agent is revoked", async function () {
+            const agent1Address = await agent1.getAddress();
+            await oracleRegistry.registerAgent(agent1Address, AgentType.ROUTING);
+            await oracleRegistry.connect(agent1).depositBond(AgentType.ROUTING, { value: bond });
+
+            await expect(oracleRegistry.connect(agent1).withdrawBond(AgentType.ROUTING, bond))
+                .to.be.revertedWith("Revoke the agent before withdrawing its bond");
+
+            await oracleRegistry.revokeAgent(agent1Address, AgentType.ROUTING);
+            await expect(oracleRegistry.connect(agent1).withdrawBond(AgentType.ROUTING, bond))
+                .to.changeEtherBalance(agent1, bond);
+        });
+    });
 });
\ No newline at end of file
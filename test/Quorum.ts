@@ -0,0 +1,130 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { Signer } from "ethers";
+import { OracleRegistry, Shipment, ShipmentFactory } from "../typechain-types";
+import { AgentType, Status, generateLegSecrets, legKeyHashes, LegSecret } from "../sdk";
+import { getShipmentContractFactory } from "./helpers";
+
+describe("Agent Quorum", function () {
+    let shipper: Signer, recipient: Signer, agentA: Signer, agentB: Signer, agentC: Signer;
+    let oracleRegistry: OracleRegistry;
+    let shipmentFactory: ShipmentFactory;
+    let shipments: Shipment;
+    let legs: LegSecret[];
+
+    const payment = ethers.parseEther("4.0");
+    const toShipper = { shipperBps: 10_000, recipientBps: 0, custodianBps: 0 };
+    const toRecipient = { shipperBps: 0, recipientBps: 10_000, custodianBps: 0 };
+
+    beforeEach(async function () {
+        [, shipper, recipient, agentA, agentB, agentC] = await ethers.getSigners();
+
+        oracleRegistry = await (await ethers.getContractFactory("OracleRegistry")).deploy();
+        shipmentFactory = await (await ethers.getContractFactory("ShipmentFactory")).deploy();
+        shipments = await (await getShipmentContractFactory()).deploy(await oracleRegistry.getAddress());
+
+        await shipments.setFactory(await shipmentFactory.getAddress());
+        await shipmentFactory.registerShipmentContract(await shipments.getAddress());
+        for (const agent of [agentA, agentB, agentC]) {
+            await oracleRegistry.registerAgent(await agent.getAddress(), AgentType.FRAUD_DETECTION);
+            await oracleRegistry.registerAgent(await agent.getAddress(), AgentType.ARBITRATION);
+        }
+        await oracleRegistry.setThreshold(AgentType.FRAUD_DETECTION, 2);
+        await oracleRegistry.setThreshold(AgentType.ARBITRATION, 2);
+
+        const route = [await shipper.getAddress(), await recipient.getAddress()];
+        legs = generateLegSecrets(route);
+        await shipmentFactory.connect(shipper).createShipment(
+            await shipments.getAddress(), await recipient.getAddress(), "Bullion", route, ethers.ZeroAddress, payment,
+            legKeyHashes(legs), [0n], [0n], 0, 0, { value: payment }
+        );
+        await shipments.connect(shipper).initiateHandover(0);
+        await shipments.connect(recipient).requestVerificationWithSecret(0, legs[0].secret);
+    });
+
+    it("Should move custody only once M distinct agents confirm", async function () {
+        const call = shipments.interface.encodeFunctionData("confirmVerification", [0, await recipient.getAddress()]);
+        const actionHash = await shipments.quorumActionHash(0, call);
+
+        await expect(shipments.connect(agentA).confirmVerification(0, await recipient.getAddress()))
+            .to.emit(shipments, "AgentApprovalRecorded")
+            .withArgs(0, actionHash, await agentA.getAddress(), 1, 2);
+        expect((await shipments.shipmentDetails(0)).status).to.equal(Status.AwaitingVerification);
+        expect(await shipments.hasApproved(actionHash, await agentA.getAddress())).to.be.true;
+
+        await expect(shipments.connect(agentA).confirmVerification(0, await recipient.getAddress()))
+            .to.be.revertedWith("Agent already approved this action");
+
+        await expect(shipments.connect(agentB).confirmVerification(0, await recipient.getAddress()))
+            .to.emit(shipments, "ShipmentVerifiedAndReceived");
+        expect(await shipments.ownerOf(0)).to.equal(await recipient.getAddress());
+
+        // The executed action's approvals are retired with the old action nonce.
+        expect(await shipments.quorumActionHash(0, call)).to.not.equal(actionHash);
+    });
+
+    it("Should not count approvals for different actions together", async function () {
+        await shipments.connect(agentA).confirmVerification(0, await recipient.getAddress());
+        await shipments.connect(agentB).flagShipment(0, "Seal broken");
+        expect((await shipments.shipmentDetails(0)).status).to.equal(Status.AwaitingVerification);
+
+        await shipments.connect(agentC).flagShipment(0, "Seal broken");
+        expect((await shipments.shipmentDetails(0)).status).to.equal(Status.Disputed);
+    });
+
+    it("Should require the arbitrators to agree on the same split", async function () {
+        await shipments.connect(agentA).confirmVerification(0, await recipient.getAddress());
+        await shipments.connect(agentB).confirmVerification(0, await recipient.getAddress());
+        await shipments.connect(recipient).disputeShipment(0, "Counterfeit");
+
+        await shipments.connect(agentA).resolveDispute(0, toShipper);
+        await shipments.connect(agentB).resolveDispute(0, toRecipient);
+        expect((await shipments.shipmentDetails(0)).status).to.equal(Status.Disputed);
+
+        await expect(shipments.connect(agentC).resolveDispute(0, toRecipient))
+            .to.changeEtherBalance(recipient, payment);
+        const [dispute] = await shipments.getDisputes(0);
+        expect(dispute.resolvedBy).to.equal(await agentC.getAddress());
+    });
+
+    it("Should ignore agents that fall below the minimum bond", async function () {
+        await oracleRegistry.setMinimumBond(AgentType.FRAUD_DETECTION, ethers.parseEther("1.0"));
+        await expect(shipments.connect(agentA).confirmVerification(0, await recipient.getAddress()))
+            .to.be.revertedWith("Caller is not a registered agent of this type");
+
+        for (const agent of [agentA, agentB]) {
+            await oracleRegistry.connect(agent).depositBond(AgentType.FRAUD_DETECTION, { value: ethers.parseEther("1.0") });
+            await shipments.connect(agent).confirmVerification(0, await recipient.getAddress());
+        }
+        expect((await shipments.shipmentDetails(0)).status).to.equal(Status.Delivered);
+    });
+
+    it("Should not count approvals from agents revoked or slashed since they approved", async function () {
+        const call = shipments.interface.encodeFunctionData("flagShipment", [0, "Seal broken"]);
+        const actionHash = await shipments.quorumActionHash(0, call);
+        await shipments.connect(agentA).flagShipment(0, "Seal broken");
+        await oracleRegistry.revokeAgent(await agentA.getAddress(), AgentType.FRAUD_DETECTION);
+
+        await expect(shipments.connect(agentB).flagShipment(0, "Seal broken"))
+            .to.emit(shipments, "AgentApprovalRecorded")
+            .withArgs(0, actionHash, await agentB.getAddress(), 1, 2);
+        expect((await shipments.shipmentDetails(0)).status).to.equal(Status.AwaitingVerification);
+        expect(await shipments.approvalCount(actionHash)).to.equal(1);
+
+        await shipments.connect(agentC).flagShipment(0, "Seal broken");
+        expect((await shipments.shipmentDetails(0)).status).to.equal(Status.Disputed);
+
+        // A bonded arbitrator slashed below the minimum loses its pending verdict approval too.
+        await oracleRegistry.setMinimumBond(AgentType.ARBITRATION, ethers.parseEther("1.0"));
+        for (const agent of [agentA, agentB, agentC]) {
+            await oracleRegistry.connect(agent).depositBond(AgentType.ARBITRATION, { value: ethers.parseEther("1.0") });
+        }
+        await shipments.connect(agentB).resolveDispute(0, toRecipient);
+        await oracleRegistry.slashBond(await agentB.getAddress(), AgentType.ARBITRATION, ethers.parseEther("0.5"), await shipper.getAddress());
+
+        await shipments.connect(agentC).resolveDispute(0, toRecipient);
+        expect((await shipments.shipmentDetails(0)).status).to.equal(Status.Disputed);
+        await shipments.connect(agentA).resolveDispute(0, toRecipient);
+        expect((await shipments.shipmentDetails(0)).status).to.equal(Status.Completed);
+    });
+});
@@ -0,0 +1,228 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { Signer, TypedDataDomain } from "ethers";
+import { AddressInfo } from "node:net";
+import { Server } from "node:http";
+import { OracleRegistry, Shipment, ShipmentFactory } from "../typechain-types";
+import { AgentType, Status, UnsignedRequest, generateLegSecrets, legKeyHashes, LegSecret, shipmentDomain, signRequest } from "../sdk";
+import { RelayRejectedError, Relayer, createRelayServer } from "../relayer";
+import { getShipmentContractFactory } from "./helpers";
+
+describe("Signed Requests and Relayer", function () {
+    let owner: Signer, shipper: Signer, warehouse: Signer, recipient: Signer, fraudAgent: Signer, relayerAccount: Signer, stranger: Signer;
+    let oracleRegistry: OracleRegistry;
+    let shipmentFactory: ShipmentFactory;
+    let shipments: Shipment;
+    let domain: TypedDataDomain;
+    let legs: LegSecret[];
+    let relayer: Relayer;
+
+    const HOUR = 60 * 60;
+    const payment = ethers.parseEther("1.0");
+
+    beforeEach(async function () {
+        [owner, shipper, warehouse, recipient, fraudAgent, relayerAccount, stranger] = await ethers.getSigners();
+
+        oracleRegistry = await (await ethers.getContractFactory("OracleRegistry")).deploy();
+        shipmentFactory = await (await ethers.getContractFactory("ShipmentFactory")).deploy();
+        shipments = await (await getShipmentContractFactory()).deploy(await oracleRegistry.getAddress());
+
+        await shipments.setFactory(await shipmentFactory.getAddress());
+        await shipmentFactory.registerShipmentContract(await shipments.getAddress());
+        await oracleRegistry.registerAgent(await fraudAgent.getAddress(), AgentType.FRAUD_DETECTION);
+
+        const route = [await shipper.getAddress(), await warehouse.getAddress(), await recipient.getAddress()];
+        legs = generateLegSecrets(route);
+        await shipmentFactory.connect(shipper).createShipment(
+            await shipments.getAddress(), await recipient.getAddress(), "Textiles", route, ethers.ZeroAddress, payment,
+            legKeyHashes(legs), [0n, 0n], [0n, 0n], 0, 0, { value: payment }
+        );
+
+        domain = await shipmentDomain(shipmentFactory);
+        relayer = new Relayer({ signer: relayerAccount, collections: [await shipments.getAddress()], log: () => {} });
+    });
+
+    // Builds a request for `signer` against its current nonce, valid for an hour.
+    async function request(signer: Signer, fields: Partial<UnsignedRequest> & Pick<UnsignedRequest, "action">): Promise<UnsignedRequest> {
+        return {
+            collection: await shipments.getAddress(),
+            tokenId: 0n,
+            signer: await signer.getAddress(),
+            nonce: await shipmentFactory.nonces(await signer.getAddress()),
+            deadline: BigInt((await time.latest()) + HOUR),
+            ...fields,
+        } as UnsignedRequest;
+    }
+
+    async function rejection(promise: Promise<unknown>): Promise<RelayRejectedError> {
+        try {
+            await promise;
+        } catch (error) {
+            expect(error).to.be.instanceOf(RelayRejectedError);
+            return error as RelayRejectedError;
+        }
+        expect.fail("Expected the relayer to reject the request");
+    }
+
+    describe("Contract", function () {
+        it("Should apply signed actions for the signer while someone else pays", async function () {
+            const handover = await signRequest(shipper, domain, await request(shipper, { action: "initiateHandover" }));
+            await expect(
+                shipmentFactory.connect(stranger).initiateHandoverBySig(shipments, 0, handover.signer, handover.deadline, handover.signature)
+            ).to.changeEtherBalance(shipper, 0);
+
+            const details = await shipments.shipmentDetails(0);
+            expect(details.status).to.equal(Status.InTransit);
+            expect(details.pendingCustodian).to.equal(await warehouse.getAddress());
+        });
+
+        it("Should consume the nonce and refuse replays", async function () {
+            const handover = await signRequest(shipper, domain, await request(shipper, { action: "initiateHandover" }));
+            await shipmentFactory.connect(stranger).initiateHandoverBySig(shipments, 0, handover.signer, handover.deadline, handover.signature);
+            expect((await shipments.shipmentDetails(0)).status).to.equal(Status.InTransit);
+            expect(await shipmentFactory.nonces(await shipper.getAddress())).to.equal(1);
+
+            await expect(shipmentFactory.connect(stranger).initiateHandoverBySig(shipments, 0, handover.signer, handover.deadline, handover.signature))
+                .to.be.revertedWith("Invalid signature");
+        });
+
+        it("Should reject expired signatures", async function () {
+            const handover = await signRequest(shipper, domain, await request(shipper, { action: "initiateHandover" }));
+            await time.increase(HOUR + 1);
+            await expect(shipmentFactory.connect(stranger).initiateHandoverBySig(shipments, 0, handover.signer, handover.deadline, handover.signature))
+                .to.be.revertedWith("Signature expired");
+        });
+
+        it("Should keep the owner and pending-custodian checks on the signer", async function () {
+            const handover = await signRequest(stranger, domain, await request(stranger, { action: "initiateHandover" }));
+            await expect(shipmentFactory.connect(stranger).initiateHandoverBySig(shipments, 0, handover.signer, handover.deadline, handover.signature))
+                .to.be.revertedWith("Signer is not the owner of this shipment");
+
+            await shipments.connect(shipper).initiateHandover(0);
+            const proofHash = ethers.keccak256(legs[0].secret);
+            const verification = await signRequest(
+                stranger, domain, await request(stranger, { action: "requestVerification", custodianProofHash: proofHash })
+            );
+            await expect(shipmentFactory.requestVerificationBySig(shipments, 0, proofHash, verification.signer, verification.deadline, verification.signature))
+                .to.be.revertedWith("Not the designated recipient");
+        });
+
+        it("Should bind signatures to their collection and only let the factory act for a signer", async function () {
+            const other = await (await getShipmentContractFactory()).deploy(await oracleRegistry.getAddress());
+            await other.setFactory(await shipmentFactory.getAddress());
+            const handover = await signRequest(shipper, domain, await request(shipper, { action: "initiateHandover" }));
+            await expect(shipmentFactory.initiateHandoverBySig(other, 0, handover.signer, handover.deadline, handover.signature))
+                .to.be.revertedWith("Invalid signature");
+
+            await expect(shipments.connect(stranger).initiateHandoverFor(0, await shipper.getAddress()))
+                .to.be.revertedWith("Caller is not the factory");
+        });
+    });
+
+    describe("Relayer", function () {
+        it("Should relay a whole leg for custodians without HBAR", async function () {
+            await relayer.relay(await signRequest(shipper, domain, await request(shipper, { action: "initiateHandover" })));
+
+            const proofHash = ethers.keccak256(legs[0].secret);
+            const result = await relayer.relay(
+                await signRequest(warehouse, domain, await request(warehouse, { action: "requestVerification", custodianProofHash: proofHash }))
+            );
+            expect(result.events.map((e) => e.name)).to.include("VerificationRequested");
+            expect(result.receipt.from).to.equal(await relayerAccount.getAddress());
+
+            await shipments.connect(fraudAgent).confirmVerification(0, await warehouse.getAddress());
+            const reroute = await relayer.relay(
+                await signRequest(warehouse, domain, await request(warehouse, { action: "requestReroute", reason: "Port closed" }))
+            );
+            expect(reroute.events.map((e) => e.name)).to.include("RerouteRequested");
+        });
+
+        it("Should reject unknown collections, expired, forged and replayed requests before sending", async function () {
+            const unsigned = await request(shipper, { action: "initiateHandover" });
+            const signed = await signRequest(shipper, domain, unsigned);
+
+            expect((await rejection(relayer.relay({ ...signed, collection: await stranger.getAddress() }))).code).to.equal("UNKNOWN_COLLECTION");
+            expect((await rejection(relayer.relay({ ...signed, tokenId: 1n }))).code).to.equal("BAD_SIGNATURE");
+            expect((await rejection(relayer.relay({ ...signed, signer: await stranger.getAddress() }))).code).to.equal("BAD_SIGNATURE");
+            expect((await rejection(relayer.relay({ ...signed, signer: "not-an-address" }))).code).to.equal("BAD_SIGNATURE");
+
+            const soon = await signRequest(shipper, domain, { ...unsigned, deadline: BigInt((await time.latest()) + 5) });
+            expect((await rejection(relayer.relay(soon))).code).to.equal("EXPIRED");
+
+            await relayer.relay(signed);
+            expect((await rejection(relayer.relay(signed))).code).to.equal("STALE_NONCE");
+        });
+
+        it("Should reject signers that do not hold or await the shipment", async function () {
+            const handover = await signRequest(warehouse, domain, await request(warehouse, { action: "initiateHandover" }));
+            expect((await rejection(relayer.relay(handover))).code).to.equal("NOT_AUTHORIZED");
+
+            const proofHash = ethers.keccak256(legs[0].secret);
+            const early = await signRequest(
+                warehouse, domain, await request(warehouse, { action: "requestVerification", custodianProofHash: proofHash })
+            );
+            expect((await rejection(relayer.relay(early))).code).to.equal("NOT_AUTHORIZED");
+        });
+
+        it("Should reject requests that would revert on-chain", async function () {
+            // The shipment is already in transit, so a second handover cannot succeed.
+            await shipments.connect(shipper).initiateHandover(0);
+            const handover = await signRequest(shipper, domain, await request(shipper, { action: "initiateHandover" }));
+
+            const error = await rejection(relayer.relay(handover));
+            expect(error.code).to.equal("WOULD_REVERT");
+            expect(await shipmentFactory.nonces(await shipper.getAddress())).to.equal(0);
+        });
+    });
+
+    describe("HTTP Server", function () {
+        let server: Server;
+        let url: string;
+
+        beforeEach(async function () {
+            server = createRelayServer(relayer, await relayerAccount.getAddress());
+            await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+            url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+        });
+
+        afterEach(async function () {
+            await new Promise((resolve) => server.close(resolve));
+        });
+
+        const post = (body: unknown) =>
+            fetch(`${url}/relay`, {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify(body, (_, value) => (typeof value === "bigint" ? value.toString() : value)),
+            });
+
+        it("Should relay a JSON request and return the transaction hash", async function () {
+            const signed = await signRequest(shipper, domain, await request(shipper, { action: "initiateHandover" }));
+            const response = await post(signed);
+            expect(response.status).to.equal(200);
+
+            const { txHash } = await response.json();
+            const receipt = await ethers.provider.getTransactionReceipt(txHash);
+            expect(receipt!.from).to.equal(await relayerAccount.getAddress());
+            expect((await shipments.shipmentDetails(0)).status).to.equal(Status.InTransit);
+        });
+
+        it("Should answer malformed and rejected requests with an error code", async function () {
+            const malformed = await post({ action: "initiateHandover", tokenId: "0" });
+            expect(malformed.status).to.equal(400);
+            expect((await malformed.json()).code).to.equal("MALFORMED_REQUEST");
+
+            const badSigner = await post({ ...(await signRequest(shipper, domain, await request(shipper, { action: "initiateHandover" }))), signer: "0x1234" });
+            expect(badSigner.status).to.equal(400);
+            expect(await badSigner.json()).to.deep.equal({ error: 'Field "signer" must be an address', code: "MALFORMED_REQUEST" });
+
+            const forged = await signRequest(stranger, domain, await request(shipper, { action: "initiateHandover" }));
+            const rejected = await post(forged);
+            expect(rejected.status).to.equal(422);
+            expect((await rejected.json()).code).to.equal("BAD_SIGNATURE");
+
+            expect((await fetch(`${url}/health`)).status).to.equal(200);
+        });
+    });
+});
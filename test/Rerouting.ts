@@ -0,0 +1,239 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { Signer } from "ethers";
+import { OracleRegistry, Shipment, ShipmentFactory } from "../typechain-types";
+import { AgentType, InvalidStateError, ShipmentClient, Status, generateLegSecrets, legKeyHashes } from "../sdk";
+import { getShipmentContractFactory } from "./helpers";
+
+describe("Consent-Based Rerouting", function () {
+    let owner: Signer, shipper: Signer, hub: Signer, recipient: Signer, routingAgent: Signer, depot: Signer, newRecipient: Signer, stranger: Signer;
+    let oracleRegistry: OracleRegistry;
+    let shipmentFactory: ShipmentFactory;
+    let shipments: Shipment;
+    let route: string[];
+
+    const DAY = 24 * 60 * 60;
+    const payment = ethers.parseEther("3.0");
+    const legFee = ethers.parseEther("1.0");
+
+    beforeEach(async function () {
+        [owner, shipper, hub, recipient, routingAgent, depot, newRecipient, stranger] = await ethers.getSigners();
+
+        oracleRegistry = await (await ethers.getContractFactory("OracleRegistry")).deploy();
+        shipmentFactory = await (await ethers.getContractFactory("ShipmentFactory")).deploy();
+        shipments = await (await getShipmentContractFactory()).deploy(await oracleRegistry.getAddress());
+
+        await shipments.setFactory(await shipmentFactory.getAddress());
+        await shipmentFactory.registerShipmentContract(await shipments.getAddress());
+        await oracleRegistry.registerAgent(await routingAgent.getAddress(), AgentType.ROUTING);
+
+        route = [await shipper.getAddress(), await hub.getAddress(), await recipient.getAddress()];
+        await shipmentFactory.connect(shipper).createShipment(
+            await shipments.getAddress(), await recipient.getAddress(), "Machine parts", route, ethers.ZeroAddress, payment,
+            legKeyHashes(generateLegSecrets(route)), [legFee, legFee], [0n, 0n], 0, 0, { value: payment }
+        );
+        await shipments.connect(shipper).requestReroute(0, "Hub closed");
+    });
+
+    // Has the routing agent propose `newRoute` with a fresh commitment and `legFee` for every leg.
+    async function propose(newRoute: string[]) {
+        const hashes = legKeyHashes(generateLegSecrets(newRoute));
+        return shipments.connect(routingAgent).proposeReroute(0, newRoute, hashes, hashes.map(() => legFee), hashes.map(() => 0n));
+    }
+
+    const status = async () => Number((await shipments.shipmentDetails(0)).status) as Status;
+
+    describe("Same Destination", function () {
+        it("Should only replace the route once the shipper accepts", async function () {
+            const newRoute = [route[0], await depot.getAddress(), route[2]];
+            const expiresAt = (await time.latest()) + 3 * DAY + 1;
+            await expect(propose(newRoute)).to.emit(shipments, "RouteProposed").withArgs(0, route[2], expiresAt);
+
+            const proposal = await shipments.getRouteProposal(0);
+            expect(proposal.route).to.deep.equal(newRoute);
+            expect(proposal.expiresAt).to.equal(expiresAt);
+            expect(proposal.recipientMustAccept).to.be.false;
+            // Nothing changes until the shipper agrees.
+            expect(await shipments.getRouteHistory(0)).to.deep.equal([route]);
+            expect(await status()).to.equal(Status.ReroutingRequested);
+
+            await expect(shipments.connect(recipient).acceptReroute(0)).to.be.revertedWith("Only the shipper or recipient can accept a route");
+            await expect(shipments.connect(stranger).acceptReroute(0)).to.be.revertedWith("Only the shipper or recipient can accept a route");
+
+            const accept = shipments.connect(shipper).acceptReroute(0);
+            await expect(accept).to.emit(shipments, "RouteAccepted").withArgs(0, await shipper.getAddress());
+            await expect(accept).to.emit(shipments, "RouteUpdated").withArgs(0);
+            await expect(accept).to.emit(shipments, "StatusChanged").withArgs(0, Status.ReroutingRequested, Status.Created);
+
+            expect(await shipments.getRouteHistory(0)).to.deep.equal([route, newRoute]);
+            expect((await shipments.getRouteProposal(0)).expiresAt).to.equal(0);
+            expect((await shipments.shipmentDetails(0)).recipient).to.equal(route[2]);
+        });
+    });
+
+    describe("New Destination", function () {
+        it("Should also require the recipient, then hand the shipment to the new one", async function () {
+            const newRoute = [route[0], route[1], await newRecipient.getAddress()];
+            await propose(newRoute);
+            expect((await shipments.getRouteProposal(0)).recipientMustAccept).to.be.true;
+
+            await expect(shipments.connect(shipper).acceptReroute(0)).to.not.emit(shipments, "RouteUpdated");
+            expect(await status()).to.equal(Status.ReroutingRequested);
+            expect((await shipments.getRouteProposal(0)).shipperAccepted).to.be.true;
+
+            await expect(shipments.connect(recipient).acceptReroute(0)).to.emit(shipments, "RouteUpdated").withArgs(0);
+            const details = await shipments.shipmentDetails(0);
+            expect(details.recipient).to.equal(await newRecipient.getAddress());
+            expect(details.status).to.equal(Status.Created);
+            expect(await shipments.getRouteHistory(0)).to.deep.equal([route, newRoute]);
+        });
+
+        it("Should discard acceptances when the agent replaces the proposal", async function () {
+            await propose([route[0], route[1], await newRecipient.getAddress()]);
+            await shipments.connect(recipient).acceptReroute(0);
+
+            const newRoute = [route[0], await depot.getAddress(), await newRecipient.getAddress()];
+            await propose(newRoute);
+            expect((await shipments.getRouteProposal(0)).recipientAccepted).to.be.false;
+
+            await shipments.connect(shipper).acceptReroute(0);
+            expect(await status()).to.equal(Status.ReroutingRequested);
+            await shipments.connect(recipient).acceptReroute(0);
+            expect(await shipments.getRouteHistory(0)).to.deep.equal([route, newRoute]);
+        });
+    });
+
+    describe("Guards", function () {
+        it("Should refuse to accept after the window, until a new proposal is made", async function () {
+            await propose([route[0], await depot.getAddress(), route[2]]);
+            await time.increase(3 * DAY + 1);
+            await expect(shipments.connect(shipper).acceptReroute(0)).to.be.revertedWith("No route proposal to accept");
+
+            await propose([route[0], await depot.getAddress(), route[2]]);
+            await expect(shipments.connect(shipper).acceptReroute(0)).to.emit(shipments, "RouteUpdated");
+        });
+
+        it("Should only take proposals from routing agents for a requested reroute", async function () {
+            await expect(
+                shipments.connect(stranger).proposeReroute(0, route, [ethers.ZeroHash], [0n], [0n])
+            ).to.be.revertedWith("Caller is not a registered agent of this type");
+            await expect(
+                propose([route[0], await depot.getAddress(), route[1], await newRecipient.getAddress(), route[2]])
+            ).to.be.revertedWith("Leg fees exceed remaining escrow");
+            await expect(shipments.connect(shipper).acceptReroute(0)).to.be.revertedWith("No route proposal to accept");
+
+            await propose(route);
+            await shipments.connect(shipper).acceptReroute(0);
+            await expect(propose(route)).to.be.revertedWith("Reroute not requested");
+            await expect(shipments.connect(shipper).acceptReroute(0)).to.be.revertedWith("Reroute not requested");
+        });
+
+        it("Should take a request while a handover is in transit and call that handover off", async function () {
+            await shipmentFactory.connect(shipper).createShipment(
+                await shipments.getAddress(), route[2], "Machine parts", route, ethers.ZeroAddress, payment,
+                legKeyHashes(generateLegSecrets(route)), [legFee, legFee], [0n, 0n], 0, 0, { value: payment }
+            );
+            await shipments.connect(shipper).initiateHandover(1);
+
+            await expect(shipments.connect(shipper).requestReroute(1, "Hub closed"))
+                .to.emit(shipments, "StatusChanged")
+                .withArgs(1, Status.InTransit, Status.ReroutingRequested);
+            expect((await shipments.shipmentDetails(1)).pendingCustodian).to.equal(ethers.ZeroAddress);
+
+            const newRoute = [route[0], await depot.getAddress(), route[2]];
+            const hashes = legKeyHashes(generateLegSecrets(newRoute));
+            await shipments.connect(routingAgent).proposeReroute(1, newRoute, hashes, [legFee, legFee], [0n, 0n]);
+            await shipments.connect(shipper).acceptReroute(1);
+            await expect(shipments.connect(shipper).initiateHandover(1))
+                .to.emit(shipments, "HandoverInitiated")
+                .withArgs(1, route[0], await depot.getAddress());
+        });
+
+        it("Should let the custodian or shipper withdraw a request, discarding its proposal", async function () {
+            await propose([route[0], await depot.getAddress(), route[2]]);
+            await expect(shipments.connect(recipient).withdrawRerouteRequest(0)).to.be.revertedWith(
+                "Only the custodian or shipper can withdraw"
+            );
+
+            const withdraw = shipments.connect(shipper).withdrawRerouteRequest(0);
+            await expect(withdraw).to.emit(shipments, "RerouteWithdrawn").withArgs(0, await shipper.getAddress());
+            await expect(withdraw).to.emit(shipments, "StatusChanged").withArgs(0, Status.ReroutingRequested, Status.Created);
+            expect(await shipments.getRouteHistory(0)).to.deep.equal([route]);
+            await expect(shipments.connect(shipper).withdrawRerouteRequest(0)).to.be.revertedWith("Reroute not requested");
+
+            // The proposal made for the withdrawn request cannot be taken up by a later one
+            await shipments.connect(shipper).requestReroute(0, "Hub closed again");
+            await expect(shipments.connect(shipper).acceptReroute(0)).to.be.revertedWith("No route proposal to accept");
+        });
+
+        it("Should refuse a route with no legs left to travel", async function () {
+            // The shipper would become the recipient with nothing left to deliver
+            await expect(shipments.connect(routingAgent).proposeReroute(0, [route[0]], [], [], [])).to.be.revertedWith(
+                "New route has no legs left to travel"
+            );
+            expect((await shipments.getRouteProposal(0)).expiresAt).to.equal(0);
+        });
+
+        it("Should withdraw the old recipient's cancellation approval when the destination changes", async function () {
+            const legs = generateLegSecrets(route);
+            await shipmentFactory.connect(shipper).createShipment(
+                await shipments.getAddress(), await recipient.getAddress(), "Machine parts", route, ethers.ZeroAddress, payment,
+                legKeyHashes(legs), [legFee, legFee], [0n, 0n], 0, 0, { value: payment }
+            );
+            await oracleRegistry.registerAgent(await owner.getAddress(), AgentType.FRAUD_DETECTION);
+            await shipments.connect(shipper).initiateHandover(1);
+            await shipments.connect(hub).requestVerificationWithSecret(1, legs[0].secret);
+            await shipments.connect(owner).confirmVerification(1, await hub.getAddress());
+
+            await shipments.connect(hub).requestReroute(1, "Recipient moved");
+            await shipments.connect(recipient).approveCancellation(1);
+            const newRoute = [route[0], route[1], await newRecipient.getAddress()];
+            const hashes = legKeyHashes(generateLegSecrets(newRoute)).slice(1);
+            await shipments.connect(routingAgent).proposeReroute(1, newRoute, hashes, [legFee], [0n]);
+            await shipments.connect(shipper).acceptReroute(1);
+            await shipments.connect(recipient).acceptReroute(1);
+
+            expect(await shipments.cancellationApproved(1)).to.be.false;
+            await expect(shipments.connect(shipper).cancelShipment(1)).to.be.revertedWith("Recipient has not approved cancellation");
+            await expect(shipments.connect(recipient).approveCancellation(1)).to.be.revertedWith("Only the recipient can approve cancellation");
+        });
+
+        it("Should let only the owner change the acceptance window", async function () {
+            await expect(shipments.connect(stranger).setRouteAcceptanceWindow(DAY))
+                .to.be.revertedWithCustomError(shipments, "OwnableUnauthorizedAccount");
+            await expect(shipments.setRouteAcceptanceWindow(0)).to.be.revertedWith("Acceptance window cannot be zero");
+            await expect(shipments.setRouteAcceptanceWindow(DAY)).to.emit(shipments, "RouteAcceptanceWindowUpdated").withArgs(DAY);
+
+            await propose(route);
+            expect((await shipments.getRouteProposal(0)).expiresAt).to.equal((await time.latest()) + DAY);
+        });
+    });
+
+    describe("SDK", function () {
+        it("Should propose, accept and read the route history through the client", async function () {
+            const agentClient = new ShipmentClient(await shipments.getAddress(), routingAgent);
+            const shipperClient = new ShipmentClient(await shipments.getAddress(), shipper);
+            const newRoute = [route[0], await depot.getAddress(), route[2]];
+
+            try {
+                await shipperClient.acceptReroute(0);
+                expect.fail("Expected the acceptance to be refused");
+            } catch (error) {
+                expect(error).to.be.instanceOf(InvalidStateError);
+                expect((error as InvalidStateError).code).to.equal("NO_ROUTE_PROPOSAL");
+            }
+
+            const hashes = legKeyHashes(generateLegSecrets(newRoute));
+            const proposed = await agentClient.proposeReroute(0, newRoute, hashes, [legFee, legFee]);
+            expect(proposed.events.find((e) => e.name === "RouteProposed")?.args).to.include({ tokenId: 0n, finalDestination: route[2] });
+            expect((await shipperClient.getRouteProposal(0))?.legKeyHashes).to.deep.equal(hashes);
+
+            const { events } = await shipperClient.acceptReroute(0);
+            expect(events.map((e) => e.name)).to.deep.equal(["RouteAccepted", "StatusChanged", "RouteUpdated"]);
+            expect(await shipperClient.getRouteProposal(0)).to.be.undefined;
+            expect(await shipperClient.getRouteHistory(0)).to.deep.equal([route, newRoute]);
+            expect(await shipperClient.routeAcceptanceWindow()).to.equal(BigInt(3 * DAY));
+        });
+    });
+});
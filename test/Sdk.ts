@@ -0,0 +1,253 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { Signer } from "ethers";
+import {
+    AgentType,
+    HashRouteClient,
+    InvalidArgumentError,
+    InvalidStateError,
+    RevertReason,
+    ShipmentClient,
+    Status,
+    UnauthorizedError,
+    deriveLegSecrets,
+    exportLegSecrets,
+    generateLegSecrets,
+    legKeyHashes,
+} from "../sdk";
+import { getShipmentContractFactory } from "./helpers";
+
+describe("HashRoute SDK", function () {
+    let owner: Signer, shipper: Signer, recipient: Signer, fraudAgent: Signer, stranger: Signer;
+    let admin: HashRouteClient;
+    let collectionAddress: string;
+    let factoryAddress: string;
+    let registryAddress: string;
+    const secret = ethers.randomBytes(32);
+    const keyHash = ethers.keccak256(secret);
+    const payment = ethers.parseEther("1.0");
+
+    const asSigner = (signer: Signer): HashRouteClient =>
+        new HashRouteClient({ factory: factoryAddress, oracleRegistry: registryAddress }, signer);
+
+    const collectionFor = (signer: Signer): ShipmentClient => asSigner(signer).collection(collectionAddress);
+
+    beforeEach(async function () {
+        [owner, shipper, recipient, fraudAgent, stranger] = await ethers.getSigners();
+
+        const OracleRegistryFactory = await ethers.getContractFactory("OracleRegistry");
+        const oracleRegistry = await OracleRegistryFactory.deploy();
+        registryAddress = await oracleRegistry.getAddress();
+
+        const UniversalFactory = await ethers.getContractFactory("ShipmentFactory");
+        const factory = await UniversalFactory.deploy();
+        factoryAddress = await factory.getAddress();
+
+        const ShipmentContractFactory = await getShipmentContractFactory();
+        const collection = await ShipmentContractFactory.deploy(registryAddress);
+        collectionAddress = await collection.getAddress();
+        await collection.setFactory(factoryAddress);
+
+        admin = asSigner(owner);
+        await admin.registerShipmentContract(collectionAddress);
+        await admin.registerAgent(await fraudAgent.getAddress(), AgentType.FRAUD_DETECTION);
+    });
+
+    async function createShipment(): Promise<bigint> {
+        const { tokenId } = await asSigner(shipper).createShipment({
+            collection: collectionAddress,
+            recipient: await recipient.getAddress(),
+            cargoDetails: "SDK Cargo",
+            plannedRoute: [await shipper.getAddress(), await recipient.getAddress()],
+            paymentAmount: payment,
+            legKeyHashes: [keyHash],
+            legFees: [0n],
+        });
+        return tokenId;
+    }
+
+    it("Should report agents with the named AgentType enum", async function () {
+        expect(await admin.isAgent(await fraudAgent.getAddress(), AgentType.FRAUD_DETECTION)).to.be.true;
+        expect(await admin.isAgent(await fraudAgent.getAddress(), AgentType.ROUTING)).to.be.false;
+        expect(await admin.getAgents(AgentType.FRAUD_DETECTION)).to.deep.equal([
+            { agent: await fraudAgent.getAddress(), metadata: "", bond: 0n, trusted: true },
+        ]);
+        expect(await admin.quorum(AgentType.FRAUD_DETECTION)).to.equal(1n);
+    });
+
+    it("Should run a full shipment and decode details and events", async function () {
+        const tokenId = await createShipment();
+
+        const created = await collectionFor(shipper).getDetails(tokenId);
+        expect(created.status).to.equal(Status.Created);
+        expect(created.paymentAmount).to.equal(payment);
+        expect(await collectionFor(shipper).getLegKeyHashes(tokenId)).to.deep.equal([keyHash]);
+
+        const handover = await collectionFor(shipper).initiateHandover(tokenId);
+        expect(handover.events.map((e) => e.name)).to.deep.equal(["StatusChanged", "HandoverInitiated"]);
+        expect(handover.events[0].args).to.deep.equal({ tokenId, from: Status.Created, to: Status.InTransit });
+
+        const request = await collectionFor(recipient).requestVerification(tokenId, keyHash);
+        const requested = request.events[1];
+        expect(requested.name).to.equal("VerificationRequested");
+        if (requested.name === "VerificationRequested") {
+            expect(requested.args.custodianProofHash).to.equal(keyHash);
+        }
+
+        await collectionFor(fraudAgent).confirmVerification(tokenId, await recipient.getAddress());
+        expect((await collectionFor(shipper).getDetails(tokenId)).status).to.equal(Status.Delivered);
+
+        const payout = await collectionFor(shipper).finalizeAndPay(tokenId);
+        expect(payout.events[1]).to.deep.include({ name: "PaymentReleased" });
+        expect((await collectionFor(shipper).getDetails(tokenId)).status).to.equal(Status.Completed);
+
+        const history = (await collectionFor(shipper).queryEvents(tokenId)).map((e) => e.name);
+        expect(history).to.deep.equal([
+            "ShipmentInitialized",
+            "StatusChanged",
+            "HandoverInitiated",
+            "StatusChanged",
+            "VerificationRequested",
+            "StatusChanged",
+            "ShipmentVerifiedAndReceived",
+            "StatusChanged",
+            "PaymentReleased",
+        ]);
+    });
+
+    it("Should turn revert strings into typed errors", async function () {
+        const tokenId = await createShipment();
+        await collectionFor(shipper).initiateHandover(tokenId);
+
+        let caught: unknown;
+        try {
+            await collectionFor(stranger).requestVerification(tokenId, keyHash);
+        } catch (error) {
+            caught = error;
+        }
+        expect(caught).to.be.instanceOf(UnauthorizedError);
+        expect((caught as UnauthorizedError).code).to.equal("NOT_DESIGNATED_RECIPIENT");
+        expect((caught as UnauthorizedError).reason).to.equal(RevertReason.NOT_DESIGNATED_RECIPIENT);
+
+        caught = undefined;
+        try {
+            await collectionFor(shipper).finalizeAndPay(tokenId);
+        } catch (error) {
+            caught = error;
+        }
+        expect(caught).to.be.instanceOf(InvalidStateError);
+        expect((caught as InvalidStateError).code).to.equal("NOT_DELIVERED");
+    });
+
+    it("Should generate per-leg secrets that the contract accepts", async function () {
+        const route = [await shipper.getAddress(), await stranger.getAddress(), await recipient.getAddress()];
+        const legs = generateLegSecrets(route);
+        expect(legs.map((l) => [l.leg, l.from, l.to])).to.deep.equal([
+            [0, route[0], route[1]],
+            [1, route[1], route[2]],
+        ]);
+        expect(new Set(legs.map((l) => l.secret)).size).to.equal(2);
+        expect(deriveLegSecrets(ethers.ZeroHash, route)).to.deep.equal(deriveLegSecrets(ethers.ZeroHash, route));
+
+        const { tokenId } = await asSigner(shipper).createShipment({
+            collection: collectionAddress,
+            recipient: await recipient.getAddress(),
+            cargoDetails: "SDK Cargo",
+            plannedRoute: route,
+            paymentAmount: payment,
+            legKeyHashes: legKeyHashes(legs),
+            legFees: [0n, 0n],
+        });
+        await collectionFor(shipper).initiateHandover(tokenId);
+
+        let caught: unknown;
+        try {
+            await collectionFor(stranger).requestVerificationWithSecret(tokenId, legs[1].secret);
+        } catch (error) {
+            caught = error;
+        }
+        expect((caught as InvalidArgumentError).code).to.equal("LEG_SECRET_MISMATCH");
+
+        await collectionFor(stranger).requestVerificationWithSecret(tokenId, legs[0].secret);
+
+        const exported = JSON.parse(exportLegSecrets(collectionAddress, tokenId, legs));
+        expect(exported.legs).to.have.length(2);
+        expect(exported.tokenId).to.equal(tokenId.toString());
+    });
+
+    it("Should escrow and settle a shipment in an allow-listed token", async function () {
+        const usdc = await (await ethers.getContractFactory("MockERC20")).deploy("USD Coin", "USDC", 6);
+        const usdcAddress = await usdc.getAddress();
+        const amount = ethers.parseUnits("250", 6);
+        await usdc.mint(await shipper.getAddress(), amount);
+        const params = {
+            collection: collectionAddress,
+            recipient: await recipient.getAddress(),
+            cargoDetails: "SDK Cargo",
+            plannedRoute: [await shipper.getAddress(), await recipient.getAddress()],
+            paymentToken: usdcAddress,
+            paymentAmount: amount,
+            legKeyHashes: [keyHash],
+            legFees: [0n],
+        };
+
+        let caught: unknown;
+        try {
+            await asSigner(shipper).createShipment(params);
+        } catch (error) {
+            caught = error;
+        }
+        expect((caught as InvalidArgumentError).code).to.equal("TOKEN_NOT_ACCEPTED");
+
+        const allowed = await collectionFor(owner).setPaymentTokenAllowed(usdcAddress, true);
+        expect(allowed.events[0]).to.deep.include({ name: "PaymentTokenAllowed" });
+        await asSigner(shipper).approvePaymentToken(usdcAddress, amount);
+        const { tokenId } = await asSigner(shipper).createShipment(params);
+
+        const escrow = await collectionFor(shipper).getEscrow(tokenId);
+        expect(escrow.paymentToken).to.equal(usdcAddress);
+        expect(escrow.paymentAmount).to.equal(amount);
+
+        await collectionFor(shipper).initiateHandover(tokenId);
+        await collectionFor(recipient).requestVerification(tokenId, keyHash);
+        await collectionFor(fraudAgent).confirmVerification(tokenId, await recipient.getAddress());
+        await collectionFor(shipper).finalizeAndPay(tokenId);
+        expect(await usdc.balanceOf(await shipper.getAddress())).to.equal(amount);
+    });
+
+    it("Should decode dispute records and split verdicts", async function () {
+        const tokenId = await createShipment();
+        await admin.registerAgent(await stranger.getAddress(), AgentType.ARBITRATION);
+
+        await collectionFor(recipient).disputeShipment(tokenId, "Wrong item");
+        const evidenceHash = ethers.keccak256(ethers.toUtf8Bytes("packing list"));
+        const submitted = await collectionFor(shipper).submitEvidence(tokenId, "ipfs://packing-list", evidenceHash);
+        expect(submitted.events[0]).to.deep.include({ name: "EvidenceSubmitted" });
+
+        const split = { shipperBps: 2_500n, recipientBps: 7_500n, custodianBps: 0n };
+        const resolved = await collectionFor(stranger).resolveDispute(tokenId, split);
+        const event = resolved.events[1];
+        expect(event.name).to.equal("DisputeResolved");
+        if (event.name === "DisputeResolved") {
+            expect(event.args.recipientAmount).to.equal((payment * 3n) / 4n);
+        }
+
+        const [dispute] = await collectionFor(shipper).getDisputes(tokenId);
+        expect(dispute.raisedBy).to.equal(await recipient.getAddress());
+        expect(dispute.evidence).to.have.length(1);
+        expect(dispute.evidence[0].contentHash).to.equal(evidenceHash);
+        expect(dispute.verdict).to.deep.equal(split);
+        expect((await collectionFor(shipper).getArbitrationSettings()).defaultSplit.shipperBps).to.equal(10_000n);
+    });
+
+    it("Should map inherited custom errors", async function () {
+        let caught: unknown;
+        try {
+            await asSigner(stranger).registerAgent(await stranger.getAddress(), AgentType.ARBITRATION);
+        } catch (error) {
+            caught = error;
+        }
+        expect(caught).to.be.instanceOf(UnauthorizedError);
+        expect((caught as UnauthorizedError).code).to.equal("OwnableUnauthorizedAccount");
+    });
+});
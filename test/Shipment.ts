@@ -2,6 +2,7 @@ import { expect } from "chai";
 import { ethers } from "hardhat";
 import { Signer } from "ethers";
 import { ShipmentFactory, Shipment, OracleRegistry } from "../typechain-types";
+import { getShipmentContractFactory } from "./helpers";
 
 describe("ShipmentFactory (Universal)", function () {
     let factory: ShipmentFactory;
@@ -19,7 +20,7 @@ describe("ShipmentFactory (Universal)", function () {
         const OracleRegistryFactory = await ethers.getContractFactory("OracleRegistry");
         oracleRegistry = await OracleRegistryFactory.deploy();
 
-        const ShipmentFactory = await ethers.getContractFactory("Shipment");
+        const ShipmentFactory = await getShipmentContractFactory();
         shipmentCollection1 = await ShipmentFactory.deploy(await oracleRegistry.getAddress());
         shipmentCollection2 = await ShipmentFactory.deploy(await oracleRegistry.getAddress());
 
@@ -67,27 +68,30 @@ describe("ShipmentFactory (Universal)", function () {
             await factory.connect(owner).registerShipmentContract(await shipmentCollection1.getAddress());
         });
 
-        it("Should create a shipment and correctly store the secret hash", async function () {
+        it("Should create a shipment and correctly store the leg secret hashes", async function () {
             const collectionAddr = await shipmentCollection1.getAddress();
             const recipientAddr = await user.getAddress();
             const payment = ethers.parseEther("1.0");
 
-            // Test the createShipment call with the new secretHash parameter
+            // Test the createShipment call with one secret hash per route leg
             await expect(factory.connect(user).createShipment(
                 collectionAddr,
                 recipientAddr,
                 "Test Cargo",
                 [await user.getAddress(), recipientAddr],
+                ethers.ZeroAddress,
                 payment,
-                keyHash, // Pass the new hash
+                [keyHash], // Pass the per-leg hashes
+                [0n],
+                [0n], 0, 0, // No deadlines or late penalty
                 { value: payment }
             )).to.emit(factory, "ShipmentCreated");
 
             const tokenId = 0;
-            const details = await shipmentCollection1.shipmentDetails(tokenId);
-            
-            // Verify that the hash was stored correctly on the Shipment contract
-            expect(details.keyHash).to.equal(keyHash);
+
+            // Verify that the hashes were stored correctly on the Shipment contract
+            expect(await shipmentCollection1.getLegKeyHashes(tokenId)).to.deep.equal([keyHash]);
+            expect(await shipmentCollection1.currentLegKeyHash(tokenId)).to.equal(keyHash);
         });
 
         it("Should fail to create a shipment in an unregistered collection", async function () {
@@ -100,8 +104,11 @@ describe("ShipmentFactory (Universal)", function () {
                 recipientAddr,
                 "Test Cargo",
                 [await user.getAddress(), recipientAddr],
+                ethers.ZeroAddress,
                 payment,
-                keyHash,
+                [keyHash],
+                [0n],
+                [0n], 0, 0, // No deadlines or late penalty
                 { value: payment }
             )).to.be.revertedWith("Factory: Target contract is not registered");
         });
@@ -117,10 +124,51 @@ describe("ShipmentFactory (Universal)", function () {
                 recipientAddr,
                 "Test Cargo",
                 [await user.getAddress(), recipientAddr],
+                ethers.ZeroAddress,
                 payment,
-                emptyHash, // Pass an empty hash
+                [emptyHash], // Pass an empty hash
+                [0n],
+                [0n], 0, 0, // No deadlines or late penalty
                 { value: payment }
             )).to.be.revertedWith("Factory: Secret hash cannot be empty");
         });
+
+        it("Should fail if the leg fees exceed the payment", async function () {
+            const collectionAddr = await shipmentCollection1.getAddress();
+            const recipientAddr = await user.getAddress();
+            const payment = ethers.parseEther("1.0");
+
+            await expect(factory.connect(user).createShipment(
+                collectionAddr,
+                recipientAddr,
+                "Test Cargo",
+                [await user.getAddress(), recipientAddr],
+                ethers.ZeroAddress,
+                payment,
+                [keyHash],
+                [payment + 1n],
+                [0n], 0, 0, // No deadlines or late penalty
+                { value: payment }
+            )).to.be.revertedWith("Factory: Leg fees exceed payment amount");
+        });
+
+        it("Should fail if there is not exactly one secret hash per leg", async function () {
+            const collectionAddr = await shipmentCollection1.getAddress();
+            const recipientAddr = await user.getAddress();
+            const payment = ethers.parseEther("1.0");
+
+            await expect(factory.connect(user).createShipment(
+                collectionAddr,
+                recipientAddr,
+                "Test Cargo",
+                [await user.getAddress(), await owner.getAddress(), recipientAddr],
+                ethers.ZeroAddress,
+                payment,
+                [keyHash], // Two legs, one hash
+                [0n],
+                [0n], 0, 0, // No deadlines or late penalty
+                { value: payment }
+            )).to.be.revertedWith("Factory: One key hash per route leg required");
+        });
     });
 });
\ No newline at end of file
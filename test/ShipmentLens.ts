@@ -0,0 +1,159 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { Signer } from "ethers";
+import { OracleRegistry, Shipment, ShipmentFactory, ShipmentLens } from "../typechain-types";
+import { AgentType, HashRouteClient, Party, Status, generateLegSecrets, legKeyHashes } from "../sdk";
+import { getShipmentContractFactory } from "./helpers";
+
+describe("ShipmentLens Views", function () {
+    let owner: Signer, shipper: Signer, hub: Signer, recipient: Signer, otherShipper: Signer, fraudAgent: Signer;
+    let oracleRegistry: OracleRegistry;
+    let shipmentFactory: ShipmentFactory;
+    let shipments: Shipment;
+    let lens: ShipmentLens;
+    let route: string[];
+
+    const payment = ethers.parseEther("2.0");
+
+    beforeEach(async function () {
+        [owner, shipper, hub, recipient, otherShipper, fraudAgent] = await ethers.getSigners();
+
+        oracleRegistry = await (await ethers.getContractFactory("OracleRegistry")).deploy();
+        shipmentFactory = await (await ethers.getContractFactory("ShipmentFactory")).deploy();
+        shipments = await (await getShipmentContractFactory()).deploy(await oracleRegistry.getAddress());
+        lens = await (await ethers.getContractFactory("ShipmentLens")).deploy();
+
+        await shipments.setFactory(await shipmentFactory.getAddress());
+        await shipmentFactory.registerShipmentContract(await shipments.getAddress());
+        await oracleRegistry.registerAgent(await fraudAgent.getAddress(), AgentType.FRAUD_DETECTION);
+
+        route = [await shipper.getAddress(), await hub.getAddress(), await recipient.getAddress()];
+    });
+
+    async function create(from: Signer, plannedRoute: string[]) {
+        await shipmentFactory.connect(from).createShipment(
+            await shipments.getAddress(), plannedRoute[plannedRoute.length - 1], "Pallets", plannedRoute, ethers.ZeroAddress, payment,
+            legKeyHashes(generateLegSecrets(plannedRoute)), plannedRoute.slice(1).map(() => 0n), plannedRoute.slice(1).map(() => 0n), 0, 0,
+            { value: payment }
+        );
+    }
+
+    // Walks token `tokenId` through one verified handover to `custodian`.
+    async function handOver(tokenId: number, from: Signer, custodian: Signer) {
+        await shipments.connect(from).initiateHandover(tokenId);
+        await shipments.connect(custodian).requestVerification(tokenId, ethers.ZeroHash);
+        await shipments.connect(fraudAgent).confirmVerification(tokenId, await custodian.getAddress());
+    }
+
+    describe("Routes and Custody", function () {
+        it("Should follow the current and next custodian through the journey", async function () {
+            await create(shipper, route);
+            expect(await lens.getRoute(shipments, 0)).to.deep.equal(route);
+            expect(await lens.getCustodians(shipments, 0)).to.deep.equal([route[0], route[1]]);
+
+            await shipments.connect(shipper).initiateHandover(0);
+            expect(await lens.getCustodians(shipments, 0)).to.deep.equal([route[0], route[1]]);
+
+            await shipments.connect(hub).requestVerification(0, ethers.ZeroHash);
+            await shipments.connect(fraudAgent).confirmVerification(0, route[1]);
+            expect(await lens.getCustodians(shipments, 0)).to.deep.equal([route[1], route[2]]);
+
+            await handOver(0, hub, recipient);
+            expect(await lens.getCustodians(shipments, 0)).to.deep.equal([route[2], ethers.ZeroAddress]);
+        });
+
+        it("Should summarise a shipment and report burned tokens as having no custodian", async function () {
+            await create(shipper, route);
+            const summary = await lens.getSummary(shipments, 0);
+            expect(summary.status).to.equal(Status.Created);
+            expect(summary.shipper).to.equal(route[0]);
+            expect(summary.recipient).to.equal(route[2]);
+            expect(summary.custodian).to.equal(route[0]);
+            expect(summary.nextCustodian).to.equal(route[1]);
+            expect(summary.currentRouteIndex).to.equal(0);
+            expect(summary.routeLength).to.equal(3);
+            expect(summary.paymentToken).to.equal(ethers.ZeroAddress);
+            expect(summary.paymentAmount).to.equal(payment);
+            expect(summary.overdue).to.be.false;
+
+            await shipments.connect(shipper).cancelShipment(0);
+            const cancelled = await lens.getSummary(shipments, 0);
+            expect(cancelled.status).to.equal(Status.Cancelled);
+            expect(cancelled.custodian).to.equal(ethers.ZeroAddress);
+            expect(cancelled.nextCustodian).to.equal(ethers.ZeroAddress);
+        });
+
+        it("Should reject unknown shipments and collections without a factory", async function () {
+            await expect(lens.getRoute(shipments, 0)).to.be.revertedWith("Lens: Shipment does not exist");
+            await expect(lens.getSummary(shipments, 0)).to.be.revertedWith("Lens: Shipment does not exist");
+
+            const unwired = await (await getShipmentContractFactory()).deploy(await oracleRegistry.getAddress());
+            expect(await lens.shipmentCount(unwired)).to.equal(0);
+            expect(await lens.shipmentsOf(unwired, Party.Shipper, route[0], 0, 10)).to.deep.equal([[], 0n]);
+        });
+    });
+
+    describe("Per-Address Lists", function () {
+        beforeEach(async function () {
+            // Tokens 0, 1 and 3 belong to `shipper`; token 2 to `otherShipper`, also delivered to `recipient`.
+            await create(shipper, route);
+            await create(shipper, [route[0], route[1]]);
+            await create(otherShipper, [await otherShipper.getAddress(), route[2]]);
+            await create(shipper, route);
+            await handOver(1, shipper, hub);
+        });
+
+        it("Should list shipments by shipper, recipient and custodian", async function () {
+            expect(await lens.shipmentCount(shipments)).to.equal(4);
+            expect(await lens.shipmentsOf(shipments, Party.Shipper, route[0], 0, 10)).to.deep.equal([[0n, 1n, 3n], 4n]);
+            expect(await lens.shipmentsOf(shipments, Party.Recipient, route[2], 0, 10)).to.deep.equal([[0n, 2n, 3n], 4n]);
+            expect(await lens.shipmentsOf(shipments, Party.Custodian, route[0], 0, 10)).to.deep.equal([[0n, 3n], 4n]);
+            expect(await lens.shipmentsOf(shipments, Party.Custodian, route[1], 0, 10)).to.deep.equal([[1n], 4n]);
+
+            await shipments.connect(shipper).cancelShipment(3);
+            expect(await lens.shipmentsOf(shipments, Party.Custodian, route[0], 0, 10)).to.deep.equal([[0n], 4n]);
+        });
+
+        it("Should page through the collection a bounded number of token IDs at a time", async function () {
+            expect(await lens.shipmentsOf(shipments, Party.Shipper, route[0], 0, 2)).to.deep.equal([[0n, 1n], 2n]);
+            expect(await lens.shipmentsOf(shipments, Party.Shipper, route[0], 2, 1)).to.deep.equal([[], 3n]);
+            expect(await lens.shipmentsOf(shipments, Party.Shipper, route[0], 3, 2)).to.deep.equal([[3n], 4n]);
+            expect(await lens.shipmentsOf(shipments, Party.Shipper, route[0], 5, 2)).to.deep.equal([[], 4n]);
+        });
+
+        it("Should scan the rest of the collection when the limit is the largest uint256", async function () {
+            expect(await lens.shipmentsOf(shipments, Party.Shipper, route[0], 0, ethers.MaxUint256)).to.deep.equal([[0n, 1n, 3n], 4n]);
+            expect(await lens.shipmentsOf(shipments, Party.Shipper, route[0], 2, ethers.MaxUint256)).to.deep.equal([[3n], 4n]);
+            expect(await lens.shipmentsOf(shipments, Party.Shipper, route[0], 5, ethers.MaxUint256)).to.deep.equal([[], 4n]);
+        });
+    });
+
+    describe("SDK", function () {
+        it("Should read summaries and whole lists through the client", async function () {
+            await create(shipper, route);
+            await create(otherShipper, [await otherShipper.getAddress(), route[2]]);
+            await create(shipper, route);
+
+            const addresses = { factory: await shipmentFactory.getAddress(), oracleRegistry: await oracleRegistry.getAddress() };
+            const client = new HashRouteClient({ ...addresses, lens: await lens.getAddress() }, owner);
+            const collection = await shipments.getAddress();
+
+            expect(await client.allShipmentsOf(collection, Party.Shipper, route[0], 1n)).to.deep.equal([0n, 2n]);
+            expect(await client.shipmentsOf(collection, Party.Recipient, route[2], 1n, 5n)).to.deep.equal({ tokenIds: [1n, 2n], nextCursor: 3n });
+            expect(await client.getRoute(collection, 0)).to.deep.equal(route);
+            expect(await client.getCustodians(collection, 0)).to.deep.equal({ current: route[0], next: route[1] });
+
+            const [first, second] = await client.getSummaries(collection, [0, 1]);
+            expect(first).to.deep.equal(await client.getSummary(collection, 0));
+            expect(first).to.include({ status: Status.Created, shipper: route[0], routeLength: 3n, overdue: false });
+            expect(second.shipper).to.equal(await otherShipper.getAddress());
+
+            try {
+                await new HashRouteClient(addresses, owner).getSummary(collection, 0);
+                expect.fail("Expected the call to need a lens");
+            } catch (error) {
+                expect((error as Error).message).to.equal("No ShipmentLens address configured");
+            }
+        });
+    });
+});
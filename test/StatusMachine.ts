@@ -0,0 +1,275 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import { ContractTransactionResponse, Signer } from "ethers";
+import { Shipment } from "../typechain-types";
+import { AgentType, Status, canTransition, generateLegSecrets, legKeyHashes } from "../sdk";
+import { getShipmentContractFactory } from "./helpers";
+
+const ONE_DAY = 24 * 60 * 60;
+const STATUSES = [
+    Status.Created,
+    Status.InTransit,
+    Status.AwaitingVerification,
+    Status.Delivered,
+    Status.Completed,
+    Status.Disputed,
+    Status.ReroutingRequested,
+    Status.Cancelled,
+];
+const UNDERWAY = [Status.Created, Status.InTransit, Status.AwaitingVerification, Status.ReroutingRequested];
+
+describe("Status Machine", function () {
+    // A three-stop shipment (shipper -> hub -> recipient) with a delivery deadline ten days out.
+    async function deployFixture() {
+        const [owner, shipper, hub, recipient, fraudAgent, routingAgent, arbitrator] = await ethers.getSigners();
+
+        const oracleRegistry = await (await ethers.getContractFactory("OracleRegistry")).deploy();
+        const shipmentFactory = await (await ethers.getContractFactory("ShipmentFactory")).deploy();
+        const shipments = await (await getShipmentContractFactory()).deploy(await oracleRegistry.getAddress());
+
+        await shipments.setFactory(await shipmentFactory.getAddress());
+        await shipmentFactory.registerShipmentContract(await shipments.getAddress());
+        await oracleRegistry.registerAgent(await fraudAgent.getAddress(), AgentType.FRAUD_DETECTION);
+        await oracleRegistry.registerAgent(await routingAgent.getAddress(), AgentType.ROUTING);
+        await oracleRegistry.registerAgent(await arbitrator.getAddress(), AgentType.ARBITRATION);
+
+        const route = [await shipper.getAddress(), await hub.getAddress(), await recipient.getAddress()];
+        const legs = generateLegSecrets(route);
+        const payment = ethers.parseEther("1.0");
+        await shipmentFactory.connect(shipper).createShipment(
+            await shipments.getAddress(), await recipient.getAddress(), "Pharmaceuticals", route, ethers.ZeroAddress, payment,
+            legKeyHashes(legs), [0n, 0n], [0n, 0n], (await time.latest()) + 10 * ONE_DAY, 0, { value: payment }
+        );
+
+        return { owner, shipper, hub, recipient, fraudAgent, routingAgent, arbitrator, shipments, route, legs };
+    }
+
+    type Fixture = Awaited<ReturnType<typeof deployFixture>>;
+
+    const status = async (shipments: Shipment) => Number((await shipments.shipmentDetails(0)).status) as Status;
+
+    async function verifyLeg({ shipments, fraudAgent, legs }: Fixture, custodian: Signer, leg: number) {
+        await shipments.connect(custodian).requestVerificationWithSecret(0, legs[leg].secret);
+        await shipments.connect(fraudAgent).confirmVerification(0, await custodian.getAddress());
+    }
+
+    // Drives the fixture's shipment into `target` through the public workflow.
+    async function reach(f: Fixture, target: Status) {
+        const { shipments, shipper, hub, recipient } = f;
+        switch (target) {
+            case Status.Created:
+                return;
+            case Status.InTransit:
+                await shipments.connect(shipper).initiateHandover(0);
+                return;
+            case Status.AwaitingVerification:
+                await shipments.connect(shipper).initiateHandover(0);
+                await shipments.connect(hub).requestVerificationWithSecret(0, f.legs[0].secret);
+                return;
+            case Status.Delivered:
+            case Status.Completed:
+                await shipments.connect(shipper).initiateHandover(0);
+                await verifyLeg(f, hub, 0);
+                await shipments.connect(hub).initiateHandover(0);
+                await verifyLeg(f, recipient, 1);
+                if (target === Status.Completed) await shipments.connect(shipper).finalizeAndPay(0);
+                return;
+            case Status.Disputed:
+                await shipments.connect(shipper).disputeShipment(0, "Seal broken");
+                return;
+            case Status.ReroutingRequested:
+                await shipments.connect(shipper).requestReroute(0, "Port closed");
+                return;
+            case Status.Cancelled:
+                await shipments.connect(shipper).cancelShipment(0);
+                return;
+        }
+    }
+
+    interface Action {
+        name: string;
+        // Statuses the action is accepted in, and the status it leads to.
+        from: Status[];
+        to: Status;
+        prepare?: () => Promise<unknown>;
+        run: (f: Fixture) => Promise<ContractTransactionResponse>;
+    }
+
+    const ownerOf = async (f: Fixture) => ethers.getSigner(await f.shipments.ownerOf(0));
+    const pendingOrHub = async (f: Fixture) => {
+        const pending = (await f.shipments.shipmentDetails(0)).pendingCustodian;
+        return pending === ethers.ZeroAddress ? f.hub : ethers.getSigner(pending);
+    };
+
+    const ACTIONS: Action[] = [
+        {
+            name: "initiateHandover",
+            from: [Status.Created],
+            to: Status.InTransit,
+            run: async (f) => f.shipments.connect(await ownerOf(f)).initiateHandover(0),
+        },
+        {
+            name: "requestVerification",
+            from: [Status.InTransit],
+            to: Status.AwaitingVerification,
+            run: async (f) => f.shipments.connect(await pendingOrHub(f)).requestVerificationWithSecret(0, f.legs[0].secret),
+        },
+        {
+            name: "confirmVerification",
+            from: [Status.AwaitingVerification],
+            to: Status.Created,
+            run: async (f) =>
+                f.shipments.connect(f.fraudAgent).confirmVerification(0, (await f.shipments.shipmentDetails(0)).pendingCustodian),
+        },
+        {
+            name: "flagShipment",
+            from: [Status.AwaitingVerification],
+            to: Status.Disputed,
+            run: async (f) => f.shipments.connect(f.fraudAgent).flagShipment(0, "Proof hash mismatch"),
+        },
+        {
+            name: "requestReroute",
+            from: [Status.Created, Status.InTransit],
+            to: Status.ReroutingRequested,
+            run: async (f) => f.shipments.connect(await ownerOf(f)).requestReroute(0, "Port closed"),
+        },
+        {
+            name: "acceptReroute",
+            from: [Status.ReroutingRequested],
+            to: Status.Created,
+            run: async (f) => {
+                const fromLeg = Number((await f.shipments.shipmentDetails(0)).currentRouteIndex);
+                const remaining = legKeyHashes(generateLegSecrets(f.route)).slice(fromLeg);
+                const zeros = remaining.map(() => 0n);
+                // Outside ReroutingRequested the proposal is refused as well; the acceptance is what is under test.
+                await f.shipments.connect(f.routingAgent).proposeReroute(0, f.route, remaining, zeros, zeros).catch(() => undefined);
+                return f.shipments.connect(f.shipper).acceptReroute(0);
+            },
+        },
+        {
+            name: "withdrawRerouteRequest",
+            from: [Status.ReroutingRequested],
+            to: Status.Created,
+            run: async (f) => f.shipments.connect(f.shipper).withdrawRerouteRequest(0),
+        },
+        {
+            name: "finalizeAndPay",
+            from: [Status.Delivered],
+            to: Status.Completed,
+            run: async (f) => f.shipments.connect(f.shipper).finalizeAndPay(0),
+        },
+        {
+            name: "disputeShipment",
+            from: STATUSES.filter((s) => s !== Status.Completed && s !== Status.Disputed && s !== Status.Cancelled),
+            to: Status.Disputed,
+            run: async (f) => f.shipments.connect(f.shipper).disputeShipment(0, "Damaged"),
+        },
+        {
+            name: "resolveDispute",
+            from: [Status.Disputed],
+            to: Status.Completed,
+            run: async (f) => f.shipments.connect(f.arbitrator).resolveDispute(0, { shipperBps: 10_000, recipientBps: 0, custodianBps: 0 }),
+        },
+        {
+            name: "settleExpiredDispute",
+            from: [Status.Disputed],
+            to: Status.Completed,
+            prepare: () => time.increase(8 * ONE_DAY),
+            run: async (f) => f.shipments.settleExpiredDispute(0),
+        },
+        {
+            name: "cancelShipment",
+            from: [Status.Created],
+            to: Status.Cancelled,
+            run: async (f) => f.shipments.connect(f.shipper).cancelShipment(0),
+        },
+        {
+            name: "cancelShipment (recipient approved)",
+            from: UNDERWAY,
+            to: Status.Cancelled,
+            run: async (f) => {
+                // Before pickup the shipper needs no approval, and the recipient cannot give one
+                if ((await status(f.shipments)) !== Status.Created) await f.shipments.connect(f.recipient).approveCancellation(0);
+                return f.shipments.connect(f.shipper).cancelShipment(0);
+            },
+        },
+        {
+            name: "claimTimeoutRefund",
+            from: UNDERWAY,
+            to: Status.Completed,
+            prepare: () => time.increase(11 * ONE_DAY),
+            run: async (f) => f.shipments.connect(f.shipper).claimTimeoutRefund(0),
+        },
+        {
+            name: "escalateTimeout",
+            from: UNDERWAY,
+            to: Status.Disputed,
+            prepare: () => time.increase(11 * ONE_DAY),
+            run: async (f) => f.shipments.connect(f.shipper).escalateTimeout(0),
+        },
+    ];
+
+    describe("Every (status, action) pair", function () {
+        for (const action of ACTIONS) {
+            it(`Should only allow ${action.name} from ${action.from.map((s) => Status[s]).join(", ")}`, async function () {
+                for (const from of STATUSES) {
+                    const f = await loadFixture(deployFixture);
+                    await reach(f, from);
+                    expect(await status(f.shipments)).to.equal(from);
+                    await action.prepare?.();
+
+                    if (action.from.includes(from)) {
+                        expect(canTransition(from, action.to), `${Status[from]} -> ${Status[action.to]}`).to.be.true;
+                        await expect(action.run(f)).to.emit(f.shipments, "StatusChanged").withArgs(0, from, action.to);
+                        expect(await status(f.shipments)).to.equal(action.to);
+                    } else {
+                        await expect(action.run(f), `${action.name} from ${Status[from]}`).to.be.reverted;
+                        expect(await status(f.shipments)).to.equal(from);
+                    }
+                }
+            });
+        }
+    });
+
+    describe("Transition Table", function () {
+        it("Should match the SDK mirror for every pair of statuses", async function () {
+            const { shipments } = await loadFixture(deployFixture);
+            for (const from of STATUSES) {
+                for (const to of STATUSES) {
+                    expect(await shipments.isAllowedTransition(from, to), `${Status[from]} -> ${Status[to]}`).to.equal(canTransition(from, to));
+                }
+            }
+        });
+
+        it("Should keep the old guards' reasons for requests made in the wrong state", async function () {
+            const f = await loadFixture(deployFixture);
+            await reach(f, Status.Disputed);
+            await expect(f.shipments.connect(f.shipper).requestReroute(0, "Port closed")).to.be.revertedWith("Shipment not in a state for reroute");
+            await expect(f.shipments.connect(f.fraudAgent).flagShipment(0, "Seal broken")).to.be.revertedWith("Verification not requested");
+        });
+    });
+
+    describe("Status History", function () {
+        it("Should record every status a shipment passes through with its timestamp", async function () {
+            const f = await loadFixture(deployFixture);
+            await reach(f, Status.Completed);
+
+            const history = await f.shipments.getStatusHistory(0);
+            expect(history.map((entry) => Number(entry.status))).to.deep.equal([
+                Status.Created,
+                Status.InTransit,
+                Status.AwaitingVerification,
+                Status.Created,
+                Status.InTransit,
+                Status.AwaitingVerification,
+                Status.Delivered,
+                Status.Completed,
+            ]);
+            expect(history[history.length - 1].changedAt).to.equal(await time.latest());
+            for (let i = 1; i < history.length; i++) {
+                expect(canTransition(Number(history[i - 1].status), Number(history[i].status))).to.be.true;
+            }
+        });
+    });
+});
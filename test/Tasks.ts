@@ -0,0 +1,171 @@
+import { expect } from "chai";
+import hre, { ethers } from "hardhat";
+import { mkdtempSync, readFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { AgentInfo, AgentType, DeploymentManifest, LegSecret, RevertReason, ShipmentDetails, ShipmentSummary, Status } from "../sdk";
+import { deployHashRoute } from "../ignition";
+import { ExecutionResult } from "../tasks/context";
+
+// The parts of `hashroute:status` results these tests read
+interface StatusResult {
+    details: ShipmentDetails;
+    summary: ShipmentSummary;
+    route: string[];
+}
+
+type CollectionListing = { address: string; registered: boolean }[];
+
+describe("Hardhat Tasks", function () {
+    let dir: string;
+    let manifestPath: string;
+    let manifest: DeploymentManifest;
+    let shipper: HardhatEthersSigner, carrier: HardhatEthersSigner, recipient: HardhatEthersSigner;
+    let fraudAgent: HardhatEthersSigner, arbitrator: HardhatEthersSigner, routingAgent: HardhatEthersSigner;
+
+    // Runs a task against the test manifest, capturing what it prints; tasks that send return an ExecutionResult
+    async function run<T = ExecutionResult>(name: string, args: Record<string, unknown> = {}): Promise<{ result: T; output: string }> {
+        const lines: string[] = [];
+        const log = console.log;
+        console.log = (...parts: unknown[]) => lines.push(parts.join(" "));
+        try {
+            const result = await hre.run(`hashroute:${name}`, { manifest: manifestPath, ...args });
+            return { result, output: lines.join("\n") };
+        } finally {
+            console.log = log;
+        }
+    }
+
+    async function createShipment(): Promise<{ tokenId: bigint; secrets: LegSecret[] }> {
+        const secretsOut = join(dir, `secrets-${Date.now()}.json`);
+        const { result } = await run<ExecutionResult & { tokenId: bigint }>("create", {
+            from: shipper.address,
+            recipient: recipient.address,
+            via: carrier.address,
+            cargo: "Laptops",
+            amount: "1",
+            fees: "0.1,0.2",
+            secretsOut,
+        });
+        return { tokenId: result.tokenId, secrets: JSON.parse(readFileSync(secretsOut, "utf8")).legs };
+    }
+
+    before(async function () {
+        [, shipper, carrier, recipient, fraudAgent, arbitrator, routingAgent] = await ethers.getSigners();
+        dir = mkdtempSync(join(tmpdir(), "hashroute-tasks-"));
+        manifestPath = join(dir, "manifest.json");
+        manifest = await deployHashRoute(
+            hre,
+            {
+                collections: [{ id: "Electronics", name: "HBARgo Electronics Shipment", symbol: "HGO-EL" }],
+                agents: [
+                    { address: fraudAgent.address, type: "FRAUD_DETECTION" },
+                    { address: arbitrator.address, type: "ARBITRATION" },
+                ],
+            },
+            { deploymentDir: join(dir, "journal"), manifestPath }
+        );
+    });
+
+    it("Should create a shipment and pretty-print its details", async function () {
+        const { tokenId, secrets } = await createShipment();
+        expect(secrets.map((s) => s.to)).to.deep.equal([carrier.address, recipient.address]);
+
+        const { result, output } = await run<StatusResult>("status", { tokenId });
+        expect(result.details.status).to.equal(Status.Created);
+        expect(result.route).to.deep.equal([shipper.address, carrier.address, recipient.address]);
+        expect(output).to.include(`Shipment #${tokenId} in Electronics`);
+        expect(output).to.include(`[${shipper.address}] → ${carrier.address} → ${recipient.address}`);
+        expect(output).to.include("1.0 HBAR");
+    });
+
+    it("Should walk a handover through verification and list the decoded events", async function () {
+        const { tokenId, secrets } = await createShipment();
+
+        const handover = await run("handover", { tokenId, from: shipper.address });
+        expect(handover.result.events).to.include(`HandoverInitiated(tokenId=${tokenId}, from=${shipper.address}, to=${carrier.address})`);
+        await run("verify", { tokenId, secret: secrets[0].secret, from: carrier.address });
+        const confirmed = await run("verify", { tokenId, confirm: carrier.address, from: fraudAgent.address });
+        expect(confirmed.output).to.include("confirmVerification mined in block");
+
+        const { result, output } = await run<StatusResult>("status", { tokenId, events: true });
+        expect(result.summary.custodian).to.equal(carrier.address);
+        expect(output).to.include(`StatusChanged(tokenId=${tokenId}, from=AwaitingVerification, to=Created)`);
+        expect(output).to.include(`ShipmentVerifiedAndReceived(tokenId=${tokenId}, newCustodian=${carrier.address})`);
+    });
+
+    it("Should simulate a call with --dry-run and show why it would revert", async function () {
+        const { tokenId } = await createShipment();
+        const block = await ethers.provider.getBlockNumber();
+
+        const failing = await run("handover", { tokenId, from: carrier.address, dryRun: true });
+        expect(failing.result).to.include({ dryRun: true, ok: false, code: "NOT_SHIPMENT_OWNER" });
+        expect(failing.output).to.include(`initiateHandover would revert: ${RevertReason.NOT_SHIPMENT_OWNER}`);
+
+        const passing = await run("handover", { tokenId, from: shipper.address, dryRun: true });
+        expect(passing.result.ok).to.equal(true);
+        expect(passing.result.gasEstimate).to.be.greaterThan(0n);
+
+        const revoke = await run("agents", { action: "revoke", agent: fraudAgent.address, type: "FRAUD_DETECTION", from: shipper.address, dryRun: true });
+        expect(revoke.result.code).to.equal("OwnableUnauthorizedAccount");
+        expect(await ethers.provider.getBlockNumber()).to.equal(block);
+    });
+
+    it("Should raise a dispute, attach evidence and resolve it", async function () {
+        const { tokenId } = await createShipment();
+
+        await run("dispute", { action: "raise", tokenId, reason: "Damaged in transit", from: recipient.address });
+        await run("dispute", { action: "evidence", tokenId, uri: "ipfs://photos", contentHash: ethers.id("photos"), from: recipient.address });
+        const resolved = await run("dispute", { action: "resolve", tokenId, split: "0,10000,0", from: arbitrator.address });
+        expect(resolved.result.events.some((line) => line.startsWith("DisputeResolved("))).to.equal(true);
+
+        const { result, output } = await run<StatusResult>("status", { tokenId });
+        expect(result.details.status).to.equal(Status.Completed);
+        expect(output).to.include("Dispute #0");
+        expect(output).to.include("ipfs://photos");
+        expect(output).to.include(`shipper 0 / recipient 10000 / custodian 0 bps by ${arbitrator.address}`);
+    });
+
+    it("Should register, list and revoke agents", async function () {
+        const registered = await run("agents", { action: "register", agent: routingAgent.address, type: "routing" });
+        expect(registered.result.events).to.deep.equal([`AgentRegistered(agentAddress=${routingAgent.address}, agentType=${AgentType.ROUTING})`]);
+
+        const { result, output } = await run<Record<string, AgentInfo[]>>("agents", { action: "list", type: "ROUTING" });
+        expect(result.ROUTING.map((info) => info.agent)).to.include(routingAgent.address);
+        expect(output).to.include("ROUTING (quorum 1)");
+
+        await run("agents", { action: "revoke", agent: routingAgent.address, type: "ROUTING" });
+        expect((await run<Record<string, AgentInfo[]>>("agents", { action: "list" })).result.ROUTING).to.deep.equal([]);
+    });
+
+    it("Should list, deregister and re-register collections", async function () {
+        const electronics = manifest.collections.Electronics.address;
+        expect((await run<CollectionListing>("collections")).result).to.deep.equal([{ address: electronics, registered: true }]);
+
+        await run("collections", { action: "deregister", collection: "Electronics" });
+        const { result, output } = await run<CollectionListing>("collections");
+        expect(result).to.deep.equal([{ address: electronics, registered: false }]);
+        expect(output).to.include(`Electronics (${electronics})`);
+
+        await run("collections", { action: "register", collection: electronics });
+        expect((await run<CollectionListing>("collections")).result[0].registered).to.equal(true);
+    });
+
+    it("Should reject an unknown collection, a missing manifest and conflicting options", async function () {
+        async function failure(name: string, args: Record<string, unknown>): Promise<string> {
+            try {
+                await run(name, args);
+            } catch (error) {
+                return (error as Error).message;
+            }
+            throw new Error(`hashroute:${name} did not fail`);
+        }
+
+        expect(await failure("status", { tokenId: 1n, collection: "ColdChain" })).to.include("Unknown collection ColdChain");
+        expect(await failure("status", { tokenId: 1n, manifest: join(dir, "missing.json") })).to.include("No deployment manifest");
+        expect(await failure("verify", { tokenId: 1n, secret: ethers.ZeroHash, confirm: carrier.address })).to.include(
+            "Pass exactly one of --secret, --proof-hash or --confirm"
+        );
+    });
+});
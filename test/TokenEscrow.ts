@@ -0,0 +1,165 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { Signer } from "ethers";
+import { MockERC20, OracleRegistry, Shipment, ShipmentFactory } from "../typechain-types";
+import { AgentType, Status, generateLegSecrets, legKeyHashes, LegSecret } from "../sdk";
+import { getShipmentContractFactory } from "./helpers";
+
+describe("Token Escrow", function () {
+    let owner: Signer, shipper: Signer, distributor: Signer, recipient: Signer, fraudAgent: Signer, arbitrator: Signer;
+    let oracleRegistry: OracleRegistry;
+    let shipmentFactory: ShipmentFactory;
+    let shipments: Shipment;
+    let usdc: MockERC20;
+
+    // A stablecoin with 6 decimals, like USDC
+    const payment = ethers.parseUnits("300", 6);
+    const legFees = [ethers.parseUnits("100", 6), ethers.parseUnits("50", 6)];
+
+    beforeEach(async function () {
+        [owner, shipper, distributor, recipient, fraudAgent, arbitrator] = await ethers.getSigners();
+
+        oracleRegistry = await (await ethers.getContractFactory("OracleRegistry")).deploy();
+        shipmentFactory = await (await ethers.getContractFactory("ShipmentFactory")).deploy();
+        shipments = await (await getShipmentContractFactory()).deploy(await oracleRegistry.getAddress());
+        usdc = await (await ethers.getContractFactory("MockERC20")).deploy("USD Coin", "USDC", 6);
+
+        await shipments.setFactory(await shipmentFactory.getAddress());
+        await shipmentFactory.registerShipmentContract(await shipments.getAddress());
+        await oracleRegistry.registerAgent(await fraudAgent.getAddress(), AgentType.FRAUD_DETECTION);
+        await oracleRegistry.registerAgent(await arbitrator.getAddress(), AgentType.ARBITRATION);
+
+        await shipments.setPaymentTokenAllowed(await usdc.getAddress(), true);
+        await usdc.mint(await shipper.getAddress(), payment * 10n);
+    });
+
+    async function createTokenShipment(value: bigint = 0n): Promise<LegSecret[]> {
+        const route = [await shipper.getAddress(), await distributor.getAddress(), await recipient.getAddress()];
+        const legs = generateLegSecrets(route);
+        await shipmentFactory.connect(shipper).createShipment(
+            await shipments.getAddress(),
+            await recipient.getAddress(),
+            "Pharmaceuticals",
+            route,
+            await usdc.getAddress(),
+            payment,
+            legKeyHashes(legs),
+            legFees,
+            [0n, 0n], 0, 0, // No deadlines or late penalty
+            { value }
+        );
+        return legs;
+    }
+
+    async function verifyLeg(tokenId: number, from: Signer, to: Signer, secret: string) {
+        await shipments.connect(from).initiateHandover(tokenId);
+        await shipments.connect(to).requestVerificationWithSecret(tokenId, secret);
+        await shipments.connect(fraudAgent).confirmVerification(tokenId, await to.getAddress());
+    }
+
+    describe("Allow-list", function () {
+        it("Should let only the collection owner allow tokens", async function () {
+            await expect(shipments.connect(shipper).setPaymentTokenAllowed(await usdc.getAddress(), false))
+                .to.be.revertedWithCustomError(shipments, "OwnableUnauthorizedAccount");
+            await expect(shipments.setPaymentTokenAllowed(ethers.ZeroAddress, true))
+                .to.be.revertedWith("Payment token address cannot be zero");
+
+            await expect(shipments.setPaymentTokenAllowed(await usdc.getAddress(), false))
+                .to.emit(shipments, "PaymentTokenAllowed")
+                .withArgs(await usdc.getAddress(), false);
+            expect(await shipments.isPaymentTokenAllowed(await usdc.getAddress())).to.be.false;
+        });
+
+        it("Should reject shipments escrowed in a token the collection does not accept", async function () {
+            await shipments.setPaymentTokenAllowed(await usdc.getAddress(), false);
+            await usdc.connect(shipper).approve(await shipmentFactory.getAddress(), payment);
+            await expect(createTokenShipment()).to.be.revertedWith("Factory: Payment token not accepted by collection");
+        });
+
+        it("Should still settle existing escrows after a token is removed", async function () {
+            await usdc.connect(shipper).approve(await shipmentFactory.getAddress(), payment);
+            await createTokenShipment();
+            await shipments.setPaymentTokenAllowed(await usdc.getAddress(), false);
+
+            await shipments.connect(shipper).disputeShipment(0, "Damaged");
+            await expect(shipments.connect(arbitrator).resolveDispute(0, { shipperBps: 10_000, recipientBps: 0, custodianBps: 0 }))
+                .to.changeTokenBalance(usdc, shipper, payment);
+        });
+    });
+
+    describe("Funding", function () {
+        it("Should pull the escrow from the shipper into the collection", async function () {
+            await usdc.connect(shipper).approve(await shipmentFactory.getAddress(), payment);
+            await createTokenShipment();
+            expect(await usdc.balanceOf(await shipper.getAddress())).to.equal(payment * 9n);
+            expect(await usdc.balanceOf(await shipments.getAddress())).to.equal(payment);
+
+            const details = await shipments.shipmentDetails(0);
+            expect(details.paymentToken).to.equal(await usdc.getAddress());
+            expect(details.paymentAmount).to.equal(payment);
+            expect(await usdc.balanceOf(await shipmentFactory.getAddress())).to.equal(0);
+        });
+
+        it("Should fail without an allowance", async function () {
+            await expect(createTokenShipment()).to.be.revertedWithCustomError(usdc, "ERC20InsufficientAllowance");
+        });
+
+        it("Should reject HBAR sent alongside a token escrow", async function () {
+            await usdc.connect(shipper).approve(await shipmentFactory.getAddress(), payment);
+            await expect(createTokenShipment(1n)).to.be.revertedWith("Factory: HBAR sent with a token escrow");
+        });
+    });
+
+    describe("Settlement", function () {
+        beforeEach(async function () {
+            await usdc.connect(shipper).approve(await shipmentFactory.getAddress(), payment);
+        });
+
+        it("Should pay leg fees and the remainder in the escrow token", async function () {
+            const legs = await createTokenShipment();
+            await verifyLeg(0, shipper, distributor, legs[0].secret);
+            await verifyLeg(0, distributor, recipient, legs[1].secret);
+
+            expect(await shipments.claimableFees(await distributor.getAddress(), await usdc.getAddress())).to.equal(legFees[0]);
+            expect(await shipments.claimableFees(await distributor.getAddress(), ethers.ZeroAddress)).to.equal(0);
+            await expect(shipments.connect(distributor).claimFees(ethers.ZeroAddress)).to.be.revertedWith("No fees to claim");
+
+            await expect(shipments.connect(distributor).claimFees(await usdc.getAddress()))
+                .to.emit(shipments, "FeesClaimed")
+                .withArgs(await distributor.getAddress(), await usdc.getAddress(), legFees[0]);
+            await expect(shipments.connect(recipient).claimFees(await usdc.getAddress()))
+                .to.changeTokenBalance(usdc, recipient, legFees[1]);
+
+            await expect(shipments.connect(shipper).finalizeAndPay(0))
+                .to.changeTokenBalance(usdc, shipper, payment - legFees[0] - legFees[1]);
+            expect(await usdc.balanceOf(await shipments.getAddress())).to.equal(0);
+        });
+
+        it("Should pay a dispute settlement in the escrow token", async function () {
+            const legs = await createTokenShipment();
+            await verifyLeg(0, shipper, distributor, legs[0].secret);
+
+            await shipments.connect(recipient).disputeShipment(0, "Temperature excursion");
+            await expect(shipments.connect(arbitrator).resolveDispute(0, { shipperBps: 0, recipientBps: 10_000, custodianBps: 0 }))
+                .to.changeTokenBalances(usdc, [recipient, shipments], [payment - legFees[0], -(payment - legFees[0])]);
+            expect((await shipments.shipmentDetails(0)).status).to.equal(Status.Completed);
+
+            // The fee already earned by the distributor stays claimable.
+            expect(await usdc.balanceOf(await shipments.getAddress())).to.equal(legFees[0]);
+        });
+
+        it("Should keep native and token escrows apart in the same collection", async function () {
+            await createTokenShipment();
+            const route = [await shipper.getAddress(), await recipient.getAddress()];
+            const hbar = ethers.parseEther("1.0");
+            await shipmentFactory.connect(shipper).createShipment(
+                await shipments.getAddress(), await recipient.getAddress(), "Docs", route, ethers.ZeroAddress, hbar,
+                [ethers.keccak256(ethers.randomBytes(32))], [0n], [0n], 0, 0, { value: hbar }
+            );
+
+            expect((await shipments.shipmentDetails(1)).paymentToken).to.equal(ethers.ZeroAddress);
+            expect(await ethers.provider.getBalance(shipments)).to.equal(hbar);
+            expect(await usdc.balanceOf(await shipments.getAddress())).to.equal(payment);
+        });
+    });
+});
@@ -0,0 +1,134 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { Signer } from "ethers";
+import { OracleRegistry, Shipment, ShipmentFactory } from "../typechain-types";
+import { AgentType, CompletedTokenPolicy, Status, generateLegSecrets, legKeyHashes, LegSecret } from "../sdk";
+import { getShipmentContractFactory } from "./helpers";
+
+describe("Transfer Policy", function () {
+    let owner: Signer, shipper: Signer, recipient: Signer, fraudAgent: Signer, marketplace: Signer, stranger: Signer;
+    let oracleRegistry: OracleRegistry;
+    let shipmentFactory: ShipmentFactory;
+    let shipments: Shipment;
+    let legs: LegSecret[];
+
+    const payment = ethers.parseEther("1.0");
+
+    beforeEach(async function () {
+        [owner, shipper, recipient, fraudAgent, marketplace, stranger] = await ethers.getSigners();
+
+        oracleRegistry = await (await ethers.getContractFactory("OracleRegistry")).deploy();
+        shipmentFactory = await (await ethers.getContractFactory("ShipmentFactory")).deploy();
+        shipments = await (await getShipmentContractFactory()).deploy(await oracleRegistry.getAddress());
+
+        await shipments.setFactory(await shipmentFactory.getAddress());
+        await shipmentFactory.registerShipmentContract(await shipments.getAddress());
+        await oracleRegistry.registerAgent(await fraudAgent.getAddress(), AgentType.FRAUD_DETECTION);
+
+        const route = [await shipper.getAddress(), await recipient.getAddress()];
+        legs = generateLegSecrets(route);
+        await shipmentFactory.connect(shipper).createShipment(
+            await shipments.getAddress(), await recipient.getAddress(), "Artwork", route, ethers.ZeroAddress, payment,
+            legKeyHashes(legs), [0n], [0n], 0, 0, { value: payment }
+        );
+    });
+
+    async function complete() {
+        await shipments.connect(shipper).initiateHandover(0);
+        await shipments.connect(recipient).requestVerificationWithSecret(0, legs[0].secret);
+        await shipments.connect(fraudAgent).confirmVerification(0, await recipient.getAddress());
+        await shipments.connect(shipper).finalizeAndPay(0);
+    }
+
+    describe("During the Workflow", function () {
+        it("Should block direct transfers by the custodian", async function () {
+            await expect(shipments.connect(shipper).transferFrom(await shipper.getAddress(), await stranger.getAddress(), 0))
+                .to.be.revertedWith("Custody can only change through verification");
+            await expect(
+                shipments.connect(shipper)["safeTransferFrom(address,address,uint256)"](await shipper.getAddress(), await stranger.getAddress(), 0)
+            ).to.be.revertedWith("Custody can only change through verification");
+
+            // Blocked even for a pre-configured operator, and even once the leg is verified.
+            await shipments.setApprovedOperator(await marketplace.getAddress(), true);
+            await shipments.connect(shipper).approve(await marketplace.getAddress(), 0);
+            await expect(shipments.connect(marketplace).transferFrom(await shipper.getAddress(), await stranger.getAddress(), 0))
+                .to.be.revertedWith("Custody can only change through verification");
+        });
+
+        it("Should still move custody through verification", async function () {
+            await shipments.setCompletedTokenPolicy(CompletedTokenPolicy.Transferable);
+            await shipments.connect(shipper).initiateHandover(0);
+            await shipments.connect(recipient).requestVerificationWithSecret(0, legs[0].secret);
+            await shipments.connect(fraudAgent).confirmVerification(0, await recipient.getAddress());
+            expect(await shipments.ownerOf(0)).to.equal(await recipient.getAddress());
+
+            // Delivered is not Completed: the recipient cannot pass the NFT on yet.
+            await expect(shipments.connect(recipient).transferFrom(await recipient.getAddress(), await stranger.getAddress(), 0))
+                .to.be.revertedWith("Custody can only change through verification");
+        });
+
+        it("Should only allow approving operators configured by the collection owner", async function () {
+            await expect(shipments.connect(shipper).approve(await stranger.getAddress(), 0))
+                .to.be.revertedWith("Operator not approved by the collection");
+            await expect(shipments.connect(shipper).setApprovalForAll(await stranger.getAddress(), true))
+                .to.be.revertedWith("Operator not approved by the collection");
+
+            await expect(shipments.connect(stranger).setApprovedOperator(await marketplace.getAddress(), true))
+                .to.be.revertedWithCustomError(shipments, "OwnableUnauthorizedAccount");
+            await expect(shipments.setApprovedOperator(ethers.ZeroAddress, true)).to.be.revertedWith("Operator address cannot be zero");
+            await expect(shipments.setApprovedOperator(await marketplace.getAddress(), true))
+                .to.emit(shipments, "ApprovedOperatorUpdated")
+                .withArgs(await marketplace.getAddress(), true);
+
+            await shipments.connect(shipper).setApprovalForAll(await marketplace.getAddress(), true);
+            expect(await shipments.isApprovedForAll(await shipper.getAddress(), await marketplace.getAddress())).to.be.true;
+
+            // Revoking and clearing approvals is always possible.
+            await shipments.setApprovedOperator(await marketplace.getAddress(), false);
+            await shipments.connect(shipper).setApprovalForAll(await marketplace.getAddress(), false);
+            await shipments.connect(shipper).approve(ethers.ZeroAddress, 0);
+        });
+    });
+
+    describe("After Completion", function () {
+        beforeEach(async function () {
+            await complete();
+            expect((await shipments.shipmentDetails(0)).status).to.equal(Status.Completed);
+        });
+
+        it("Should keep completed shipments locked by default", async function () {
+            expect(await shipments.completedTokenPolicy()).to.equal(CompletedTokenPolicy.Locked);
+            await expect(shipments.connect(recipient).transferFrom(await recipient.getAddress(), await stranger.getAddress(), 0))
+                .to.be.revertedWith("Completed shipments are not transferable");
+            await expect(shipments.connect(recipient).burn(0)).to.be.revertedWith("Completed shipments cannot be burned");
+        });
+
+        it("Should let holders and approved operators transfer when the owner allows it", async function () {
+            await expect(shipments.connect(stranger).setCompletedTokenPolicy(CompletedTokenPolicy.Transferable))
+                .to.be.revertedWithCustomError(shipments, "OwnableUnauthorizedAccount");
+            await expect(shipments.setCompletedTokenPolicy(CompletedTokenPolicy.Transferable))
+                .to.emit(shipments, "CompletedTokenPolicyUpdated")
+                .withArgs(CompletedTokenPolicy.Transferable);
+
+            await shipments.setApprovedOperator(await marketplace.getAddress(), true);
+            await shipments.connect(recipient).approve(await marketplace.getAddress(), 0);
+            await shipments.connect(marketplace).transferFrom(await recipient.getAddress(), await stranger.getAddress(), 0);
+            expect(await shipments.ownerOf(0)).to.equal(await stranger.getAddress());
+
+            await expect(shipments.connect(stranger).burn(0)).to.be.revertedWith("Completed shipments cannot be burned");
+        });
+
+        it("Should let holders burn when the owner allows it, keeping the shipment record", async function () {
+            await shipments.setCompletedTokenPolicy(CompletedTokenPolicy.Burnable);
+            await expect(shipments.connect(stranger).burn(0)).to.be.revertedWithCustomError(shipments, "ERC721InsufficientApproval");
+            await expect(shipments.connect(recipient).transferFrom(await recipient.getAddress(), await stranger.getAddress(), 0))
+                .to.be.revertedWith("Completed shipments are not transferable");
+
+            await expect(shipments.connect(recipient).burn(0))
+                .to.emit(shipments, "Transfer")
+                .withArgs(await recipient.getAddress(), ethers.ZeroAddress, 0);
+            await expect(shipments.ownerOf(0)).to.be.revertedWithCustomError(shipments, "ERC721NonexistentToken");
+            expect((await shipments.shipmentDetails(0)).cargoDetails).to.equal("Artwork");
+        });
+    });
+});
@@ -2,22 +2,22 @@ import { expect } from "chai";
 import { ethers } from "hardhat";
 import { Signer } from "ethers";
 import { Shipment, ShipmentFactory, OracleRegistry } from "../typechain-types";
+import { AgentType, ShipmentClient, Status, generateLegSecrets, legKeyHashes } from "../sdk";
+import { getShipmentContractFactory } from "./helpers";
 
 describe("Full Supply Chain Workflow (Hybrid Verification)", function () {
     // --- Actors & Agents ---
     let owner: Signer;
     let shipper: Signer, distributor: Signer, retailer: Signer, recipient: Signer;
-    let fraudAgent: Signer;
+    let fraudAgent: Signer, routingAgent: Signer;
 
     // --- Contracts ---
     let oracleRegistry: OracleRegistry;
     let shipmentFactory: ShipmentFactory;
     let electronicsShipments: Shipment;
 
-    const AgentType = { ROUTING: 0, ARBITRATION: 1, FRAUD_DETECTION: 2 };
-
     before(async function () {
-        [owner, shipper, distributor, retailer, recipient, fraudAgent] = await ethers.getSigners();
+        [owner, shipper, distributor, retailer, recipient, fraudAgent, routingAgent] = await ethers.getSigners();
 
         const OracleRegistryFactory = await ethers.getContractFactory("OracleRegistry");
         oracleRegistry = await OracleRegistryFactory.deploy();
@@ -26,17 +26,37 @@ describe("Full Supply Chain Workflow (Hybrid Verification)", function () {
         shipmentFactory = await UniversalFactory.deploy();
         
         await oracleRegistry.connect(owner).registerAgent(await fraudAgent.getAddress(), AgentType.FRAUD_DETECTION);
+        await oracleRegistry.connect(owner).registerAgent(await routingAgent.getAddress(), AgentType.ROUTING);
 
-        const ShipmentContractFactory = await ethers.getContractFactory("Shipment");
+        const ShipmentContractFactory = await getShipmentContractFactory();
         electronicsShipments = await ShipmentContractFactory.deploy(await oracleRegistry.getAddress());
 
         await electronicsShipments.setFactory(await shipmentFactory.getAddress());
         await shipmentFactory.registerShipmentContract(await electronicsShipments.getAddress());
     });
 
+    // The collection must always hold exactly the unreleased escrow of every token plus the fees
+    // released to custodians but not yet claimed.
+    async function expectEscrowBalanced() {
+        const client = new ShipmentClient(await electronicsShipments.getAddress(), owner);
+        const tokenCount = await shipmentFactory.shipmentNonce(await electronicsShipments.getAddress());
+
+        let escrowed = 0n;
+        for (let tokenId = 0n; tokenId < tokenCount; tokenId++) {
+            const escrow = await client.getEscrow(tokenId);
+            expect(escrow.remainder).to.be.gte(0n);
+            escrowed += escrow.paymentAmount;
+        }
+        for (const signer of await ethers.getSigners()) {
+            escrowed += await client.claimableFees(await signer.getAddress());
+        }
+        expect(await ethers.provider.getBalance(electronicsShipments)).to.equal(escrowed);
+    }
+
     it("Should execute a successful multi-node shipment using the hash verification model", async function () {
         const tokenId = 0;
         const payment = ethers.parseEther("5.0");
+        const legFees = [ethers.parseEther("1.0"), ethers.parseEther("1.5"), 0n];
         const plannedRoute = [
             await shipper.getAddress(),
             await distributor.getAddress(),
@@ -44,47 +64,53 @@ describe("Full Supply Chain Workflow (Hybrid Verification)", function () {
             await recipient.getAddress()
         ];
         
-        // === Step 1: Generate Secret and Create Shipment ===
-        // This simulates the frontend generating the secret and its hash
-        const plaintextSecret = ethers.randomBytes(32);
-        const keyHash = ethers.keccak256(plaintextSecret);
+        // === Step 1: Generate Per-Leg Secrets and Create Shipment ===
+        // This simulates the frontend generating one secret per leg and committing to their hashes
+        const legSecrets = generateLegSecrets(plannedRoute);
 
         await shipmentFactory.connect(shipper).createShipment(
             await electronicsShipments.getAddress(),
             await recipient.getAddress(),
             "High-Value Electronics",
             plannedRoute,
+            ethers.ZeroAddress,
             payment,
-            keyHash, // Pass the HASH on-chain
+            legKeyHashes(legSecrets), // Pass only the HASHES on-chain
+            legFees, // The distributor and retailer are paid for carrying their legs
+            [0n, 0n, 0n], 0, 0, // No deadlines or late penalty
             { value: payment }
         );
+        await expectEscrowBalanced();
 
         // This would be the point where the frontend calls the off-chain API
-        // to store the PLAINTEXT secret in the secure keystore. We simulate this by just holding onto the variable.
+        // to store the PLAINTEXT secrets in the secure keystore. We simulate this by just holding onto the variable.
 
         // === Step 2: Shipper -> Distributor Handover ===
         await electronicsShipments.connect(shipper).initiateHandover(tokenId);
         
-        // The distributor scans the QR code, gets the plaintextSecret, hashes it, and submits the hash.
-        const distributorProofHash = ethers.keccak256(plaintextSecret);
+        // The distributor scans the QR code, gets the leg 0 secret, hashes it, and submits the hash.
+        const distributorProofHash = ethers.keccak256(legSecrets[0].secret);
         await electronicsShipments.connect(distributor).requestVerification(tokenId, distributorProofHash);
         
         // Off-chain, the agent would now fetch the original secret, re-hash it, and see it matches.
         // It then confirms the verification on-chain.
-        await electronicsShipments.connect(fraudAgent).confirmVerification(tokenId, await distributor.getAddress());
+        await expect(electronicsShipments.connect(fraudAgent).confirmVerification(tokenId, await distributor.getAddress()))
+            .to.emit(electronicsShipments, "LegFeeReleased")
+            .withArgs(tokenId, 0, await distributor.getAddress(), legFees[0]);
         expect(await electronicsShipments.ownerOf(tokenId)).to.equal(await distributor.getAddress());
+        await expectEscrowBalanced();
 
         // === Step 3: Distributor -> Retailer Handover ===
         await electronicsShipments.connect(distributor).initiateHandover(tokenId);
-        const retailerProofHash = ethers.keccak256(plaintextSecret); // Same secret used for the whole journey
-        await electronicsShipments.connect(retailer).requestVerification(tokenId, retailerProofHash);
+        // The retailer reveals the leg 1 secret itself, so the contract checks it against the commitment.
+        await electronicsShipments.connect(retailer).requestVerificationWithSecret(tokenId, legSecrets[1].secret);
         await electronicsShipments.connect(fraudAgent).confirmVerification(tokenId, await retailer.getAddress());
         expect(await electronicsShipments.ownerOf(tokenId)).to.equal(await retailer.getAddress());
+        expect(await electronicsShipments.claimableFees(await retailer.getAddress(), ethers.ZeroAddress)).to.equal(legFees[1]);
         
         // === Step 4: Final Delivery ===
         await electronicsShipments.connect(retailer).initiateHandover(tokenId);
-        const recipientProofHash = ethers.keccak256(plaintextSecret);
-        await electronicsShipments.connect(recipient).requestVerification(tokenId, recipientProofHash);
+        await electronicsShipments.connect(recipient).requestVerificationWithSecret(tokenId, legSecrets[2].secret);
         await electronicsShipments.connect(fraudAgent).confirmVerification(tokenId, await recipient.getAddress());
         expect(await electronicsShipments.ownerOf(tokenId)).to.equal(await recipient.getAddress());
 
@@ -93,7 +119,17 @@ describe("Full Supply Chain Workflow (Hybrid Verification)", function () {
         const tx = await electronicsShipments.connect(shipper).finalizeAndPay(tokenId);
         const receipt = await tx.wait();
         const gasUsed = receipt!.gasUsed * tx.gasPrice!;
-        expect(await ethers.provider.getBalance(shipper)).to.equal(initialBalance - gasUsed + payment);
+        // The shipper receives what is left after the leg fees.
+        const remainder = payment - legFees[0] - legFees[1];
+        expect(await ethers.provider.getBalance(shipper)).to.equal(initialBalance - gasUsed + remainder);
+        await expectEscrowBalanced();
+
+        // === Step 6: Custodians withdraw their fees ===
+        await expect(electronicsShipments.connect(distributor).claimFees(ethers.ZeroAddress))
+            .to.changeEtherBalances([distributor, electronicsShipments], [legFees[0], -legFees[0]]);
+        await expect(electronicsShipments.connect(distributor).claimFees(ethers.ZeroAddress)).to.be.revertedWith("No fees to claim");
+        await electronicsShipments.connect(retailer).claimFees(ethers.ZeroAddress);
+        await expectEscrowBalanced();
     });
 
     it("Should be flagged by the agent if the wrong secret hash is provided", async function() {
@@ -106,7 +142,7 @@ describe("Full Supply Chain Workflow (Hybrid Verification)", function () {
         
         await shipmentFactory.connect(shipper).createShipment(
             await electronicsShipments.getAddress(),
-            await recipient.getAddress(), "Test Item", route, payment, realSecretHash, { value: payment }
+            await recipient.getAddress(), "Test Item", route, ethers.ZeroAddress, payment, [realSecretHash], [0n], [0n], 0, 0, { value: payment }
         );
 
         await electronicsShipments.connect(shipper).initiateHandover(tokenId);
@@ -122,6 +158,82 @@ describe("Full Supply Chain Workflow (Hybrid Verification)", function () {
             .withArgs(tokenId, "Proof hash mismatch");
         
         const details = await electronicsShipments.shipmentDetails(tokenId);
-        expect(details.status).to.equal(5); // 5 is Disputed
+        expect(details.status).to.equal(Status.Disputed);
+    });
+
+    it("Should reject an earlier leg's secret revealed for a later leg", async function() {
+        const tokenId = 2;
+        const payment = ethers.parseEther("1.0");
+        const route = [await shipper.getAddress(), await distributor.getAddress(), await recipient.getAddress()];
+        const legSecrets = generateLegSecrets(route);
+
+        await shipmentFactory.connect(shipper).createShipment(
+            await electronicsShipments.getAddress(),
+            await recipient.getAddress(), "Test Item", route, ethers.ZeroAddress, payment, legKeyHashes(legSecrets), [0n, 0n], [0n, 0n], 0, 0, { value: payment }
+        );
+
+        await electronicsShipments.connect(shipper).initiateHandover(tokenId);
+        await electronicsShipments.connect(distributor).requestVerificationWithSecret(tokenId, legSecrets[0].secret);
+        await electronicsShipments.connect(fraudAgent).confirmVerification(tokenId, await distributor.getAddress());
+
+        // The distributor learned the leg 0 secret, which proves nothing about leg 1.
+        await electronicsShipments.connect(distributor).initiateHandover(tokenId);
+        await expect(electronicsShipments.connect(recipient).requestVerificationWithSecret(tokenId, legSecrets[0].secret))
+            .to.be.revertedWith("Leg secret does not match commitment");
+
+        await expect(electronicsShipments.connect(recipient).requestVerificationWithSecret(tokenId, legSecrets[1].secret))
+            .to.emit(electronicsShipments, "VerificationRequested");
+    });
+
+    it("Should keep leg fees consistent with the escrow across a reroute", async function() {
+        const tokenId = await shipmentFactory.shipmentNonce(await electronicsShipments.getAddress());
+        const payment = ethers.parseEther("3.0");
+        const route = [await shipper.getAddress(), await distributor.getAddress(), await recipient.getAddress()];
+        const legSecrets = generateLegSecrets(route);
+        const legFees = [ethers.parseEther("1.0"), ethers.parseEther("1.0")];
+
+        await shipmentFactory.connect(shipper).createShipment(
+            await electronicsShipments.getAddress(),
+            await recipient.getAddress(), "Test Item", route, ethers.ZeroAddress, payment, legKeyHashes(legSecrets), legFees, [0n, 0n], 0, 0, { value: payment }
+        );
+        await expect(shipmentFactory.connect(shipper).createShipment(
+            await electronicsShipments.getAddress(),
+            await recipient.getAddress(), "Test Item", route, ethers.ZeroAddress, payment, legKeyHashes(legSecrets), [payment, 1n], [0n, 0n], 0, 0, { value: payment }
+        )).to.be.revertedWith("Factory: Leg fees exceed payment amount");
+
+        await electronicsShipments.connect(shipper).initiateHandover(tokenId);
+        await electronicsShipments.connect(distributor).requestVerificationWithSecret(tokenId, legSecrets[0].secret);
+        await electronicsShipments.connect(fraudAgent).confirmVerification(tokenId, await distributor.getAddress());
+        await expectEscrowBalanced();
+
+        // Reroute the remaining journey through the retailer: two new legs replace the last one.
+        await electronicsShipments.connect(distributor).requestReroute(tokenId, "Port closure");
+        const newRoute = [route[0], route[1], await retailer.getAddress(), route[2]];
+        const newSecrets = generateLegSecrets(newRoute, 1);
+
+        // Only 2.0 of the escrow is left, so the new legs cannot cost more than that.
+        await expect(electronicsShipments.connect(routingAgent).proposeReroute(
+            tokenId, newRoute, legKeyHashes(newSecrets), [ethers.parseEther("1.5"), ethers.parseEther("1.0")], [0n, 0n]
+        )).to.be.revertedWith("Leg fees exceed remaining escrow");
+
+        const newFees = [ethers.parseEther("0.5"), ethers.parseEther("0.5")];
+        await electronicsShipments.connect(routingAgent).proposeReroute(tokenId, newRoute, legKeyHashes(newSecrets), newFees, [0n, 0n]);
+        await electronicsShipments.connect(shipper).acceptReroute(tokenId);
+        expect(await electronicsShipments.getLegFees(tokenId)).to.deep.equal([legFees[0], ...newFees]);
+        expect(await electronicsShipments.unreleasedLegFees(tokenId)).to.equal(ethers.parseEther("1.0"));
+        await expectEscrowBalanced();
+
+        await electronicsShipments.connect(distributor).initiateHandover(tokenId);
+        await electronicsShipments.connect(retailer).requestVerificationWithSecret(tokenId, newSecrets[0].secret);
+        await electronicsShipments.connect(fraudAgent).confirmVerification(tokenId, await retailer.getAddress());
+        await expectEscrowBalanced();
+
+        // A dispute now settles only the escrow that has not been paid out as fees.
+        await electronicsShipments.connect(shipper).disputeShipment(tokenId, "Late");
+        const arbitrator = owner;
+        await oracleRegistry.connect(owner).registerAgent(await arbitrator.getAddress(), AgentType.ARBITRATION);
+        await expect(electronicsShipments.connect(arbitrator).resolveDispute(tokenId, { shipperBps: 10_000, recipientBps: 0, custodianBps: 0 }))
+            .to.changeEtherBalance(shipper, ethers.parseEther("1.5"));
+        await expectEscrowBalanced();
     });
-});
\ No newline at end of file
+});
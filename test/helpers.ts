@@ -0,0 +1,12 @@
+import { ethers } from "hardhat";
+
+/**
+ * @notice Returns a `Shipment` contract factory with its linked libraries deployed.
+ */
+export async function getShipmentContractFactory() {
+    const libraries: Record<string, string> = {};
+    for (const name of ["RouteLib", "DisputeLib", "QuorumLib"]) {
+        libraries[name] = await (await (await ethers.getContractFactory(name)).deploy()).getAddress();
+    }
+    return ethers.getContractFactory("Shipment", { libraries });
+}